@@ -0,0 +1,98 @@
+// Service worker: keeps the map usable without signal.
+// - App pages: network first, falling back to the last cached copy
+// - Next.js static assets: cache first (file names are content-hashed)
+// - GET /api/recipients, /api/session and /api/events: network first, falling back to the last good response.
+//   The page asks for /api/recipients?event=<id>, so each delivery event's roster is cached separately.
+// - OpenStreetMap tiles: cache first, capped at MAX_TILES
+// Queued status updates live in IndexedDB (see src/lib/offlineQueue.ts); on a
+// Background Sync event we ask open pages to replay them, since they hold the logic.
+
+const CACHE_VERSION = 'v1';
+const PAGE_CACHE = `pages-${CACHE_VERSION}`;
+const ASSET_CACHE = `assets-${CACHE_VERSION}`;
+const API_CACHE = `api-${CACHE_VERSION}`;
+const TILE_CACHE = `tiles-${CACHE_VERSION}`;
+const MAX_TILES = 2000;
+const SYNC_TAG = 'status-queue';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(PAGE_CACHE).then((cache) => cache.addAll(['/', '/map'])).catch(() => undefined)
+  );
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [PAGE_CACHE, ASSET_CACHE, API_CACHE, TILE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !current.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request, cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  // Tiles are cross-origin (opaque) responses; cache those too
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response.clone());
+    if (maxEntries) {
+      const keys = await cache.keys();
+      for (const key of keys.slice(0, Math.max(0, keys.length - maxEntries))) {
+        await cache.delete(key);
+      }
+    }
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (url.hostname.endsWith('tile.openstreetmap.org')) {
+    event.respondWith(cacheFirst(request, TILE_CACHE, MAX_TILES));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE));
+  } else if (url.pathname === '/api/recipients' || url.pathname === '/api/session' || url.pathname === '/api/events') {
+    event.respondWith(networkFirst(request, API_CACHE));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, PAGE_CACHE));
+  }
+});
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== SYNC_TAG) return;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window' }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: 'flush-status-queue' }));
+    })
+  );
+});
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withEvent } from '@/lib/currentEvent';
+import { findDataIssues, medianCentre } from '@/lib/dataQuality';
+import { getDepot } from '@/lib/depot';
+import { isCoordinator } from '@/lib/permissions';
+
+// GET /api/data-quality - Rows that need a coordinator's attention (coordinators only)
+// Each item carries a rowLink to edit the row at its source, when the store has one;
+// centre is where to open the map when placing a recipient that has no pin yet;
+// problems describes the sheet layout itself (e.g. a missing column), which is checked first.
+export const GET = withEvent(async (_request: NextRequest, { driver, store }) => {
+  if (!isCoordinator(driver)) {
+    return NextResponse.json(
+      { error: 'Only coordinators can review data quality' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const health = await store.checkHealth();
+    if (!health.ok) {
+      return NextResponse.json({ items: [], total: 0, centre: getDepot(), problems: health.problems });
+    }
+
+    const recipients = await store.listRecipients();
+    const items = findDataIssues(recipients).map((item) => ({
+      ...item,
+      rowLink: store.getRowLink(item.recipient.row),
+    }));
+
+    const centre = getDepot() ?? medianCentre(recipients);
+
+    return NextResponse.json({ items, total: recipients.length, centre, problems: health.problems });
+  } catch (error) {
+    console.error('Error checking data quality:', error);
+    return NextResponse.json(
+      { error: 'Failed to check data quality' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { resolveEvent } from '@/lib/currentEvent';
+import { validateNewEvent } from '@/lib/events';
+import { isCoordinator } from '@/lib/permissions';
+import { getEventRegistry } from '@/lib/recipientStore';
+
+// GET /api/events - Every delivery event, and the one this browser is working on
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const [events, current] = await Promise.all([getEventRegistry().listEvents(), resolveEvent(request)]);
+    return NextResponse.json({ events, current: current?.id ?? null });
+  } catch (error) {
+    console.error('Error listing delivery events:', error);
+    return NextResponse.json(
+      { error: 'Failed to load delivery events' },
+      { status: 500 }
+    );
+  }
+});
+
+// POST /api/events - Start a new event with a copy of another event's roster (coordinators only)
+// Body: { name, date: "YYYY-MM-DD", sourceId, closeSource? }. The copy keeps recipients, locations,
+// assignments and instructions, with every status back to Pending. closeSource makes the source read-only.
+export const POST = withAuth(async (request: NextRequest, { driver }) => {
+  if (!isCoordinator(driver)) {
+    return NextResponse.json(
+      { error: 'Only coordinators can create delivery events' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { name, date, sourceId, closeSource } = body;
+
+    const inputError = validateNewEvent({ name, date });
+    if (inputError) {
+      return NextResponse.json(
+        { error: inputError },
+        { status: 400 }
+      );
+    }
+
+    if (closeSource !== undefined && typeof closeSource !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Invalid closeSource (must be a boolean)' },
+        { status: 400 }
+      );
+    }
+
+    const registry = getEventRegistry();
+    const source = (await registry.listEvents()).find((e) => e.id === sourceId);
+    if (!source) {
+      return NextResponse.json(
+        { error: 'Event to copy not found' },
+        { status: 404 }
+      );
+    }
+
+    const event = await registry.createEvent({ name, date }, source);
+    if (closeSource && !source.closed) {
+      await registry.setEventClosed(source.id, true);
+    }
+
+    return NextResponse.json({ event }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating delivery event:', error);
+    return NextResponse.json(
+      { error: 'Failed to create delivery event' },
+      { status: 500 }
+    );
+  }
+});
+
+// PATCH /api/events - Close an event (read-only, kept for reporting) or reopen it (coordinators only)
+// Body: { id, closed }
+export const PATCH = withAuth(async (request: NextRequest, { driver }) => {
+  if (!isCoordinator(driver)) {
+    return NextResponse.json(
+      { error: 'Only coordinators can close or reopen delivery events' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { id, closed } = body;
+
+    if (!id || typeof id !== 'string' || typeof closed !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Expected { id, closed }' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getEventRegistry().setEventClosed(id, closed))) {
+      return NextResponse.json(
+        { error: 'Delivery event not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, id, closed });
+  } catch (error) {
+    console.error('Error updating delivery event:', error);
+    return NextResponse.json(
+      { error: 'Failed to update delivery event' },
+      { status: 500 }
+    );
+  }
+});
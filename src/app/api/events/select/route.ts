@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { EVENT_COOKIE } from '@/lib/events';
+import { getEventRegistry } from '@/lib/recipientStore';
+
+// Long enough to outlast any event; picking another one replaces it
+const EVENT_COOKIE_MAX_AGE_S = 180 * 24 * 60 * 60;
+
+// POST /api/events/select - Switch this browser to another delivery event
+// Body: { id }. Every later API request works on that event until another is picked.
+export const POST = withAuth(async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    const { id } = body;
+
+    if (!id || typeof id !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing or invalid id (must be a string)' },
+        { status: 400 }
+      );
+    }
+
+    const event = (await getEventRegistry().listEvents()).find((e) => e.id === id);
+    if (!event) {
+      return NextResponse.json(
+        { error: 'Delivery event not found' },
+        { status: 404 }
+      );
+    }
+
+    const response = NextResponse.json({ success: true, event });
+    response.cookies.set(EVENT_COOKIE, event.id, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: EVENT_COOKIE_MAX_AGE_S,
+    });
+    return response;
+  } catch (error) {
+    console.error('Error selecting delivery event:', error);
+    return NextResponse.json(
+      { error: 'Failed to select delivery event' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withEvent } from '@/lib/currentEvent';
+import { getDefaultVehicleCapacity, getDepot } from '@/lib/depot';
+import { getDriverProfiles } from '@/lib/drivers';
+import { isCoordinator } from '@/lib/permissions';
+import { buildManifest, renderManifestHtml } from '@/lib/reports';
+
+// GET /api/export/manifest?driver=Name - A printable run sheet of a driver's outstanding stops
+// in route order, as an HTML page (print it, or save it as PDF from the browser's print dialog).
+// Drivers get their own; coordinators may ask for any driver (defaults to themselves).
+export const GET = withEvent(async (request: NextRequest, { driver: actor, store }) => {
+  const driverName = request.nextUrl.searchParams.get('driver') || actor.name;
+
+  if (driverName !== actor.name && !isCoordinator(actor)) {
+    return NextResponse.json(
+      { error: 'Drivers can only print their own run sheet' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const recipients = await store.listRecipients();
+    const capacity = getDriverProfiles().find((p) => p.name === driverName)?.capacity ?? getDefaultVehicleCapacity();
+    const manifest = buildManifest(driverName, recipients, getDepot(), capacity);
+
+    return new NextResponse(renderManifestHtml(manifest), {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building run sheet:', error);
+    return NextResponse.json(
+      { error: 'Failed to build run sheet' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withEvent } from '@/lib/currentEvent';
+import { isCoordinator } from '@/lib/permissions';
+import { filterRecipients, parseFilterQuery } from '@/lib/recipientSearch';
+import { recipientReportCsv } from '@/lib/reports';
+
+// GET /api/export/recipients?driver=Amal&status=failed&faculty=Arts&hideDelivered=1&q=077
+// Download the recipients matching the map's filters as CSV, with status timestamps from the
+// audit log (coordinators only). See filterToQuery() for the parameters; none means everyone.
+export const GET = withEvent(async (request: NextRequest, { driver, store }) => {
+  if (!isCoordinator(driver)) {
+    return NextResponse.json(
+      { error: 'Only coordinators can export recipients' },
+      { status: 403 }
+    );
+  }
+
+  const filter = parseFilterQuery(request.nextUrl.searchParams);
+  if (!filter) {
+    return NextResponse.json(
+      { error: 'Invalid status filter' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [recipients, changes] = await Promise.all([store.listRecipients(), store.listStatusChanges()]);
+    const csv = recipientReportCsv(filterRecipients(recipients, filter), changes);
+    const date = new Date().toISOString().slice(0, 10);
+
+    // A byte order mark so Excel reads the file as UTF-8
+    return new NextResponse(`\uFEFF${csv}`, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="recipients-${date}.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting recipients:', error);
+    return NextResponse.json(
+      { error: 'Failed to export recipients' },
+      { status: 500 }
+    );
+  }
+});
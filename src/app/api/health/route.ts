@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuth } from '@/lib/auth';
+import { latestEvent } from '@/lib/events';
+import { isCoordinator } from '@/lib/permissions';
+import { getEventRegistry, getRecipientStore, type HealthProblem } from '@/lib/recipientStore';
+import { checkSessionHealth } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/health - Is SESSION_SECRET usable, and the recipient store reachable and laid out as expected?
+// Unauthenticated so uptime monitors can use it. Store errors can name sheet IDs and file paths,
+// so anonymous callers only get each problem's severity and code; coordinators also get the messages,
+// and the server log always has them. Checks the event clients open by default, the latest one.
+export async function GET(request: NextRequest) {
+  let detailed = false;
+  try {
+    const auth = await getAuth(request);
+    detailed = auth !== null && isCoordinator(auth.driver);
+  } catch (error) {
+    // The session can't be checked (e.g. no SESSION_SECRET, reported below): answer as for anyone
+    console.error('Health check: could not read the session:', error);
+  }
+  const report = (problems: HealthProblem[]) =>
+    detailed ? problems : problems.map(({ severity, code }) => ({ severity, code }));
+
+  try {
+    const event = latestEvent(await getEventRegistry().listEvents());
+    const health = await getRecipientStore(event ?? undefined).checkHealth();
+    const problems = [...checkSessionHealth(), ...health.problems];
+    const ok = !problems.some((problem) => problem.severity === 'error');
+    if (!ok) {
+      for (const problem of problems) {
+        console.error(`Health check: ${problem.message}`);
+      }
+    }
+    return NextResponse.json(
+      { status: ok ? 'ok' : 'error', problems: report(problems) },
+      { status: ok ? 200 : 503 }
+    );
+  } catch (error) {
+    console.error('Error checking health:', error);
+    const message = error instanceof Error ? error.message : 'Health check failed';
+    return NextResponse.json(
+      { status: 'error', problems: report([...checkSessionHealth(), { severity: 'error', code: 'store_unreachable', message }]) },
+      { status: 503 }
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withEvent } from '@/lib/currentEvent';
+import { getDepot } from '@/lib/depot';
+import { getDriverNames } from '@/lib/drivers';
+import {
+  buildPreview,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ROWS,
+  suggestMapping,
+  validateMapping,
+  type ColumnMapping,
+} from '@/lib/importer';
+import { isCoordinator } from '@/lib/permissions';
+import { getSchemaConfig } from '@/lib/sheetSchema';
+import { readSpreadsheet } from '@/lib/spreadsheetFile';
+
+// POST /api/import - Preview or run an import of recipients from a CSV or XLSX file (coordinators only)
+// multipart/form-data: file, mode ("append" or "upsert"), mapping? (JSON { field: column index },
+// suggested from the headers when absent), commit? ("true" to write; otherwise only previews).
+// The first row of the file is the header. Rows with errors are never written.
+export const POST = withEvent(async (request: NextRequest, { driver, store }) => {
+  if (!isCoordinator(driver)) {
+    return NextResponse.json(
+      { error: 'Only coordinators can import recipients' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const form = await request.formData();
+    const file = form.get('file');
+    const mode = form.get('mode') ?? 'append';
+    const mappingField = form.get('mapping');
+    const commit = form.get('commit') === 'true';
+
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json(
+        { error: 'Choose a CSV or Excel file' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_IMPORT_BYTES) {
+      return NextResponse.json(
+        { error: `File is too large (at most ${MAX_IMPORT_BYTES / 1024 / 1024} MB)` },
+        { status: 400 }
+      );
+    }
+
+    if (mode !== 'append' && mode !== 'upsert') {
+      return NextResponse.json(
+        { error: 'Invalid mode (expected "append" or "upsert")' },
+        { status: 400 }
+      );
+    }
+
+    let rows: string[][];
+    try {
+      rows = readSpreadsheet(Buffer.from(await file.arrayBuffer()));
+    } catch (error) {
+      return NextResponse.json(
+        { error: `Couldn't read the file: ${error instanceof Error ? error.message : String(error)}` },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length < 2) {
+      return NextResponse.json(
+        { error: 'The file needs a header row and at least one recipient' },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length - 1 > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `Too many rows (at most ${MAX_IMPORT_ROWS} per import)` },
+        { status: 400 }
+      );
+    }
+
+    const [headerRow, ...dataRows] = rows;
+    const columnCount = Math.max(...rows.map((row) => row.length));
+    const headers = Array.from({ length: columnCount }, (_, i) => headerRow[i]?.trim() ?? '');
+
+    let mapping: ColumnMapping;
+    if (typeof mappingField === 'string') {
+      try {
+        mapping = JSON.parse(mappingField);
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid mapping (not JSON)' },
+          { status: 400 }
+        );
+      }
+      const mappingError = validateMapping(mapping, columnCount);
+      if (mappingError) {
+        return NextResponse.json(
+          { error: mappingError },
+          { status: 400 }
+        );
+      }
+    } else {
+      mapping = suggestMapping(headers, getSchemaConfig());
+      if (mapping.id === undefined) {
+        // Nothing to preview until the ID column is chosen
+        return NextResponse.json({ headers, mapping, rows: [] });
+      }
+    }
+
+    const existing = await store.listRecipients();
+    const preview = buildPreview(dataRows, mapping, {
+      mode,
+      existingIds: new Set(existing.map((r) => r.id)),
+      drivers: getDriverNames(),
+      reference: getDepot() ?? undefined,
+    });
+
+    if (!commit) {
+      return NextResponse.json({ headers, mapping, rows: preview });
+    }
+
+    const records = preview.filter((row) => row.action !== 'skip').map((row) => row.record);
+    const result = await store.importRecipients(records, mode);
+
+    return NextResponse.json({ headers, mapping, rows: preview, result });
+  } catch (error) {
+    console.error('Error importing recipients:', error);
+    return NextResponse.json(
+      { error: 'Failed to import recipients' },
+      { status: 500 }
+    );
+  }
+}, { write: true });
@@ -1,29 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { setSessionCookie } from '@/lib/auth';
+import { findDriverByCode, getDriverProfiles } from '@/lib/drivers';
+import { createSessionToken } from '@/lib/session';
 
 // Rate limiting: track failed attempts by IP
 const failedAttempts = new Map<string, { count: number; lastAttempt: number }>();
 const MAX_ATTEMPTS = 5;
 const LOCKOUT_DURATION_MS = 15 * 60 * 1000; // 15 minutes
 
-// Get all valid access codes from environment
-function getValidAccessCodes(): string[] {
-  // Support both ACCESS_CODES (comma-separated list) and legacy ADMIN_ACCESS_CODE
-  const codesList = process.env.ACCESS_CODES;
-  const legacyCode = process.env.ADMIN_ACCESS_CODE;
-
-  const codes: string[] = [];
-
-  if (codesList) {
-    codes.push(...codesList.split(',').map((c) => c.trim()).filter(Boolean));
-  }
-
-  if (legacyCode && !codes.includes(legacyCode)) {
-    codes.push(legacyCode);
-  }
-
-  return codes;
-}
-
 // Check if an IP is rate limited
 function isRateLimited(ip: string): { limited: boolean; retryAfterSeconds?: number } {
   const record = failedAttempts.get(ip);
@@ -61,7 +45,7 @@ function clearFailedAttempts(ip: string): void {
   failedAttempts.delete(ip);
 }
 
-// POST /api/login - Validate admin access code
+// POST /api/login - Validate access code and start a session
 export async function POST(request: NextRequest) {
   // Get client IP for rate limiting
   const forwardedFor = request.headers.get('x-forwarded-for');
@@ -87,9 +71,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const validCodes = getValidAccessCodes();
-
-    if (validCodes.length === 0) {
+    if (getDriverProfiles().length === 0) {
       console.error('No access codes configured (ACCESS_CODES or ADMIN_ACCESS_CODE)');
       return NextResponse.json(
         { error: 'Server configuration error' },
@@ -97,9 +79,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (validCodes.includes(code)) {
+    const driver = findDriverByCode(code);
+
+    if (driver) {
       clearFailedAttempts(ip);
-      return NextResponse.json({ success: true });
+
+      // Issue a signed session cookie; the access code itself never leaves this request
+      const { token } = createSessionToken(driver.name);
+      const response = NextResponse.json({ success: true, driver: { name: driver.name, role: driver.role } });
+      setSessionCookie(response, token);
+      return response;
     } else {
       recordFailedAttempt(ip);
       return NextResponse.json(
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookie, getAuth } from '@/lib/auth';
+import { revokeSession } from '@/lib/session';
+
+// POST /api/logout - Revoke the current session and clear its cookie
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await getAuth(request);
+    if (auth) {
+      await revokeSession(auth.session);
+    }
+  } catch (error) {
+    // The cookie is still cleared, but a copy of the token would keep working
+    console.error('Error revoking session:', error);
+    const response = NextResponse.json(
+      { error: 'Failed to end the session' },
+      { status: 500 }
+    );
+    clearSessionCookie(response);
+    return response;
+  }
+
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
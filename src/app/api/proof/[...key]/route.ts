@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { getBlobStorage, isValidBlobKey } from '@/lib/blobStorage';
+
+// GET /api/proof/:key - A proof-of-delivery photo or signature, for signed-in users
+// Keys never change once written, so the browser may keep them.
+export const GET = withAuth(async (_request, _auth, { params }: { params: Promise<{ key: string[] }> }) => {
+  const key = (await params).key.join('/');
+
+  if (!key.startsWith('proof/') || !isValidBlobKey(key)) {
+    return NextResponse.json(
+      { error: 'Not found' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const blob = await getBlobStorage().get(key);
+    if (!blob) {
+      return NextResponse.json(
+        { error: 'Not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(blob.data), {
+      headers: {
+        'Content-Type': blob.contentType,
+        'Cache-Control': 'private, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Error reading proof of delivery:', error);
+    return NextResponse.json(
+      { error: 'Failed to read proof of delivery' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { withEvent } from '@/lib/currentEvent';
+
+// GET /api/recipients/:id/history - Status transitions for one recipient, oldest first
+export const GET = withEvent(async (_request, { store }, { params }: { params: Promise<{ id: string }> }) => {
+  const { id } = await params;
+
+  try {
+    const history = await store.getStatusHistory(id);
+    return NextResponse.json({ id, history });
+  } catch (error) {
+    console.error('Error fetching status history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch status history' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withEvent } from '@/lib/currentEvent';
+import { addFieldNote } from '@/lib/deliveries';
+import { cleanNoteText, MAX_NOTE_LENGTH } from '@/lib/fieldNotes';
+import { canAddNote } from '@/lib/permissions';
+
+// POST /api/recipients/:id/notes - Add a timestamped field note
+// Body: { text }. Appended after existing notes; the coordinator's instructions are never touched.
+export const POST = withEvent(async (request: NextRequest, { driver, store }, { params }: { params: Promise<{ id: string }> }) => {
+  const { id } = await params;
+
+  try {
+    const body = await request.json();
+    const text = typeof body.text === 'string' ? cleanNoteText(body.text) : '';
+
+    if (!text) {
+      return NextResponse.json(
+        { error: 'Missing note text' },
+        { status: 400 }
+      );
+    }
+
+    if (text.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `Note is too long (at most ${MAX_NOTE_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    const recipient = await store.getRecipient(id);
+
+    if (!recipient) {
+      return NextResponse.json(
+        { error: 'Recipient not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canAddNote(driver, recipient)) {
+      return NextResponse.json(
+        { error: 'Only the assigned driver or a coordinator can add notes' },
+        { status: 403 }
+      );
+    }
+
+    const note = await addFieldNote(store, recipient, text, driver);
+    if (!note) {
+      return NextResponse.json(
+        { error: 'Failed to add note. Recipient not found.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, id, note });
+  } catch (error) {
+    console.error('Error adding field note:', error);
+    return NextResponse.json(
+      { error: 'Failed to add note' },
+      { status: 500 }
+    );
+  }
+}, { write: true });
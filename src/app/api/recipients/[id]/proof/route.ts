@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBlobStorage } from '@/lib/blobStorage';
+import { withEvent } from '@/lib/currentEvent';
+import { changeStatus, describeConflict, parseDevicePosition, recordProof } from '@/lib/deliveries';
+import { canChangeStatus } from '@/lib/permissions';
+import {
+  confirmationCodeMatches,
+  MAX_PHOTO_BYTES,
+  MAX_SIGNATURE_BYTES,
+  PHOTO_TYPES,
+  proofBlobKey,
+  type DeliveryProof,
+} from '@/lib/proof';
+import { isAllowedTransition, isDeliveryStatus } from '@/lib/status';
+
+// Wrong confirmation codes per recipient, so a code can't be guessed by trying them all
+const failedCodes = new Map<string, { count: number; lastAttempt: number }>();
+const MAX_CODE_ATTEMPTS = 5;
+const CODE_LOCKOUT_MS = 15 * 60 * 1000; // 15 minutes
+
+function isCodeLocked(id: string): boolean {
+  const record = failedCodes.get(id);
+  if (!record) return false;
+  if (Date.now() - record.lastAttempt > CODE_LOCKOUT_MS) {
+    failedCodes.delete(id);
+    return false;
+  }
+  return record.count >= MAX_CODE_ATTEMPTS;
+}
+
+function recordFailedCode(id: string): void {
+  const record = failedCodes.get(id);
+  failedCodes.set(id, { count: (record?.count ?? 0) + 1, lastAttempt: Date.now() });
+}
+
+// POST /api/recipients/:id/proof - Mark a recipient Delivered with proof
+// multipart/form-data: photo? (image file), signature? (PNG), code? (confirmation code the
+// recipient read out), expectedStatus?, position? (JSON { lat, lng, accuracy? }). At least one
+// of photo, signature or code is required.
+export const POST = withEvent(async (request: NextRequest, { driver, store }, { params }: { params: Promise<{ id: string }> }) => {
+  const { id } = await params;
+
+  try {
+    const form = await request.formData();
+    const photo = form.get('photo');
+    const signature = form.get('signature');
+    const code = form.get('code');
+    const expectedStatus = form.get('expectedStatus') ?? undefined;
+
+    const photoFile = photo instanceof File && photo.size > 0 ? photo : null;
+    const signatureFile = signature instanceof File && signature.size > 0 ? signature : null;
+    const codeText = typeof code === 'string' ? code.trim() : '';
+
+    if (!photoFile && !signatureFile && !codeText) {
+      return NextResponse.json(
+        { error: 'Add a photo, a signature or the confirmation code' },
+        { status: 400 }
+      );
+    }
+
+    if (photoFile && (!PHOTO_TYPES.has(photoFile.type) || photoFile.size > MAX_PHOTO_BYTES)) {
+      return NextResponse.json(
+        { error: `Photo must be a JPEG, PNG, WebP or HEIC image of at most ${MAX_PHOTO_BYTES / 1024 / 1024} MB` },
+        { status: 400 }
+      );
+    }
+
+    if (signatureFile && (signatureFile.type !== 'image/png' || signatureFile.size > MAX_SIGNATURE_BYTES)) {
+      return NextResponse.json(
+        { error: `Signature must be a PNG of at most ${MAX_SIGNATURE_BYTES / 1024 / 1024} MB` },
+        { status: 400 }
+      );
+    }
+
+    if (expectedStatus !== undefined && !isDeliveryStatus(expectedStatus)) {
+      return NextResponse.json(
+        { error: 'Invalid expectedStatus' },
+        { status: 400 }
+      );
+    }
+
+    let position = null;
+    const positionField = form.get('position');
+    if (typeof positionField === 'string' && positionField) {
+      try {
+        position = parseDevicePosition(JSON.parse(positionField));
+      } catch {
+        // A malformed position is dropped, same as in JSON bodies
+      }
+    }
+
+    const recipient = await store.getRecipient(id);
+
+    if (!recipient) {
+      return NextResponse.json(
+        { error: 'Recipient not found' },
+        { status: 404 }
+      );
+    }
+
+    if (expectedStatus !== undefined && recipient.status !== expectedStatus) {
+      return NextResponse.json(
+        {
+          error: 'Recipient was updated by someone else',
+          conflict: await describeConflict(store, id, expectedStatus, recipient.status),
+        },
+        { status: 409 }
+      );
+    }
+
+    // Proof is captured at the door, so it comes with the change to Delivered
+    if (!isAllowedTransition(recipient.status, 'Delivered')) {
+      return NextResponse.json(
+        { error: `Can't change status from ${recipient.status} to Delivered` },
+        { status: 422 }
+      );
+    }
+
+    if (!canChangeStatus(driver, recipient, 'Delivered')) {
+      return NextResponse.json(
+        { error: `Not allowed to change this recipient from ${recipient.status} to Delivered` },
+        { status: 403 }
+      );
+    }
+
+    if (codeText) {
+      if (isCodeLocked(id)) {
+        return NextResponse.json(
+          { error: 'Too many wrong codes for this recipient. Use a photo or signature instead.' },
+          { status: 429 }
+        );
+      }
+
+      const expectedCode = await store.getConfirmationCode(id);
+      if (!expectedCode) {
+        return NextResponse.json(
+          { error: 'This recipient has no confirmation code' },
+          { status: 400 }
+        );
+      }
+      if (!confirmationCodeMatches(expectedCode, codeText)) {
+        recordFailedCode(id);
+        return NextResponse.json(
+          { error: "Confirmation code doesn't match" },
+          { status: 400 }
+        );
+      }
+      failedCodes.delete(id);
+    }
+
+    // Refuse before anything is written, rather than marking Delivered and then losing the proof
+    if (!(await store.canSaveProof())) {
+      return NextResponse.json(
+        { error: "Proof of delivery can't be saved: the sheet has no Proof of Delivery column. Ask a coordinator to add it." },
+        { status: 503 }
+      );
+    }
+
+    // Store the files before touching the recipient, so a failed upload changes nothing
+    const blobs = getBlobStorage();
+    const proof: DeliveryProof = { codeConfirmed: Boolean(codeText), by: driver.name, at: new Date().toISOString() };
+
+    if (photoFile) {
+      proof.photo = proofBlobKey(id, 'photo', PHOTO_TYPES.get(photoFile.type)!);
+      await blobs.put(proof.photo, Buffer.from(await photoFile.arrayBuffer()), photoFile.type);
+    }
+    if (signatureFile) {
+      proof.signature = proofBlobKey(id, 'signature', 'png');
+      await blobs.put(proof.signature, Buffer.from(await signatureFile.arrayBuffer()), 'image/png');
+    }
+
+    const result = await changeStatus(store, recipient, 'Delivered', driver, position, expectedStatus);
+
+    if (!result.ok && result.reason === 'conflict') {
+      return NextResponse.json(
+        {
+          error: 'Recipient was updated by someone else',
+          conflict: await describeConflict(store, id, expectedStatus ?? recipient.status, result.currentStatus),
+        },
+        { status: 409 }
+      );
+    }
+
+    if (!result.ok || !(await recordProof(store, recipient, proof, driver))) {
+      return NextResponse.json(
+        { error: 'Failed to update recipient. Recipient not found.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, id, status: 'Delivered', attempts: result.attempts, proof });
+  } catch (error) {
+    console.error('Error recording proof of delivery:', error);
+    return NextResponse.json(
+      { error: 'Failed to record proof of delivery' },
+      { status: 500 }
+    );
+  }
+}, { write: true });
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withEvent } from '@/lib/currentEvent';
+import { changeStatuses, parseDevicePosition, type BulkStatusChange, type StatusConflict } from '@/lib/deliveries';
+import { canChangeStatus } from '@/lib/permissions';
+import { isAllowedTransition, isDeliveryStatus, validateStatusReason, type DeliveryStatus } from '@/lib/status';
+
+const MAX_BULK_UPDATES = 500;
+
+// Outcome of one item, in the same order as the request
+type BulkItemResult =
+  | { id: string; ok: true; previousStatus: DeliveryStatus }
+  | { id: string; ok: false; error: 'not_found' | 'invalid_transition' | 'forbidden'; message: string }
+  | { id: string; ok: false; error: 'conflict'; message: string; conflict: StatusConflict };
+
+// POST /api/recipients/bulk - Change many statuses at once
+// Body: { updates: [{ id, status, reason?, expectedStatus? }], position?: { lat, lng, accuracy? } }
+// Always 200 once the body is valid; each item reports its own success, 404, 422, 403 or 409-style conflict.
+export const POST = withEvent(async (request: NextRequest, { driver, store }) => {
+  try {
+    const body = await request.json();
+    const { updates, position } = body;
+
+    if (!Array.isArray(updates) || updates.length === 0) {
+      return NextResponse.json(
+        { error: 'Missing or empty updates array' },
+        { status: 400 }
+      );
+    }
+
+    if (updates.length > MAX_BULK_UPDATES) {
+      return NextResponse.json(
+        { error: `Too many updates (at most ${MAX_BULK_UPDATES} per request)` },
+        { status: 400 }
+      );
+    }
+
+    // Validate every item before writing anything
+    const seenIds = new Set<string>();
+    for (const [index, update] of updates.entries()) {
+      const { id, status, reason, expectedStatus } = (update ?? {}) as Record<string, unknown>;
+      if (!id || typeof id !== 'string' || !isDeliveryStatus(status) ||
+        (expectedStatus !== undefined && !isDeliveryStatus(expectedStatus))) {
+        return NextResponse.json(
+          { error: `Invalid update at index ${index} (expected { id, status, reason?, expectedStatus? })` },
+          { status: 400 }
+        );
+      }
+
+      const reasonError = validateStatusReason(status, reason);
+      if (reasonError) {
+        return NextResponse.json(
+          { error: `Invalid update at index ${index}: ${reasonError}` },
+          { status: 400 }
+        );
+      }
+
+      // Every item is checked against the status before the batch, so a second change to the
+      // same recipient could make a transition the table doesn't allow
+      if (seenIds.has(id)) {
+        return NextResponse.json(
+          { error: `Duplicate id at index ${index}: ${id} (one update per recipient)` },
+          { status: 400 }
+        );
+      }
+      seenIds.add(id);
+    }
+
+    const recipients = new Map((await store.listRecipients()).map((r) => [r.id, r]));
+
+    const results: (BulkItemResult | null)[] = [];
+    const changes: BulkStatusChange[] = [];
+
+    type BulkUpdate = { id: string; status: DeliveryStatus; reason?: string; expectedStatus?: DeliveryStatus };
+    for (const { id, status, reason, expectedStatus } of updates as BulkUpdate[]) {
+      const recipient = recipients.get(id);
+
+      if (!recipient) {
+        results.push({ id, ok: false, error: 'not_found', message: 'Recipient not found' });
+        continue;
+      }
+
+      if (expectedStatus !== undefined && recipient.status !== expectedStatus) {
+        results.push({
+          id,
+          ok: false,
+          error: 'conflict',
+          message: 'Recipient was updated by someone else',
+          conflict: { id, expectedStatus, currentStatus: recipient.status, changedBy: null },
+        });
+        continue;
+      }
+
+      // Same rules as a single update, checked item by item
+      const statusChanging = status !== recipient.status || isAllowedTransition(status, status);
+
+      if (statusChanging && !isAllowedTransition(recipient.status, status)) {
+        results.push({
+          id,
+          ok: false,
+          error: 'invalid_transition',
+          message: `Can't change status from ${recipient.status} to ${status}`,
+        });
+        continue;
+      }
+
+      if (statusChanging && !canChangeStatus(driver, recipient, status)) {
+        results.push({
+          id,
+          ok: false,
+          error: 'forbidden',
+          message: `Not allowed to change this recipient from ${recipient.status} to ${status}`,
+        });
+        continue;
+      }
+
+      results.push(null);
+      changes.push({ recipient, status, expectedStatus, reason: reason?.trim() });
+    }
+
+    const written = await changeStatuses(store, changes, driver, parseDevicePosition(position));
+
+    let next = 0;
+    const response = results.map((result, i): BulkItemResult => {
+      if (result) return result;
+
+      const { id, expectedStatus } = updates[i];
+      const outcome = written[next++];
+      if (outcome.ok) return { id, ok: true, previousStatus: outcome.previousStatus };
+      if (outcome.reason === 'conflict') {
+        return {
+          id,
+          ok: false,
+          error: 'conflict',
+          message: 'Recipient was updated by someone else',
+          // The store only reports conflicts for writes that carried an expectedStatus
+          conflict: { id, expectedStatus: expectedStatus!, currentStatus: outcome.currentStatus, changedBy: null },
+        };
+      }
+      return { id, ok: false, error: 'not_found', message: 'Recipient not found' };
+    });
+
+    return NextResponse.json({
+      results: response,
+      updated: response.filter((r) => r.ok).length,
+      failed: response.filter((r) => !r.ok).length,
+    });
+  } catch (error) {
+    console.error('Error updating recipients in bulk:', error);
+    return NextResponse.json(
+      { error: 'Failed to update recipients' },
+      { status: 500 }
+    );
+  }
+}, { write: true });
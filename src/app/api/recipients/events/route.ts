@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { withEvent } from '@/lib/currentEvent';
+import { subscribe } from '@/lib/liveUpdates';
+
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// GET /api/recipients/events - Server-Sent Events stream of recipient changes in the current event
+export const GET = withEvent(async (request: NextRequest, { event: deliveryEvent }) => {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribe(deliveryEvent.id, (event) => {
+        send(`event: recipient-updated\ndata: ${JSON.stringify(event)}\n\n`);
+      });
+
+      // Comment lines keep proxies from closing an idle connection
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send('retry: 5000\n\n');
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+});
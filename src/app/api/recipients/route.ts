@@ -1,51 +1,30 @@
+import { createHash } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
-import { getRecipients, updateDeliveryStatus } from '@/lib/googleSheets';
-
-// Get all valid access codes from environment
-function getValidAccessCodes(): string[] {
-  // Support both ACCESS_CODES (comma-separated list) and legacy ADMIN_ACCESS_CODE
-  const codesList = process.env.ACCESS_CODES;
-  const legacyCode = process.env.ADMIN_ACCESS_CODE;
-
-  const codes: string[] = [];
-
-  if (codesList) {
-    codes.push(...codesList.split(',').map((c) => c.trim()).filter(Boolean));
-  }
-
-  if (legacyCode && !codes.includes(legacyCode)) {
-    codes.push(legacyCode);
-  }
-
-  return codes;
-}
-
-// Verify the admin access code
-function verifyAuth(request: NextRequest): boolean {
-  const authHeader = request.headers.get('Authorization');
-  const validCodes = getValidAccessCodes();
-
-  if (!authHeader || validCodes.length === 0) {
-    return false;
-  }
-
-  // Expected format: "Bearer <code>"
-  const token = authHeader.replace('Bearer ', '');
-  return validCodes.includes(token);
-}
+import { withEvent } from '@/lib/currentEvent';
+import { assignRecipient, changeStatus, describeConflict, parseDevicePosition, relocateRecipient } from '@/lib/deliveries';
+import { getDriverNames } from '@/lib/drivers';
+import { canAssign, canChangeStatus, isCoordinator } from '@/lib/permissions';
+import { DELIVERY_STATUSES, isAllowedTransition, isDeliveryStatus, validateStatusReason } from '@/lib/status';
 
 // GET /api/recipients - Fetch all recipients
-export async function GET(request: NextRequest) {
-  if (!verifyAuth(request)) {
-    return NextResponse.json(
-      { error: 'Unauthorized' },
-      { status: 401 }
-    );
-  }
-
+// Sends an ETag so polling clients can revalidate with If-None-Match and get a 304
+export const GET = withEvent(async (request: NextRequest, { store }) => {
   try {
-    const recipients = await getRecipients();
-    return NextResponse.json({ recipients });
+    const recipients = await store.listRecipients();
+    const body = JSON.stringify({ recipients, drivers: getDriverNames() });
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+
+    if (request.headers.get('If-None-Match') === etag) {
+      return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    }
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'private, no-cache',
+        ETag: etag,
+      },
+    });
   } catch (error) {
     console.error('Error fetching recipients:', error);
     return NextResponse.json(
@@ -53,20 +32,16 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
-
-// PATCH /api/recipients - Update delivery status
-export async function PATCH(request: NextRequest) {
-  if (!verifyAuth(request)) {
-    return NextResponse.json(
-      { error: 'Unauthorized' },
-      { status: 401 }
-    );
-  }
+});
 
+// PATCH /api/recipients - Update delivery status, assigned driver and/or map pin
+// Body: { id, status?, reason?, expectedStatus?, assignedDriver?, coordinates?: { lat, lng }, position?: { lat, lng, accuracy? } }
+// expectedStatus is the status the client last saw; if it no longer matches, responds 409 Conflict.
+// Failed attempts (Not home, Wrong address, Refused, Rescheduled) need a reason.
+export const PATCH = withEvent(async (request: NextRequest, { driver, store }) => {
   try {
     const body = await request.json();
-    const { id, status } = body;
+    const { id, status, reason, expectedStatus, assignedDriver, coordinates, position } = body;
 
     // Validate id: must be a non-empty string
     if (!id || typeof id !== 'string') {
@@ -76,37 +51,167 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    // Validate status: must be a string and one of the valid statuses
-    if (!status || typeof status !== 'string') {
+    if (status === undefined && assignedDriver === undefined && coordinates === undefined) {
       return NextResponse.json(
-        { error: 'Missing or invalid status' },
+        { error: 'Nothing to update (expected status, assignedDriver or coordinates)' },
         { status: 400 }
       );
     }
 
-    const validStatuses = ['Pending', 'On the way', 'Delivered'] as const;
-    if (!validStatuses.includes(status as typeof validStatuses[number])) {
+    // Validate status: must be a string and one of the valid statuses
+    if (status !== undefined) {
+      if (!status || typeof status !== 'string') {
+        return NextResponse.json(
+          { error: 'Missing or invalid status' },
+          { status: 400 }
+        );
+      }
+
+      if (!isDeliveryStatus(status)) {
+        return NextResponse.json(
+          { error: `Invalid status. Must be one of: ${DELIVERY_STATUSES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+
+      const reasonError = validateStatusReason(status, reason);
+      if (reasonError) {
+        return NextResponse.json(
+          { error: reasonError },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (expectedStatus !== undefined && !isDeliveryStatus(expectedStatus)) {
       return NextResponse.json(
-        { error: 'Invalid status. Must be: Pending, On the way, or Delivered' },
+        { error: 'Invalid expectedStatus' },
         { status: 400 }
       );
     }
 
-    const success = await updateDeliveryStatus(id, status as 'Pending' | 'On the way' | 'Delivered');
+    // Validate assignedDriver: empty string unassigns, otherwise must be a known driver
+    if (assignedDriver !== undefined) {
+      if (typeof assignedDriver !== 'string') {
+        return NextResponse.json(
+          { error: 'Invalid assignedDriver (must be a string)' },
+          { status: 400 }
+        );
+      }
+
+      if (assignedDriver && !getDriverNames().includes(assignedDriver)) {
+        return NextResponse.json(
+          { error: `Unknown driver: ${assignedDriver}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate coordinates: a real point on the map
+    if (coordinates !== undefined) {
+      const { lat, lng } = (coordinates ?? {}) as Record<string, unknown>;
+      if (typeof lat !== 'number' || typeof lng !== 'number' || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        return NextResponse.json(
+          { error: 'Invalid coordinates (expected { lat, lng } in range)' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const recipient = await store.getRecipient(id);
+
+    if (!recipient) {
+      return NextResponse.json(
+        { error: 'Recipient not found' },
+        { status: 404 }
+      );
+    }
+
+    // Stale client: report who got there first before judging permissions on a status it never saw
+    if (expectedStatus !== undefined && recipient.status !== expectedStatus) {
+      return NextResponse.json(
+        {
+          error: 'Recipient was updated by someone else',
+          conflict: await describeConflict(store, id, expectedStatus, recipient.status),
+        },
+        { status: 409 }
+      );
+    }
+
+    // Re-sending the current status is a no-op, except for ones that can be recorded again (another Not home visit)
+    const statusChanging = status !== undefined && (status !== recipient.status || isAllowedTransition(status, status));
+
+    if (statusChanging && !isAllowedTransition(recipient.status, status)) {
+      return NextResponse.json(
+        { error: `Can't change status from ${recipient.status} to ${status}` },
+        { status: 422 }
+      );
+    }
+
+    // Enforce role permissions server-side; the UI only hides what it can't do
+    if (statusChanging && !canChangeStatus(driver, recipient, status)) {
+      return NextResponse.json(
+        { error: `Not allowed to change this recipient from ${recipient.status} to ${status}` },
+        { status: 403 }
+      );
+    }
+
+    if (assignedDriver !== undefined && !canAssign(driver)) {
+      return NextResponse.json(
+        { error: 'Only coordinators can assign recipients' },
+        { status: 403 }
+      );
+    }
+
+    if (coordinates !== undefined && !isCoordinator(driver)) {
+      return NextResponse.json(
+        { error: 'Only coordinators can move recipients' },
+        { status: 403 }
+      );
+    }
+
+    let success = true;
+
+    if (status !== undefined) {
+      const result = await changeStatus(
+        store, recipient, status, driver, parseDevicePosition(position), expectedStatus, reason?.trim()
+      );
+
+      // Lost a race between our read and the store's compare-and-set
+      if (!result.ok && result.reason === 'conflict') {
+        return NextResponse.json(
+          {
+            error: 'Recipient was updated by someone else',
+            conflict: await describeConflict(store, id, expectedStatus ?? recipient.status, result.currentStatus),
+          },
+          { status: 409 }
+        );
+      }
+
+      success = result.ok;
+    }
+
+    if (success && assignedDriver !== undefined) {
+      success = await assignRecipient(store, recipient, assignedDriver, driver);
+    }
+
+    if (success && coordinates !== undefined) {
+      success = await relocateRecipient(store, recipient, { lat: coordinates.lat, lng: coordinates.lng }, driver);
+    }
 
     if (success) {
-      return NextResponse.json({ success: true, id, status });
+      return NextResponse.json({ success: true, id, status, assignedDriver, coordinates });
     } else {
       return NextResponse.json(
-        { error: 'Failed to update status. Recipient not found.' },
+        { error: 'Failed to update recipient. Recipient not found.' },
         { status: 404 }
       );
     }
   } catch (error) {
-    console.error('Error updating status:', error);
+    console.error('Error updating recipient:', error);
     return NextResponse.json(
-      { error: 'Failed to update status' },
+      { error: 'Failed to update recipient' },
       { status: 500 }
     );
   }
-}
+}, { write: true });
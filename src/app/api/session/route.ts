@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+
+// GET /api/session - Describe the signed-in driver
+export const GET = withAuth(async (_request, { session, driver }) => {
+  return NextResponse.json({
+    driver: { name: driver.name, role: driver.role },
+    expiresAt: new Date(session.exp).toISOString(),
+  });
+});
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { getDriverNames } from '@/lib/drivers';
+import { isCoordinator } from '@/lib/permissions';
+import { revokeDriverSessions } from '@/lib/session';
+
+// POST /api/sessions/revoke - Sign out every device of one driver (e.g. a lost phone)
+export const POST = withAuth(async (request: NextRequest, { driver: actor }) => {
+  if (!isCoordinator(actor)) {
+    return NextResponse.json(
+      { error: 'Only coordinators can revoke sessions' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { driver } = body;
+
+    if (!driver || typeof driver !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing or invalid driver' },
+        { status: 400 }
+      );
+    }
+
+    if (!getDriverNames().includes(driver)) {
+      return NextResponse.json(
+        { error: `Unknown driver: ${driver}` },
+        { status: 404 }
+      );
+    }
+
+    await revokeDriverSessions(driver);
+    return NextResponse.json({ success: true, driver });
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke sessions' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withEvent } from '@/lib/currentEvent';
+import { computeDeliveryStats } from '@/lib/deliveryStats';
+import { isCoordinator } from '@/lib/permissions';
+
+// Time zones run from UTC-12 to UTC+14
+const MAX_UTC_OFFSET_MINUTES = 14 * 60;
+
+// GET /api/stats?utcOffset=330 - Progress for the coordinator dashboard (coordinators only)
+// utcOffset is the viewer's offset from UTC in minutes, so the hourly chart lines up with their clock.
+export const GET = withEvent(async (request: NextRequest, { driver, store }) => {
+  if (!isCoordinator(driver)) {
+    return NextResponse.json(
+      { error: 'Only coordinators can view delivery statistics' },
+      { status: 403 }
+    );
+  }
+
+  const offsetParam = request.nextUrl.searchParams.get('utcOffset');
+  const utcOffsetMinutes = offsetParam === null ? 0 : Number(offsetParam);
+  if (!Number.isInteger(utcOffsetMinutes) || Math.abs(utcOffsetMinutes) > MAX_UTC_OFFSET_MINUTES) {
+    return NextResponse.json(
+      { error: 'Invalid utcOffset (minutes from UTC)' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [recipients, changes] = await Promise.all([store.listRecipients(), store.listStatusChanges()]);
+    return NextResponse.json(computeDeliveryStats(recipients, changes, { utcOffsetMinutes }));
+  } catch (error) {
+    console.error('Error computing delivery stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute delivery statistics' },
+      { status: 500 }
+    );
+  }
+});
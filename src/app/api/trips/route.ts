@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withEvent } from '@/lib/currentEvent';
+import { getDepot } from '@/lib/depot';
+import { getDriverProfiles } from '@/lib/drivers';
+import { isCoordinator } from '@/lib/permissions';
+import { isOutstanding } from '@/lib/status';
+import { planTrips } from '@/lib/tripPlanner';
+
+// GET /api/trips?driver=Name - Split a driver's outstanding recipients into depot round trips
+// Drivers get their own trips; coordinators may ask for any driver (defaults to themselves).
+export const GET = withEvent(async (request: NextRequest, { driver: actor, store }) => {
+  const depot = getDepot();
+  if (!depot) {
+    return NextResponse.json(
+      { error: 'Depot is not configured (DEPOT_LAT / DEPOT_LNG)' },
+      { status: 501 }
+    );
+  }
+
+  const driverName = request.nextUrl.searchParams.get('driver') || actor.name;
+
+  if (driverName !== actor.name && !isCoordinator(actor)) {
+    return NextResponse.json(
+      { error: 'Drivers can only plan their own trips' },
+      { status: 403 }
+    );
+  }
+
+  const driver = getDriverProfiles().find((p) => p.name === driverName);
+  if (!driver) {
+    return NextResponse.json(
+      { error: `Unknown driver: ${driverName}` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const recipients = await store.listRecipients();
+    const outstanding = recipients.filter(
+      (r) => r.assignedDriver === driver.name && isOutstanding(r.status)
+    );
+
+    const plan = planTrips(depot, outstanding, driver.capacity);
+    return NextResponse.json({ depot, driver: driver.name, capacity: driver.capacity, ...plan });
+  } catch (error) {
+    console.error('Error planning trips:', error);
+    return NextResponse.json(
+      { error: 'Failed to plan trips' },
+      { status: 500 }
+    );
+  }
+});
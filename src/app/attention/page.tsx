@@ -0,0 +1,291 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import type { FlaggedRecipient, DataIssueType } from '@/lib/dataQuality';
+import type { HealthProblem } from '@/lib/recipientStore';
+import { DELIVERY_STATUSES, isFailedStatus, type DeliveryStatus } from '@/lib/status';
+import type { LatLng } from '@/lib/routing';
+
+// Dynamic import to avoid SSR issues with Leaflet
+const LocationPicker = dynamic(() => import('@/components/LocationPicker'), {
+  ssr: false,
+  loading: () => (
+    <div className="h-full w-full flex items-center justify-center bg-zinc-800">
+      <div className="text-white">Loading map...</div>
+    </div>
+  ),
+});
+
+// Response of GET /api/data-quality
+interface DataQualityItem extends FlaggedRecipient {
+  rowLink: string | null;
+}
+
+// Failed attempts need a reason from whoever was at the door, so they aren't offered here
+const statuses = DELIVERY_STATUSES.filter((status) => !isFailedStatus(status));
+
+const issueLabels: Record<DataIssueType, string> = {
+  unlocated: 'No location',
+  outlier: 'Far away',
+  duplicate_id: 'Duplicate ID',
+  duplicate_phone: 'Duplicate phone',
+  invalid_status: 'Unknown status',
+  invalid_parcels: 'Bad parcel count',
+  invalid_coordinates: 'Bad coordinates',
+};
+
+const issueColors: Record<DataIssueType, string> = {
+  unlocated: 'bg-red-600',
+  outlier: 'bg-orange-600',
+  duplicate_id: 'bg-red-600',
+  duplicate_phone: 'bg-amber-600',
+  invalid_status: 'bg-amber-600',
+  invalid_parcels: 'bg-amber-600',
+  invalid_coordinates: 'bg-amber-600',
+};
+
+// Coordinator-only list of rows that are missing from the map or look wrong, with ways to fix them
+export default function NeedsAttentionPage() {
+  const router = useRouter();
+  const [items, setItems] = useState<DataQualityItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [centre, setCentre] = useState<LatLng | null>(null);
+  const [problems, setProblems] = useState<HealthProblem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  // Row being placed on the mini-map, and where its pin currently is
+  const [placingRow, setPlacingRow] = useState<number | null>(null);
+  const [pin, setPin] = useState<LatLng | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchIssues = useCallback(async () => {
+    try {
+      const response = await fetch('/api/data-quality');
+      if (response.status === 401) {
+        router.push('/');
+        return;
+      }
+      if (response.status === 403) {
+        router.push('/map');
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to check data quality');
+        return;
+      }
+      setItems(data.items);
+      setTotal(data.total);
+      setCentre(data.centre);
+      setProblems(data.problems ?? []);
+      setError('');
+    } catch {
+      setError('Failed to check data quality');
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchIssues();
+  }, [fetchIssues]);
+
+  const updateRecipient = async (id: string, changes: { coordinates?: LatLng; status?: DeliveryStatus }) => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/recipients', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id, ...changes }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Failed to update recipient');
+        return;
+      }
+      setPlacingRow(null);
+      setPin(null);
+      await fetchIssues();
+    } catch {
+      setError('Failed to update recipient');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startPlacing = (item: DataQualityItem) => {
+    setPlacingRow(item.recipient.row);
+    setPin(item.recipient.coordinates);
+  };
+
+  if (loading) {
+    return (
+      <div className="h-screen w-screen flex items-center justify-center bg-zinc-900">
+        <div className="text-white text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-900 text-white">
+      {/* Header */}
+      <header className="bg-zinc-900 border-b border-zinc-800 px-4 py-3 flex items-center justify-between">
+        <h1 className="text-lg font-bold">Needs attention</h1>
+        <Link href="/map" className="text-sm text-zinc-400 hover:text-white transition-colors">
+          ← Back to map
+        </Link>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-4 flex flex-col gap-3">
+        <p className="text-sm text-zinc-400">
+          {items.length} of {total} rows need a look. Rows without a location don&apos;t appear on the map.
+        </p>
+
+        {/* Problems with the sheet's layout, e.g. a missing or renamed column */}
+        {problems.map((problem) => (
+          <div
+            key={problem.message}
+            className={`px-3 py-2 rounded text-sm border ${
+              problem.severity === 'error'
+                ? 'bg-red-900/50 border-red-700 text-red-200'
+                : 'bg-amber-900/40 border-amber-700 text-amber-200'
+            }`}
+          >
+            {problem.message}
+          </div>
+        ))}
+
+        {error && (
+          <div className="bg-red-900/50 border border-red-700 text-red-200 px-3 py-2 rounded text-sm">
+            {error}
+          </div>
+        )}
+
+        {items.length === 0 && !error && !problems.some((p) => p.severity === 'error') && (
+          <div className="text-zinc-300">Everything looks good.</div>
+        )}
+
+        {items.map((item) => {
+          const { recipient, issues, rowLink } = item;
+          const types = new Set(issues.map((i) => i.type));
+          // Updates go by ID, which would hit the wrong row while the ID is duplicated
+          const duplicated = types.has('duplicate_id');
+          const placing = placingRow === recipient.row;
+
+          return (
+            <div key={recipient.row} className="bg-zinc-800 rounded-lg p-3 flex flex-col gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold">{recipient.id}</span>
+                <span className="text-xs text-zinc-400">Row {recipient.row}</span>
+                {recipient.faculty && <span className="text-xs text-zinc-400">· {recipient.faculty}</span>}
+                {[...types].map((type) => (
+                  <span key={type} className={`text-xs px-2 py-0.5 rounded ${issueColors[type]}`}>
+                    {issueLabels[type]}
+                  </span>
+                ))}
+              </div>
+
+              <ul className="text-sm text-zinc-300 list-disc pl-5">
+                {issues.map((issue, index) => (
+                  <li key={index}>{issue.message}</li>
+                ))}
+              </ul>
+
+              {(recipient.googleMapLink || recipient.address) && (
+                <div className="text-xs text-zinc-400 break-all">
+                  {recipient.googleMapLink && <div>Link: {recipient.googleMapLink}</div>}
+                  {recipient.address && <div>Address: {recipient.address}</div>}
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                {rowLink && (
+                  <a href={rowLink} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">
+                    Edit row in sheet
+                  </a>
+                )}
+                {/^https?:\/\//.test(recipient.googleMapLink) && (
+                  <a
+                    href={recipient.googleMapLink}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-400 hover:underline"
+                  >
+                    Open map link
+                  </a>
+                )}
+                {!duplicated && (types.has('unlocated') || types.has('outlier') || types.has('invalid_coordinates')) && !placing && (
+                  <button onClick={() => startPlacing(item)} className="text-blue-400 hover:underline">
+                    📍 Set location
+                  </button>
+                )}
+                {!duplicated && types.has('invalid_status') && (
+                  <label className="flex items-center gap-2">
+                    <span className="text-zinc-400">Set status:</span>
+                    <select
+                      defaultValue=""
+                      disabled={saving}
+                      onChange={(e) => e.target.value && updateRecipient(recipient.id, { status: e.target.value as DeliveryStatus })}
+                      className="bg-zinc-700 border border-zinc-600 rounded px-2 py-1 text-white text-sm"
+                    >
+                      <option value="" disabled>Choose…</option>
+                      {statuses.map((status) => (
+                        <option key={status} value={status}>{status}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                {duplicated && (
+                  <span className="text-zinc-400">Give this row a unique ID in the sheet before fixing anything else.</span>
+                )}
+              </div>
+
+              {placing && (
+                <div className="flex flex-col gap-2">
+                  <p className="text-xs text-zinc-400">Click the map or drag the pin to where this recipient is.</p>
+                  <div className="h-72 rounded overflow-hidden">
+                    <LocationPicker
+                      value={pin}
+                      center={pin ?? centre ?? { lat: 0, lng: 0 }}
+                      onChange={setPin}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => pin && updateRecipient(recipient.id, { coordinates: pin })}
+                      disabled={!pin || saving}
+                      className="px-3 py-1.5 bg-blue-600 rounded text-sm disabled:opacity-50"
+                    >
+                      {saving ? 'Saving...' : 'Save location'}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setPlacingRow(null);
+                        setPin(null);
+                      }}
+                      className="px-3 py-1.5 bg-zinc-700 rounded text-sm"
+                    >
+                      Cancel
+                    </button>
+                    {pin && (
+                      <span className="text-xs text-zinc-400 self-center">
+                        {pin.lat.toFixed(6)}, {pin.lng.toFixed(6)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+'use client';
+
+import { useCallback, useEffect, useState, type ReactNode } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import type { DeliveryStats, GroupProgress, TimelineBucket } from '@/lib/deliveryStats';
+import { DELIVERY_STATUSES, STATUS_COLORS } from '@/lib/status';
+
+// Figures move as drivers work, so keep them fresh without a manual reload
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+// "14:30", or "Tue 09:15" when it isn't today
+function formatWhen(iso: string): string {
+  const date = new Date(iso);
+  if (date.toDateString() === new Date().toDateString()) return formatTime(iso);
+  return date.toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+function ProgressBar({ value, total }: { value: number; total: number }) {
+  return (
+    <div className="h-2 w-full bg-zinc-700 rounded overflow-hidden">
+      <div className="h-full bg-green-500" style={{ width: `${percent(value, total)}%` }} />
+    </div>
+  );
+}
+
+function SummaryCard({ label, value, detail, children }: { label: string; value: string; detail?: string; children?: ReactNode }) {
+  return (
+    <div className="bg-zinc-800 rounded-lg p-3 flex flex-col gap-1">
+      <div className="text-xs text-zinc-400">{label}</div>
+      <div className="text-2xl font-bold">{value}</div>
+      {detail && <div className="text-xs text-zinc-400">{detail}</div>}
+      {children}
+    </div>
+  );
+}
+
+// Bars for deliveries in each hour, with the running total as a line on top
+function DeliveriesChart({ timeline }: { timeline: TimelineBucket[] }) {
+  const width = 640;
+  const height = 180;
+  const top = 10;
+  const bottom = 24;
+  const plotHeight = height - top - bottom;
+  const slot = width / timeline.length;
+  const maxHourly = Math.max(...timeline.map((b) => b.delivered), 1);
+  const maxTotal = Math.max(timeline[timeline.length - 1].cumulativeDelivered, 1);
+  // Label every hour when there's room, otherwise every few
+  const labelEvery = Math.ceil(timeline.length / 12);
+
+  const line = timeline
+    .map((bucket, index) => {
+      const x = slot * index + slot / 2;
+      const y = top + plotHeight - (bucket.cumulativeDelivered / maxTotal) * plotHeight;
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Deliveries per hour">
+      {timeline.map((bucket, index) => {
+        const barHeight = (bucket.delivered / maxHourly) * plotHeight;
+        return (
+          <g key={bucket.start}>
+            <rect
+              x={slot * index + slot * 0.15}
+              y={top + plotHeight - barHeight}
+              width={slot * 0.7}
+              height={barHeight}
+              fill="#22c55e"
+              opacity={0.7}
+            >
+              <title>{`${formatTime(bucket.start)}: ${bucket.delivered} delivered (${bucket.parcels} parcels), ${bucket.cumulativeDelivered} so far`}</title>
+            </rect>
+            {index % labelEvery === 0 && (
+              <text x={slot * index + slot / 2} y={height - 6} textAnchor="middle" fontSize="11" fill="#a1a1aa">
+                {formatTime(bucket.start)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      <path d={line} fill="none" stroke="#60a5fa" strokeWidth={2} />
+      <line x1={0} x2={width} y1={top + plotHeight} y2={top + plotHeight} stroke="#52525b" />
+    </svg>
+  );
+}
+
+function GroupTable({ title, groups, emptyName }: { title: string; groups: GroupProgress[]; emptyName: string }) {
+  return (
+    <section className="bg-zinc-800 rounded-lg p-3">
+      <h2 className="font-semibold mb-2">{title}</h2>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-zinc-400">
+            <th className="py-1 font-normal">Name</th>
+            <th className="py-1 font-normal text-right">Recipients</th>
+            <th className="py-1 font-normal text-right">Parcels</th>
+            <th className="py-1 font-normal w-1/4 pl-3">Delivered</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map((group) => (
+            <tr key={group.name} className="border-t border-zinc-700">
+              <td className="py-1.5">{group.name || <span className="text-zinc-500">{emptyName}</span>}</td>
+              <td className="py-1.5 text-right">{group.delivered}/{group.recipients}</td>
+              <td className="py-1.5 text-right">{group.parcelsDelivered}/{group.parcels}</td>
+              <td className="py-1.5 pl-3">
+                <ProgressBar value={group.parcelsDelivered} total={group.parcels} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+// Coordinator-only overview of the round: how far along it is, where, who's doing it and when it'll be done
+export default function DashboardPage() {
+  const router = useRouter();
+  const [stats, setStats] = useState<DeliveryStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const fetchStats = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/stats?utcOffset=${-new Date().getTimezoneOffset()}`);
+      if (response.status === 401) {
+        router.push('/');
+        return;
+      }
+      if (response.status === 403) {
+        router.push('/map');
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to load statistics');
+        return;
+      }
+      setStats(data);
+      setError('');
+    } catch {
+      setError('Failed to load statistics');
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchStats();
+    const interval = setInterval(fetchStats, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchStats]);
+
+  if (loading) {
+    return (
+      <div className="h-screen w-screen flex items-center justify-center bg-zinc-900">
+        <div className="text-white text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  const totals = stats?.totals;
+  const estimate = stats?.estimate;
+
+  return (
+    <div className="min-h-screen bg-zinc-900 text-white">
+      {/* Header */}
+      <header className="bg-zinc-900 border-b border-zinc-800 px-4 py-3 flex items-center justify-between">
+        <h1 className="text-lg font-bold">Dashboard</h1>
+        <Link href="/map" className="text-sm text-zinc-400 hover:text-white transition-colors">
+          ← Back to map
+        </Link>
+      </header>
+
+      <main className="max-w-5xl mx-auto p-4 flex flex-col gap-4">
+        {error && (
+          <div className="bg-red-900/50 border border-red-700 text-red-200 px-3 py-2 rounded text-sm">
+            {error}
+          </div>
+        )}
+
+        {stats && totals && estimate && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <SummaryCard
+                label="Recipients delivered"
+                value={`${totals.delivered}/${totals.recipients}`}
+                detail={`${percent(totals.delivered, totals.recipients)}%`}
+              >
+                <ProgressBar value={totals.delivered} total={totals.recipients} />
+              </SummaryCard>
+              <SummaryCard
+                label="Parcels delivered"
+                value={`${totals.parcelsDelivered}/${totals.parcels}`}
+                detail={`${percent(totals.parcelsDelivered, totals.parcels)}%`}
+              >
+                <ProgressBar value={totals.parcelsDelivered} total={totals.parcels} />
+              </SummaryCard>
+              <SummaryCard
+                label="Still to deliver"
+                value={`${totals.outstanding}`}
+                detail={`${totals.parcelsOutstanding} parcels${totals.closed > 0 ? ` · ${totals.closed} won't be delivered` : ''}`}
+              />
+              <SummaryCard
+                label="Estimated completion"
+                value={
+                  estimate.remaining === 0
+                    ? 'Done'
+                    : estimate.completesAt
+                      ? formatWhen(estimate.completesAt)
+                      : '—'
+                }
+                detail={
+                  estimate.ratePerHour !== null
+                    ? `At ${estimate.ratePerHour.toFixed(1)} deliveries/hour over the last 2 hours`
+                    : estimate.remaining > 0
+                      ? 'Not enough recent deliveries to estimate'
+                      : undefined
+                }
+              />
+            </div>
+
+            {/* Status breakdown */}
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+              {DELIVERY_STATUSES.filter((status) => totals.byStatus[status] > 0).map((status) => (
+                <span key={status} className="flex items-center gap-1">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: STATUS_COLORS[status] }}></span>
+                  {totals.byStatus[status]} {status}
+                </span>
+              ))}
+            </div>
+
+            <section className="bg-zinc-800 rounded-lg p-3">
+              <h2 className="font-semibold mb-1">Deliveries over time</h2>
+              <p className="text-xs text-zinc-400 mb-2">
+                Bars: deliveries per hour. Line: running total. Deliveries that were later reset aren&apos;t counted.
+              </p>
+              {stats.timeline.length > 0 ? (
+                <DeliveriesChart timeline={stats.timeline} />
+              ) : (
+                <div className="text-sm text-zinc-400">No deliveries recorded yet.</div>
+              )}
+            </section>
+
+            <section className="bg-zinc-800 rounded-lg p-3 overflow-x-auto">
+              <h2 className="font-semibold mb-2">Drivers</h2>
+              {stats.drivers.length === 0 ? (
+                <div className="text-sm text-zinc-400">No one has been assigned recipients yet.</div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-zinc-400">
+                      <th className="py-1 font-normal">Driver</th>
+                      <th className="py-1 font-normal text-right">Assigned</th>
+                      <th className="py-1 font-normal text-right">Left</th>
+                      <th className="py-1 font-normal text-right">Delivered</th>
+                      <th className="py-1 font-normal text-right">Parcels</th>
+                      <th className="py-1 font-normal text-right">Failed attempts</th>
+                      <th className="py-1 font-normal text-right">Per hour</th>
+                      <th className="py-1 font-normal text-right">Last delivery</th>
+                      <th className="py-1 font-normal"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.drivers.map((driver) => (
+                      <tr key={driver.driver} className="border-t border-zinc-700">
+                        <td className="py-1.5">{driver.driver}</td>
+                        <td className="py-1.5 text-right">{driver.assigned}</td>
+                        <td className="py-1.5 text-right">{driver.assignedOutstanding}</td>
+                        <td className="py-1.5 text-right">{driver.delivered}</td>
+                        <td className="py-1.5 text-right">{driver.parcelsDelivered}</td>
+                        <td className="py-1.5 text-right">{driver.failedAttempts}</td>
+                        <td className="py-1.5 text-right">{driver.perHour !== null ? driver.perHour.toFixed(1) : '—'}</td>
+                        <td className="py-1.5 text-right">{driver.lastDeliveryAt ? formatWhen(driver.lastDeliveryAt) : '—'}</td>
+                        <td className="py-1.5 pl-3 text-right">
+                          <a
+                            href={`/api/export/manifest?driver=${encodeURIComponent(driver.driver)}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-400 hover:underline whitespace-nowrap"
+                          >
+                            Run sheet
+                          </a>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              <GroupTable title="By faculty" groups={stats.byFaculty} emptyName="No faculty" />
+              <GroupTable title="By recipient type" groups={stats.byRecipientType} emptyName="No type" />
+            </div>
+
+            <p className="text-xs text-zinc-500">Updated {formatTime(stats.generatedAt)}</p>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
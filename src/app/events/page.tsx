@@ -0,0 +1,244 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { eventLabel, MAX_EVENT_NAME_LENGTH, type DeliveryEvent } from '@/lib/events';
+
+function today(): string {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 10);
+}
+
+// Coordinator-only list of delivery events: start the next round from an earlier roster,
+// and close finished rounds so they're kept read-only for reporting
+export default function EventsPage() {
+  const router = useRouter();
+  const [events, setEvents] = useState<DeliveryEvent[]>([]);
+  const [current, setCurrent] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  // New event form
+  const [name, setName] = useState('');
+  const [date, setDate] = useState(today);
+  const [sourceId, setSourceId] = useState('');
+  const [closeSource, setCloseSource] = useState(true);
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      const session = await fetch('/api/session');
+      if (!session.ok) {
+        router.push('/');
+        return;
+      }
+      if ((await session.json()).driver.role !== 'coordinator') {
+        router.push('/map');
+        return;
+      }
+
+      const response = await fetch('/api/events');
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to load events');
+        return;
+      }
+      setEvents(data.events);
+      setCurrent(data.current);
+      // Copy the event being worked on unless another was picked
+      setSourceId((previous) => previous || data.current || '');
+      setError('');
+    } catch {
+      setError('Failed to load events');
+    } finally {
+      setLoading(false);
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  // Start the new event and switch to it
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/events', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name, date, sourceId, closeSource }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to create event');
+        return;
+      }
+
+      await fetch('/api/events/select', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id: data.event.id }),
+      });
+      setName('');
+      await fetchEvents();
+    } catch {
+      setError('Failed to create event');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSetClosed = async (id: string, closed: boolean) => {
+    setBusy(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/events', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id, closed }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Failed to update event');
+        return;
+      }
+      await fetchEvents();
+    } catch {
+      setError('Failed to update event');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="h-screen w-screen flex items-center justify-center bg-zinc-900">
+        <div className="text-white text-xl">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-900 text-white">
+      {/* Header */}
+      <header className="bg-zinc-900 border-b border-zinc-800 px-4 py-3 flex items-center justify-between">
+        <h1 className="text-lg font-bold">Delivery events</h1>
+        <Link href="/map" className="text-sm text-zinc-400 hover:text-white transition-colors">
+          ← Back to map
+        </Link>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-4 flex flex-col gap-4">
+        {error && (
+          <div className="bg-red-900/50 border border-red-700 text-red-200 px-3 py-2 rounded text-sm">
+            {error}
+          </div>
+        )}
+
+        <section className="bg-zinc-800 rounded-lg p-3">
+          <h2 className="font-semibold mb-2">Events</h2>
+          <ul className="flex flex-col">
+            {events.map((event) => (
+              <li key={event.id} className="flex items-center gap-3 py-2 border-t border-zinc-700 first:border-t-0">
+                <div className="flex-1">
+                  <div className="font-medium">
+                    {eventLabel(event)}
+                    {event.id === current && <span className="ml-2 text-xs text-green-400">current</span>}
+                  </div>
+                  <div className="text-xs text-zinc-400">
+                    {event.closed ? 'Closed, read-only' : 'Open'}
+                    {event.createdAt && ` · created ${new Date(event.createdAt).toLocaleDateString()}`}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleSetClosed(event.id, !event.closed)}
+                  disabled={busy}
+                  className="px-3 py-1 text-sm bg-zinc-700 border border-zinc-600 rounded hover:bg-zinc-600 disabled:opacity-50 transition-colors"
+                >
+                  {event.closed ? 'Reopen' : 'Close'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section className="bg-zinc-800 rounded-lg p-3">
+          <h2 className="font-semibold mb-1">Start a new event</h2>
+          <p className="text-xs text-zinc-400 mb-3">
+            Copies the recipients, locations, assignments and instructions of an earlier event. Every status starts
+            again at Pending, without the last round&apos;s attempts, notes or proof of delivery.
+          </p>
+          <form onSubmit={handleCreate} className="flex flex-col gap-3 text-sm">
+            <div className="flex flex-wrap gap-3">
+              <label className="flex flex-col gap-1 flex-1 min-w-48">
+                <span className="text-zinc-300">Name</span>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={MAX_EVENT_NAME_LENGTH}
+                  placeholder="e.g. Exam week"
+                  required
+                  className="bg-zinc-700 border border-zinc-600 rounded px-2 py-1.5 text-white placeholder-zinc-400"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-zinc-300">Date</span>
+                <input
+                  type="date"
+                  value={date}
+                  onChange={(e) => setDate(e.target.value)}
+                  required
+                  className="bg-zinc-700 border border-zinc-600 rounded px-2 py-1.5 text-white"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-zinc-300">Copy roster from</span>
+                <select
+                  value={sourceId}
+                  onChange={(e) => setSourceId(e.target.value)}
+                  className="bg-zinc-700 border border-zinc-600 rounded px-2 py-1.5 text-white"
+                >
+                  {events.map((event) => (
+                    <option key={event.id} value={event.id}>
+                      {eventLabel(event)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={closeSource}
+                onChange={(e) => setCloseSource(e.target.checked)}
+                className="w-4 h-4 accent-green-500"
+              />
+              <span className="text-zinc-300">Close the copied event (keep it read-only for reporting)</span>
+            </label>
+            <div>
+              <button
+                type="submit"
+                disabled={busy || !name.trim() || !sourceId}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-lg font-medium transition-colors"
+              >
+                {busy ? 'Working...' : 'Create and switch to it'}
+              </button>
+            </div>
+          </form>
+        </section>
+      </main>
+    </div>
+  );
+}
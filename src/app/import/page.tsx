@@ -0,0 +1,267 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import {
+  IMPORT_FIELD_LABELS,
+  IMPORT_FIELDS,
+  type ColumnMapping,
+  type ImportField,
+  type ImportMode,
+  type ImportResult,
+  type ImportRow,
+} from '@/lib/importer';
+
+// Response of POST /api/import
+interface ImportResponse {
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: ImportRow[];
+  result?: ImportResult;
+}
+
+const actionLabels: Record<ImportRow['action'], string> = {
+  create: 'New',
+  update: 'Update',
+  skip: 'Skipped',
+};
+
+const actionColors: Record<ImportRow['action'], string> = {
+  create: 'bg-green-700',
+  update: 'bg-blue-700',
+  skip: 'bg-red-700',
+};
+
+// Coordinator-only page to load recipients from a CSV or Excel file: map the file's
+// columns to fields, check the preview, then append or upsert into the store
+export default function ImportPage() {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<ImportMode>('append');
+  const [preview, setPreview] = useState<ImportResponse | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Send the file to the API; without a mapping the server suggests one from the headers
+  const submit = async (options: { file: File; mode: ImportMode; mapping?: ColumnMapping; commit?: boolean }) => {
+    setLoading(true);
+    setError('');
+    try {
+      const form = new FormData();
+      form.append('file', options.file);
+      form.append('mode', options.mode);
+      if (options.mapping) form.append('mapping', JSON.stringify(options.mapping));
+      if (options.commit) form.append('commit', 'true');
+
+      const response = await fetch('/api/import', { method: 'POST', body: form });
+      if (response.status === 401) {
+        router.push('/');
+        return;
+      }
+      if (response.status === 403) {
+        router.push('/map');
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to read the file');
+        return;
+      }
+      setPreview(data);
+      setResult(data.result ?? null);
+    } catch {
+      setError('Failed to read the file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileChange = (chosen: File | null) => {
+    setFile(chosen);
+    setPreview(null);
+    setResult(null);
+    if (chosen) submit({ file: chosen, mode });
+  };
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    if (!file || !preview) return;
+    const mapping = { ...preview.mapping };
+    if (column === '') {
+      delete mapping[field];
+    } else {
+      mapping[field] = Number(column);
+    }
+    setPreview({ ...preview, mapping, rows: [] });
+    setResult(null);
+    if (mapping.id !== undefined) submit({ file, mode, mapping });
+  };
+
+  const handleModeChange = (newMode: ImportMode) => {
+    setMode(newMode);
+    setResult(null);
+    if (file && preview?.mapping.id !== undefined) submit({ file, mode: newMode, mapping: preview.mapping });
+  };
+
+  const rows = preview?.rows ?? [];
+  const counts = {
+    create: rows.filter((r) => r.action === 'create').length,
+    update: rows.filter((r) => r.action === 'update').length,
+    skip: rows.filter((r) => r.action === 'skip').length,
+  };
+
+  return (
+    <div className="min-h-screen bg-zinc-900 text-white">
+      {/* Header */}
+      <header className="bg-zinc-900 border-b border-zinc-800 px-4 py-3 flex items-center justify-between">
+        <h1 className="text-lg font-bold">Import recipients</h1>
+        <Link href="/map" className="text-sm text-zinc-400 hover:text-white transition-colors">
+          ← Back to map
+        </Link>
+      </header>
+
+      <main className="max-w-5xl mx-auto p-4 flex flex-col gap-4">
+        <p className="text-sm text-zinc-400">
+          Upload a CSV or Excel (.xlsx) file with a header row. Only the first worksheet is read.
+          Status, attempts and proof of delivery are never imported; new recipients start as Pending.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+            className="text-sm"
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <input type="radio" checked={mode === 'append'} onChange={() => handleModeChange('append')} />
+            Add new IDs only
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="radio" checked={mode === 'upsert'} onChange={() => handleModeChange('upsert')} />
+            Add new and update existing IDs
+          </label>
+        </div>
+
+        {error && (
+          <div className="bg-red-900/50 border border-red-700 text-red-200 px-3 py-2 rounded text-sm">
+            {error}
+          </div>
+        )}
+
+        {result && (
+          <div className="bg-green-900/50 border border-green-700 text-green-200 px-3 py-2 rounded text-sm">
+            Imported: {result.created} new, {result.updated} updated.
+            {result.skipped.length > 0 && ` ${result.skipped.length} skipped because their ID was added meanwhile.`}
+            {result.ignoredFields.length > 0 &&
+              ` The sheet has no ${result.ignoredFields.map((f) => `"${IMPORT_FIELD_LABELS[f]}"`).join(', ')} column, so those values weren't saved.`}{' '}
+            <Link href="/map" className="underline">Open the map</Link>
+          </div>
+        )}
+
+        {/* Column mapping */}
+        {preview && (
+          <section className="bg-zinc-800 rounded-lg p-3">
+            <h2 className="font-semibold mb-2">Columns</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {IMPORT_FIELDS.map((field) => (
+                <label key={field} className="flex items-center justify-between gap-2 text-sm">
+                  <span className={field === 'id' ? 'font-semibold' : 'text-zinc-300'}>
+                    {IMPORT_FIELD_LABELS[field]}{field === 'id' && ' *'}
+                  </span>
+                  <select
+                    value={preview.mapping[field] ?? ''}
+                    disabled={loading}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    className="bg-zinc-700 border border-zinc-600 rounded px-2 py-1 text-white text-sm w-48"
+                  >
+                    <option value="">Don&apos;t import</option>
+                    {preview.headers.map((header, column) => (
+                      <option key={column} value={column}>
+                        {header || `Column ${column + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Preview */}
+        {preview && preview.mapping.id === undefined && (
+          <div className="text-sm text-zinc-300">Choose the column that holds the ID to see a preview.</div>
+        )}
+
+        {rows.length > 0 && (
+          <section className="flex flex-col gap-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-zinc-300">
+                {counts.create} new · {counts.update} to update · {counts.skip} skipped
+              </p>
+              <button
+                onClick={() => file && submit({ file, mode, mapping: preview!.mapping, commit: true })}
+                disabled={loading || counts.create + counts.update === 0 || result !== null}
+                className="px-3 py-1.5 bg-blue-600 rounded text-sm disabled:opacity-50"
+              >
+                {loading ? 'Working...' : `Import ${counts.create + counts.update} rows`}
+              </button>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-zinc-400">
+                  <tr>
+                    <th className="px-2 py-1">Line</th>
+                    <th className="px-2 py-1">ID</th>
+                    <th className="px-2 py-1"></th>
+                    <th className="px-2 py-1">Location</th>
+                    <th className="px-2 py-1">Parcels</th>
+                    <th className="px-2 py-1">Problems</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr
+                      key={row.line}
+                      className={`border-t border-zinc-800 ${
+                        row.errors.length > 0 ? 'bg-red-900/30' : row.warnings.length > 0 ? 'bg-amber-900/20' : ''
+                      }`}
+                    >
+                      <td className="px-2 py-1 text-zinc-400">{row.line}</td>
+                      <td className="px-2 py-1 font-semibold">{row.record.id}</td>
+                      <td className="px-2 py-1 whitespace-nowrap">
+                        <span className={`text-xs px-2 py-0.5 rounded ${actionColors[row.action]}`}>
+                          {actionLabels[row.action]}
+                        </span>
+                        {row.duplicate && (
+                          <span className="ml-1 text-xs px-2 py-0.5 rounded bg-amber-600">Duplicate</span>
+                        )}
+                      </td>
+                      <td className="px-2 py-1 text-zinc-300">
+                        {row.coordinates
+                          ? `${row.coordinates.lat.toFixed(5)}, ${row.coordinates.lng.toFixed(5)}`
+                          : row.record.address || row.record.googleMapLink || '—'}
+                      </td>
+                      <td className="px-2 py-1 text-zinc-300">{row.record.parcels ?? ''}</td>
+                      <td className="px-2 py-1">
+                        {row.errors.map((message) => (
+                          <div key={message} className="text-red-300">{message}</div>
+                        ))}
+                        {row.warnings.map((message) => (
+                          <div key={message} className="text-amber-300">{message}</div>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
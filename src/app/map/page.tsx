@@ -1,9 +1,29 @@
 'use client';
 
-import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import dynamic from 'next/dynamic';
-import type { Recipient } from '@/lib/googleSheets';
+import { getCurrentPosition } from '@/lib/geolocation';
+import {
+  enqueueStatusUpdate,
+  flushQueue,
+  getQueuedUpdates,
+  requestBackgroundSync,
+  type QueuedStatusUpdate,
+  type ReplayResult,
+} from '@/lib/offlineQueue';
+import type { MapFocus } from '@/components/Map';
+import type { ProofCapture } from '@/components/ProofOfDeliveryForm';
+import RecipientList from '@/components/RecipientList';
+import type { StatusConflict } from '@/lib/deliveries';
+import { eventLabel, type DeliveryEvent } from '@/lib/events';
+import type { RecipientUpdateEvent } from '@/lib/liveUpdates';
+import type { Actor } from '@/lib/permissions';
+import { filterRecipients, filterToQuery, type RecipientFilter, type RecipientSort, type StatusFilter } from '@/lib/recipientSearch';
+import type { Recipient } from '@/lib/recipientStore';
+import type { LatLng } from '@/lib/routing';
+import { DELIVERY_STATUSES, isFailedStatus, type DeliveryStatus } from '@/lib/status';
 
 // Dynamic import to avoid SSR issues with Leaflet
 const MapComponent = dynamic(() => import('@/components/Map'), {
@@ -15,68 +35,297 @@ const MapComponent = dynamic(() => import('@/components/Map'), {
   ),
 });
 
-type StatusFilter = 'all' | 'Pending' | 'On the way' | 'Delivered';
+type AssignmentFilter = 'mine' | 'unassigned' | 'all';
+
+// Live update transport: Server-Sent Events by default, or ETag polling where
+// long-lived connections aren't available (SSE also falls back to polling on repeated errors)
+const LIVE_UPDATES_MODE = process.env.NEXT_PUBLIC_LIVE_UPDATES === 'poll' ? 'poll' : 'sse';
+const POLL_INTERVAL_MS = parseInt(process.env.NEXT_PUBLIC_POLL_INTERVAL_MS || '', 10) || 15000;
+const MAX_SSE_ERRORS = 3;
+
+// An API URL naming the event it's for. Without it the server goes by the event cookie, which
+// another tab may have switched since, so writes and exports would land in the wrong event.
+function eventUrl(path: string, eventId: string | undefined, query = new URLSearchParams()): string {
+  const params = new URLSearchParams(query);
+  if (eventId) params.set('event', eventId);
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+// Show queued (not yet synced) statuses on top of what the server last told us
+function applyQueuedUpdates(recipients: Recipient[], queue: QueuedStatusUpdate[]): Recipient[] {
+  if (queue.length === 0) return recipients;
+  const queued = new Map(queue.map((u) => [u.id, u]));
+  return recipients.map((r) => {
+    const update = queued.get(r.id);
+    return update ? { ...r, status: update.status, statusReason: update.reason ?? '' } : r;
+  });
+}
+
+// Queued changes the driver made in this event (or before there were events); ones from another
+// event are replayed there but don't belong on this map, and another driver's are never replayed
+function queuedInEvent(queue: QueuedStatusUpdate[], eventId: string | undefined, driver: string): QueuedStatusUpdate[] {
+  return queue.filter((u) => u.driver === driver && (!u.eventId || u.eventId === eventId));
+}
+
+// Send one queued update; network errors and server trouble are retried later
+async function sendStatusUpdate(
+  update: QueuedStatusUpdate
+): Promise<{ result: ReplayResult; conflict?: StatusConflict }> {
+  try {
+    const response = await fetch(eventUrl('/api/recipients', update.eventId), {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        id: update.id,
+        status: update.status,
+        reason: update.reason,
+        expectedStatus: update.expectedStatus,
+        position: update.position,
+      }),
+    });
+
+    if (response.ok) return { result: 'synced' };
+    // Expired session or server error: keep it until the driver signs in again / it recovers
+    if (response.status === 401 || response.status >= 500) return { result: 'retry' };
+    if (response.status === 409) {
+      const data = await response.json();
+      return { result: 'rejected', conflict: data.conflict };
+    }
+    return { result: 'rejected' };
+  } catch {
+    return { result: 'retry' };
+  }
+}
+
+// "Already claimed by Amal" / "Already marked Delivered by Amal"
+function describeConflictMessage(conflict: StatusConflict): string {
+  const who = conflict.changedBy ? ` by ${conflict.changedBy}` : '';
+  return conflict.currentStatus === 'On the way'
+    ? `${conflict.id}: Already claimed${who}`
+    : `${conflict.id}: Already marked ${conflict.currentStatus}${who}`;
+}
 
 export default function MapPage() {
   const router = useRouter();
   const [recipients, setRecipients] = useState<Recipient[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
-  const [adminCode, setAdminCode] = useState<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<Actor | null>(null);
+  const [drivers, setDrivers] = useState<string[]>([]);
+
+  // Delivery event being worked on; closed ones are shown read-only
+  const [events, setEvents] = useState<DeliveryEvent[]>([]);
+  const [currentEvent, setCurrentEvent] = useState<DeliveryEvent | null>(null);
+  const readOnly = currentEvent?.closed ?? false;
+
+  // Offline sync state
+  const [pendingSyncIds, setPendingSyncIds] = useState<Set<string>>(new Set());
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+  const [conflicts, setConflicts] = useState<StatusConflict[]>([]);
+  const flushingRef = useRef(false);
+  const pendingSyncRef = useRef(pendingSyncIds);
+  const etagRef = useRef<string | null>(null);
   
   // Filter states
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [facultyFilter, setFacultyFilter] = useState<string>('all');
   const [hideDelivered, setHideDelivered] = useState(false);
+  const [assignmentFilter, setAssignmentFilter] = useState<AssignmentFilter>('mine');
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // List view: sorted the driver's way, and tapping a row flies the map to that marker
+  const [view, setView] = useState<'map' | 'list'>('map');
+  const [listSort, setListSort] = useState<RecipientSort>('id');
+  const [myPosition, setMyPosition] = useState<LatLng | null>(null);
+  const [locatingMe, setLocatingMe] = useState(false);
+  const [mapFocus, setMapFocus] = useState<MapFocus | null>(null);
 
-  // Check auth on mount
+  // Check the session cookie on mount
   useEffect(() => {
-    const code = localStorage.getItem('adminCode');
-    if (!code) {
-      router.push('/');
-      return;
-    }
-    setAdminCode(code);
+    const checkSession = async () => {
+      try {
+        const response = await fetch('/api/session');
+        if (!response.ok) {
+          router.push('/');
+          return;
+        }
+        const data = await response.json();
+
+        // Before the user is set, so the first fetch of recipients knows which event it's for
+        const eventsResponse = await fetch('/api/events');
+        if (eventsResponse.ok) {
+          const eventsData = await eventsResponse.json();
+          setEvents(eventsData.events);
+          setCurrentEvent(eventsData.events.find((e: DeliveryEvent) => e.id === eventsData.current) ?? null);
+        }
+
+        setCurrentUser(data.driver);
+        // Coordinators oversee everyone; drivers start on their own batch
+        setAssignmentFilter(data.driver.role === 'coordinator' ? 'all' : 'mine');
+      } catch {
+        router.push('/');
+      }
+    };
+
+    checkSession();
   }, [router]);
 
-  // Fetch recipients
-  const fetchRecipients = useCallback(async () => {
-    if (!adminCode) return;
+  // Fetch recipients. With revalidate, an unchanged list (304) is left alone.
+  const fetchRecipients = useCallback(async (revalidate = false) => {
+    if (!currentUser) return;
 
     try {
-      const response = await fetch('/api/recipients', {
-        headers: {
-          Authorization: `Bearer ${adminCode}`,
-        },
+      // Named in the URL, which also makes the offline cache keep one roster per event
+      const response = await fetch(eventUrl('/api/recipients', currentEvent?.id), {
+        headers: revalidate && etagRef.current ? { 'If-None-Match': etagRef.current } : {},
       });
 
       if (response.status === 401) {
-        localStorage.removeItem('adminCode');
         router.push('/');
         return;
       }
 
+      if (response.status === 304) return;
+      etagRef.current = response.headers.get('ETag');
+
       const data = await response.json();
       if (data.recipients) {
-        setRecipients(data.recipients);
+        const queue = queuedInEvent(await getQueuedUpdates().catch(() => []), currentEvent?.id, currentUser.name);
+        setRecipients(applyQueuedUpdates(data.recipients, queue));
+        setPendingSyncIds(new Set(queue.map((u) => u.id)));
+      }
+      if (data.drivers) {
+        setDrivers(data.drivers);
       }
     } catch {
       setError('Failed to load recipients');
     } finally {
       setLoading(false);
     }
-  }, [adminCode, router]);
+  }, [currentUser, currentEvent, router]);
 
   useEffect(() => {
-    if (adminCode) {
+    if (currentUser) {
       fetchRecipients();
     }
-  }, [adminCode, fetchRecipients]);
+  }, [currentUser, fetchRecipients]);
+
+  useEffect(() => {
+    pendingSyncRef.current = pendingSyncIds;
+  }, [pendingSyncIds]);
+
+  // Live updates from other drivers: merge pushed changes, or poll if we can't stream
+  useEffect(() => {
+    if (!currentUser) return;
+
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let source: EventSource | null = null;
+    let errorCount = 0;
+
+    const startPolling = () => {
+      if (pollTimer) return;
+      pollTimer = setInterval(() => fetchRecipients(true), POLL_INTERVAL_MS);
+    };
+
+    if (LIVE_UPDATES_MODE === 'poll' || typeof EventSource === 'undefined') {
+      startPolling();
+    } else {
+      source = new EventSource(eventUrl('/api/recipients/events', currentEvent?.id));
+
+      source.addEventListener('recipient-updated', (message) => {
+        const event: RecipientUpdateEvent = JSON.parse((message as MessageEvent).data);
+        const changes = { ...event.changes };
+        // Our own unsynced tap wins until the queue replays it
+        if (pendingSyncRef.current.has(event.id)) delete changes.status;
+
+        setRecipients((prev) =>
+          prev.map((r) =>
+            r.id === event.id ? { ...r, ...changes } : r
+          )
+        );
+      });
+
+      // Catch up on anything missed while the stream was down
+      source.addEventListener('open', () => {
+        if (errorCount > 0) fetchRecipients(true);
+        errorCount = 0;
+      });
+
+      source.addEventListener('error', () => {
+        errorCount += 1;
+        if (errorCount >= MAX_SSE_ERRORS) {
+          source?.close();
+          startPolling();
+        }
+      });
+    }
+
+    return () => {
+      source?.close();
+      if (pollTimer) clearInterval(pollTimer);
+    };
+  }, [currentUser, currentEvent, fetchRecipients]);
+
+  // Replay queued status updates; rejected ones are reverted by refetching
+  const syncQueue = useCallback(async () => {
+    if (!currentUser || flushingRef.current) return;
+    flushingRef.current = true;
+
+    try {
+      const newConflicts: StatusConflict[] = [];
+      const { rejected } = await flushQueue(async (update) => {
+        const { result, conflict } = await sendStatusUpdate(update);
+        if (conflict) newConflicts.push(conflict);
+        return result;
+      }, currentUser.name);
+      if (newConflicts.length > 0) {
+        setConflicts((prev) => [...prev, ...newConflicts]);
+      }
+      const queue = queuedInEvent(await getQueuedUpdates(), currentEvent?.id, currentUser.name);
+      setPendingSyncIds(new Set(queue.map((u) => u.id)));
+      if (rejected.length > 0) {
+        fetchRecipients();
+      }
+    } catch (error) {
+      console.error('Error syncing queued updates:', error);
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [currentUser, currentEvent, fetchRecipients]);
+
+  // Sync when connectivity returns, when the service worker asks, and once signed in
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncQueue();
+    };
+    const handleOffline = () => setIsOnline(false);
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'flush-status-queue') syncQueue();
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+    syncQueue();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  }, [currentUser, syncQueue]);
 
   // Calculate stats (must be before any early returns to maintain hook order)
   const totalRecipients = recipients.length;
   const deliveredCount = recipients.filter((r) => r.status === 'Delivered').length;
   const inProgressCount = recipients.filter((r) => r.status === 'On the way').length;
+  const failedCount = recipients.filter((r) => isFailedStatus(r.status)).length;
 
   // Get unique faculties for filter dropdown (must be before any early returns)
   const faculties = useMemo(() => {
@@ -85,43 +334,103 @@ export default function MapPage() {
   }, [recipients]);
 
   // Filter recipients (must be before any early returns)
-  const filteredRecipients = useMemo(() => {
-    return recipients.filter((r) => {
-      // Hide delivered filter
-      if (hideDelivered && r.status === 'Delivered') return false;
-      
-      // Status filter
-      if (statusFilter !== 'all' && r.status !== statusFilter) return false;
-      
-      // Faculty filter
-      if (facultyFilter !== 'all' && r.faculty !== facultyFilter) return false;
-      
-      return true;
-    });
-  }, [recipients, statusFilter, facultyFilter, hideDelivered]);
+  const filter = useMemo<RecipientFilter>(() => ({
+    driver: assignmentFilter === 'mine' ? currentUser?.name ?? '' : assignmentFilter === 'unassigned' ? '' : null,
+    status: statusFilter,
+    faculty: facultyFilter === 'all' ? null : facultyFilter,
+    hideDelivered,
+    search: searchQuery,
+  }), [statusFilter, facultyFilter, hideDelivered, assignmentFilter, searchQuery, currentUser]);
+
+  const filteredRecipients = useMemo(() => filterRecipients(recipients, filter), [recipients, filter]);
+
+  // Sorting by distance needs a fresh fix; other sorts keep the last one for showing distances
+  const handleSortChange = async (sort: RecipientSort) => {
+    setListSort(sort);
+    if (sort !== 'distance') return;
+
+    setLocatingMe(true);
+    const position = await getCurrentPosition();
+    setLocatingMe(false);
+    if (position) setMyPosition({ lat: position.lat, lng: position.lng });
+  };
+
+  // Show a recipient picked from the list on the map, with its popup open
+  const handleSelectFromList = (id: string) => {
+    const coordinates = recipients.find((r) => r.id === id)?.coordinates;
+    if (!coordinates) return;
+    setView('map');
+    setMapFocus({ id, coordinates, at: Date.now() });
+  };
 
-  // Handle status update (optimistic UI)
+  // Handle status update (optimistic UI, queued so it survives losing signal)
   const handleStatusUpdate = async (
     id: string,
-    status: 'Pending' | 'On the way' | 'Delivered'
+    status: DeliveryStatus,
+    reason?: string
   ) => {
-    if (!adminCode) return;
+    if (!currentUser) return;
+
+    // The status on screen is what the server must still have for this change to apply
+    const expectedStatus = recipients.find((r) => r.id === id)?.status ?? 'Pending';
 
     // Optimistic update
     setRecipients((prev) =>
       prev.map((r) =>
-        r.id === id ? { ...r, status } : r
+        r.id === id ? { ...r, status, statusReason: reason ?? '' } : r
       )
     );
 
+    // Tag the change with where the device was, if it can tell us quickly
+    const position = await getCurrentPosition();
+    const update: QueuedStatusUpdate = {
+      id,
+      status,
+      reason,
+      expectedStatus,
+      position,
+      queuedAt: new Date().toISOString(),
+      eventId: currentEvent?.id,
+      driver: currentUser.name,
+    };
+
     try {
-      const response = await fetch('/api/recipients', {
+      await enqueueStatusUpdate(update);
+    } catch {
+      // No IndexedDB (e.g. private browsing): send directly and revert if it doesn't stick
+      const { result, conflict } = await sendStatusUpdate(update);
+      if (conflict) {
+        setConflicts((prev) => [...prev, conflict]);
+      }
+      if (result !== 'synced') {
+        fetchRecipients();
+      }
+      return;
+    }
+
+    setPendingSyncIds((prev) => new Set(prev).add(id));
+    requestBackgroundSync();
+    syncQueue();
+  };
+
+  // Handle driver assignment (optimistic UI)
+  const handleAssign = async (id: string, assignedDriver: string) => {
+    if (!currentUser) return;
+
+    // Optimistic update
+    setRecipients((prev) =>
+      prev.map((r) =>
+        r.id === id ? { ...r, assignedDriver } : r
+      )
+    );
+
+    try {
+      const response = await fetch(eventUrl('/api/recipients', currentEvent?.id), {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${adminCode}`,
         },
-        body: JSON.stringify({ id, status }),
+        body: JSON.stringify({ id, assignedDriver }),
       });
 
       if (!response.ok) {
@@ -134,13 +443,178 @@ export default function MapPage() {
     }
   };
 
-  // Logout function
-  const handleLogout = () => {
-    localStorage.removeItem('adminCode');
-    router.push('/');
+  // Mark Delivered with proof. Uploads can't wait in the offline queue, so this needs a connection;
+  // resolves to an error message for the form, or null on success.
+  const handleProofSubmit = async (id: string, capture: ProofCapture): Promise<string | null> => {
+    if (!currentUser) return 'Not signed in';
+
+    const form = new FormData();
+    if (capture.photo) form.append('photo', capture.photo);
+    if (capture.signature) form.append('signature', capture.signature, 'signature.png');
+    if (capture.code) form.append('code', capture.code);
+    form.append('expectedStatus', recipients.find((r) => r.id === id)?.status ?? 'Pending');
+    const position = await getCurrentPosition();
+    if (position) form.append('position', JSON.stringify(position));
+
+    try {
+      const response = await fetch(eventUrl(`/api/recipients/${encodeURIComponent(id)}/proof`, currentEvent?.id), {
+        method: 'POST',
+        body: form,
+      });
+
+      if (response.status === 401) {
+        router.push('/');
+        return 'Not signed in';
+      }
+
+      const data = await response.json();
+      if (response.status === 409 && data.conflict) {
+        setConflicts((prev) => [...prev, data.conflict]);
+        fetchRecipients();
+        return describeConflictMessage(data.conflict);
+      }
+      if (!response.ok) {
+        return data.error || 'Failed to record proof of delivery';
+      }
+
+      setRecipients((prev) =>
+        prev.map((r) =>
+          r.id === id ? { ...r, status: 'Delivered', statusReason: '', attempts: data.attempts, proof: data.proof } : r
+        )
+      );
+      return null;
+    } catch {
+      return isOnline ? 'Failed to record proof of delivery' : 'Proof of delivery needs a connection';
+    }
+  };
+
+  // Add a field note; resolves to an error message for the popup, or null on success
+  const handleAddNote = async (id: string, text: string): Promise<string | null> => {
+    try {
+      const response = await fetch(eventUrl(`/api/recipients/${encodeURIComponent(id)}/notes`, currentEvent?.id), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ text }),
+      });
+
+      if (response.status === 401) {
+        router.push('/');
+        return 'Not signed in';
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        return data.error || 'Failed to add note';
+      }
+
+      // The live update for this note may have arrived first
+      setRecipients((prev) =>
+        prev.map((r) =>
+          r.id === id && !r.fieldNotes.some((n) => n.at === data.note.at && n.by === data.note.by)
+            ? { ...r, fieldNotes: [...r.fieldNotes, data.note] }
+            : r
+        )
+      );
+      return null;
+    } catch {
+      return isOnline ? 'Failed to add note' : 'Notes need a connection';
+    }
+  };
+
+  // Handle a coordinator's bulk status change (optimistic UI, one request for the lot)
+  const handleBulkStatusUpdate = async (ids: string[], status: DeliveryStatus) => {
+    if (!currentUser || ids.length === 0) return;
+
+    const expectedStatuses = new Map(recipients.map((r) => [r.id, r.status]));
+
+    // Optimistic update
+    const selected = new Set(ids);
+    setRecipients((prev) =>
+      prev.map((r) =>
+        selected.has(r.id) ? { ...r, status } : r
+      )
+    );
+
+    try {
+      const position = await getCurrentPosition();
+      const response = await fetch(eventUrl('/api/recipients/bulk', currentEvent?.id), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          updates: ids.map((id) => ({ id, status, expectedStatus: expectedStatuses.get(id) })),
+          position,
+        }),
+      });
+
+      if (response.status === 401) {
+        router.push('/');
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to update recipients');
+        fetchRecipients();
+        return;
+      }
+
+      const newConflicts: StatusConflict[] = data.results
+        .filter((r: { conflict?: StatusConflict }) => r.conflict)
+        .map((r: { conflict: StatusConflict }) => r.conflict);
+      if (newConflicts.length > 0) {
+        setConflicts((prev) => [...prev, ...newConflicts]);
+      }
+      // Revert whatever didn't apply
+      if (data.failed > 0) {
+        fetchRecipients();
+      }
+    } catch {
+      // Revert on error
+      fetchRecipients();
+    }
+  };
+
+  // Switch to another delivery event. Everything on screen belongs to the old one, so start afresh.
+  const handleSelectEvent = async (id: string) => {
+    try {
+      const response = await fetch('/api/events/select', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ id }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to switch event');
+        return;
+      }
+      window.location.reload();
+    } catch {
+      setError('Failed to switch event');
+    }
+  };
+
+  // Logout function: revoke the session server-side, then leave
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/logout', { method: 'POST' });
+      // Don't leave this driver's cached recipient list on a shared phone
+      if (typeof caches !== 'undefined') {
+        const cacheKeys = await caches.keys();
+        await Promise.all(cacheKeys.filter((key) => key.startsWith('api-')).map((key) => caches.delete(key)));
+      }
+    } finally {
+      router.push('/');
+    }
   };
 
-  if (!adminCode || loading) {
+  if (!currentUser || loading) {
     return (
       <div className="h-screen w-screen flex items-center justify-center bg-zinc-900">
         <div className="text-white text-xl">Loading...</div>
@@ -153,7 +627,7 @@ export default function MapPage() {
       <div className="h-screen w-screen flex flex-col items-center justify-center bg-zinc-900 gap-4">
         <div className="text-red-400 text-xl">{error}</div>
         <button
-          onClick={fetchRecipients}
+          onClick={() => fetchRecipients()}
           className="px-4 py-2 bg-blue-600 text-white rounded-lg"
         >
           Retry
@@ -166,15 +640,71 @@ export default function MapPage() {
     <div className="h-screen w-screen flex flex-col">
       {/* Header */}
       <header className="bg-zinc-900 text-white px-4 py-3 flex items-center justify-between z-10">
-        <h1 className="text-lg font-bold">Delivery Coordinator</h1>
-        <button
-          onClick={handleLogout}
-          className="text-sm text-zinc-400 hover:text-white transition-colors"
-        >
-          Logout
-        </button>
+        <div className="flex items-center gap-3">
+          <h1 className="text-lg font-bold">Delivery Coordinator</h1>
+          {events.length > 1 && currentEvent && (
+            <select
+              value={currentEvent.id}
+              onChange={(e) => handleSelectEvent(e.target.value)}
+              aria-label="Delivery event"
+              className="bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-white text-sm"
+            >
+              {events.map((event) => (
+                <option key={event.id} value={event.id}>
+                  {eventLabel(event)}{event.closed ? ' – closed' : ''}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-zinc-300">
+            {currentUser.name}
+            {currentUser.role === 'coordinator' && (
+              <span className="ml-1 text-xs text-zinc-500">(coordinator)</span>
+            )}
+          </span>
+          {/* Opens as a page of its own, to print or save as PDF */}
+          <a
+            href={eventUrl('/api/export/manifest', currentEvent?.id)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-zinc-400 hover:text-white transition-colors"
+          >
+            Run sheet
+          </a>
+          {currentUser.role === 'coordinator' && (
+            <>
+              <Link href="/dashboard" className="text-sm text-zinc-400 hover:text-white transition-colors">
+                Dashboard
+              </Link>
+              <Link href="/events" className="text-sm text-zinc-400 hover:text-white transition-colors">
+                Events
+              </Link>
+              <Link href="/import" className="text-sm text-zinc-400 hover:text-white transition-colors">
+                Import
+              </Link>
+              <Link href="/attention" className="text-sm text-zinc-400 hover:text-white transition-colors">
+                Needs attention
+              </Link>
+            </>
+          )}
+          <button
+            onClick={handleLogout}
+            className="text-sm text-zinc-400 hover:text-white transition-colors"
+          >
+            Logout
+          </button>
+        </div>
       </header>
 
+      {/* Past events are kept for reporting, not for working on */}
+      {readOnly && currentEvent && (
+        <div className="bg-zinc-600 text-zinc-100 px-4 py-2 text-sm">
+          🔒 {eventLabel(currentEvent)} is closed. Its records are read-only.
+        </div>
+      )}
+
       {/* Stats Dashboard */}
       <div className="bg-zinc-800 text-white px-4 py-2 flex gap-4 text-sm">
         <span className="flex items-center gap-1">
@@ -185,10 +715,40 @@ export default function MapPage() {
           <span className="w-2 h-2 bg-yellow-500 rounded-full"></span>
           {inProgressCount} In Progress
         </span>
+        {failedCount > 0 && (
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 bg-orange-500 rounded-full"></span>
+            {failedCount} Couldn&apos;t deliver
+          </span>
+        )}
+        {!isOnline && (
+          <span className="ml-auto text-zinc-400">Offline</span>
+        )}
+        {pendingSyncIds.size > 0 && (
+          <span className={`flex items-center gap-1 text-sky-300 ${isOnline ? 'ml-auto' : ''}`}>
+            <span className="w-2 h-2 bg-sky-400 rounded-full animate-pulse"></span>
+            {pendingSyncIds.size} {pendingSyncIds.size === 1 ? 'change' : 'changes'} not yet synced
+          </span>
+        )}
       </div>
 
       {/* Filter Controls */}
       <div className="bg-zinc-700 text-white px-4 py-2 flex flex-wrap gap-3 text-sm items-center">
+        {/* Assignment Filter */}
+        <div className="flex items-center gap-2">
+          <label htmlFor="assignment-filter" className="text-zinc-300">Show:</label>
+          <select
+            id="assignment-filter"
+            value={assignmentFilter}
+            onChange={(e) => setAssignmentFilter(e.target.value as AssignmentFilter)}
+            className="bg-zinc-600 border border-zinc-500 rounded px-2 py-1 text-white text-sm"
+          >
+            <option value="mine">My deliveries</option>
+            <option value="unassigned">Unassigned</option>
+            <option value="all">Everyone</option>
+          </select>
+        </div>
+
         {/* Status Filter */}
         <div className="flex items-center gap-2">
           <label htmlFor="status-filter" className="text-zinc-300">Status:</label>
@@ -199,9 +759,10 @@ export default function MapPage() {
             className="bg-zinc-600 border border-zinc-500 rounded px-2 py-1 text-white text-sm"
           >
             <option value="all">All</option>
-            <option value="Pending">Pending</option>
-            <option value="On the way">On the way</option>
-            <option value="Delivered">Delivered</option>
+            {DELIVERY_STATUSES.map((status) => (
+              <option key={status} value={status}>{status}</option>
+            ))}
+            <option value="failed">Couldn&apos;t deliver (any)</option>
           </select>
         </div>
 
@@ -223,6 +784,15 @@ export default function MapPage() {
           </select>
         </div>
 
+        {/* Search */}
+        <input
+          type="search"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Search ID, phone or faculty"
+          className="bg-zinc-600 border border-zinc-500 rounded px-2 py-1 text-white text-sm placeholder-zinc-400 w-52"
+        />
+
         {/* Hide Delivered Toggle */}
         <label className="flex items-center gap-2 cursor-pointer ml-auto">
           <input
@@ -233,14 +803,73 @@ export default function MapPage() {
           />
           <span className="text-zinc-300">Hide delivered</span>
         </label>
+
+        {/* Map / list toggle */}
+        <button
+          onClick={() => setView(view === 'map' ? 'list' : 'map')}
+          className="bg-zinc-600 border border-zinc-500 rounded px-3 py-1 text-white text-sm hover:bg-zinc-500 transition-colors"
+        >
+          {view === 'map' ? '☰ List' : '🗺️ Map'}
+        </button>
+
+        {/* Download what the filters show */}
+        {currentUser.role === 'coordinator' && (
+          <a
+            href={eventUrl('/api/export/recipients', currentEvent?.id, filterToQuery(filter))}
+            download
+            className="bg-zinc-600 border border-zinc-500 rounded px-3 py-1 text-white text-sm hover:bg-zinc-500 transition-colors"
+          >
+            ⬇ CSV
+          </a>
+        )}
       </div>
 
-      {/* Map */}
-      <main className="flex-1">
+      {/* Conflicts: someone else changed a recipient before our update landed */}
+      {conflicts.length > 0 && (
+        <div className="bg-amber-100 text-amber-900 px-4 py-2 text-sm flex items-start gap-3">
+          <div className="flex-1 space-y-0.5">
+            {conflicts.map((conflict, index) => (
+              <div key={`${conflict.id}-${index}`}>⚠️ {describeConflictMessage(conflict)}</div>
+            ))}
+          </div>
+          <button
+            onClick={() => setConflicts([])}
+            className="text-amber-700 hover:text-amber-900"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Map, with the list laid over it so the map keeps its position and route */}
+      <main className="flex-1 relative">
         <MapComponent
           recipients={filteredRecipients}
+          currentUser={currentUser}
+          drivers={drivers}
+          pendingSyncIds={pendingSyncIds}
           onStatusUpdate={handleStatusUpdate}
+          onAssign={handleAssign}
+          onBulkStatusUpdate={handleBulkStatusUpdate}
+          onProofSubmit={handleProofSubmit}
+          onAddNote={handleAddNote}
+          focus={mapFocus}
+          boundsKey={[assignmentFilter, statusFilter, facultyFilter, hideDelivered, searchQuery].join('|')}
+          readOnly={readOnly}
         />
+        {view === 'list' && (
+          <div className="absolute inset-0 z-[1100]">
+            <RecipientList
+              recipients={filteredRecipients}
+              sort={listSort}
+              onSortChange={handleSortChange}
+              position={myPosition}
+              locating={locatingMe}
+              pendingSyncIds={pendingSyncIds}
+              onSelect={handleSelectFromList}
+            />
+          </div>
+        )}
       </main>
     </div>
   );
@@ -26,8 +26,7 @@ export default function LoginPage() {
       const data = await response.json();
 
       if (response.ok && data.success) {
-        // Store the code in localStorage for API calls
-        localStorage.setItem('adminCode', code);
+        // The server has set an HttpOnly session cookie; the code is not kept client-side
         router.push('/map');
       } else {
         setError(data.error || 'Invalid access code');
@@ -0,0 +1,215 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Rectangle, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import type { Recipient } from '@/lib/recipientStore';
+import { STATUS_COLORS, type DeliveryStatus } from '@/lib/status';
+
+interface BulkSelectProps {
+  recipients: Recipient[]; // Currently filtered recipients, including any without a location
+  selecting: boolean;
+  onSelectingChange: (selecting: boolean) => void;
+  selectedIds: Set<string>;
+  onSelectionChange: (selectedIds: Set<string>) => void;
+  onBulkStatusUpdate: (ids: string[], status: DeliveryStatus) => void;
+}
+
+const buttonStyle = {
+  padding: '8px 16px',
+  backgroundColor: 'white',
+  border: '2px solid rgba(0,0,0,0.2)',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '14px',
+  fontWeight: 500,
+};
+
+// How far a press has to move before it's a box rather than a tap
+const DRAG_THRESHOLD_PX = 6;
+
+// Failed attempts need a reason per recipient, so they're set one at a time from the popup
+const statusActions: { status: DeliveryStatus; label: string }[] = [
+  { status: 'Pending', label: 'Reset' },
+  { status: 'On the way', label: 'In Progress' },
+  { status: 'Delivered', label: 'Delivered' },
+];
+
+// Coordinator multi-select: drag a box (or tap markers) to pick recipients, then change them all at once
+export default function BulkSelect({
+  recipients,
+  selecting,
+  onSelectingChange,
+  selectedIds,
+  onSelectionChange,
+  onBulkStatusUpdate,
+}: BulkSelectProps) {
+  const map = useMap();
+  const controlRef = useRef<HTMLDivElement>(null);
+  const [box, setBox] = useState<L.LatLngBounds | null>(null);
+
+  // Clicks on the panel shouldn't start a box on the map underneath
+  useEffect(() => {
+    if (controlRef.current) {
+      L.DomEvent.disableClickPropagation(controlRef.current);
+      L.DomEvent.disableScrollPropagation(controlRef.current);
+    }
+  }, []);
+
+  // Dragging draws the box instead of panning while selecting
+  useEffect(() => {
+    if (!selecting) return;
+    map.dragging.disable();
+    map.touchZoom.disable();
+    map.boxZoom.disable();
+    return () => {
+      map.dragging.enable();
+      map.touchZoom.enable();
+      map.boxZoom.enable();
+    };
+  }, [map, selecting]);
+
+  // Pointer events, so a finger drags a box on the phones coordinators use as well as a mouse
+  useEffect(() => {
+    if (!selecting) return;
+    const container = map.getContainer();
+    let start: { latlng: L.LatLng; x: number; y: number } | null = null;
+    let current: L.LatLngBounds | null = null;
+
+    const handleDown = (e: PointerEvent) => {
+      // Presses on the panel are buttons, not the start of a box
+      if (controlRef.current?.contains(e.target as Node)) return;
+      start = { latlng: map.mouseEventToLatLng(e), x: e.clientX, y: e.clientY };
+    };
+    const handleMove = (e: PointerEvent) => {
+      if (!start) return;
+      // Until the pointer has really moved it may be a tap on a marker, which toggles it instead;
+      // capturing the pointer any earlier would take that click away from the marker
+      if (!current) {
+        if (Math.hypot(e.clientX - start.x, e.clientY - start.y) < DRAG_THRESHOLD_PX) return;
+        container.setPointerCapture(e.pointerId);
+      }
+      current = L.latLngBounds(start.latlng, map.mouseEventToLatLng(e));
+      setBox(current);
+    };
+    const handleUp = (e: PointerEvent) => {
+      const bounds = current;
+      start = null;
+      current = null;
+      if (!bounds) return;
+
+      const inBox = recipients.filter(
+        (r) => r.coordinates && bounds.contains([r.coordinates.lat, r.coordinates.lng])
+      );
+      if (inBox.length > 0) {
+        onSelectionChange(new Set([...selectedIds, ...inBox.map((r) => r.id)]));
+      }
+      if (container.hasPointerCapture(e.pointerId)) container.releasePointerCapture(e.pointerId);
+      setBox(null);
+    };
+
+    // Otherwise the browser takes a touch drag as a pan or pinch of the page
+    const touchAction = container.style.touchAction;
+    container.style.touchAction = 'none';
+    container.addEventListener('pointerdown', handleDown);
+    container.addEventListener('pointermove', handleMove);
+    container.addEventListener('pointerup', handleUp);
+    container.addEventListener('pointercancel', handleUp);
+    return () => {
+      container.style.touchAction = touchAction;
+      container.removeEventListener('pointerdown', handleDown);
+      container.removeEventListener('pointermove', handleMove);
+      container.removeEventListener('pointerup', handleUp);
+      container.removeEventListener('pointercancel', handleUp);
+    };
+  }, [map, selecting, recipients, selectedIds, onSelectionChange]);
+
+  const handleToggle = () => {
+    if (selecting) onSelectionChange(new Set());
+    onSelectingChange(!selecting);
+  };
+
+  const handleStatus = (status: DeliveryStatus) => {
+    const ids = [...selectedIds];
+    const label = statusActions.find((a) => a.status === status)?.label ?? status;
+    if (!confirm(`Mark ${ids.length} ${ids.length === 1 ? 'recipient' : 'recipients'} as ${label}?`)) return;
+    onBulkStatusUpdate(ids, status);
+    onSelectionChange(new Set());
+  };
+
+  return (
+    <>
+      {box && <Rectangle bounds={box} pathOptions={{ color: '#2563eb', weight: 1, dashArray: '4 4', fillOpacity: 0.1 }} />}
+
+      <div className="leaflet-top leaflet-left" style={{ marginTop: '80px' }}>
+        <div
+          ref={controlRef}
+          className="leaflet-control"
+          style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-start', gap: '6px' }}
+        >
+          <button onClick={handleToggle} style={buttonStyle}>
+            {selecting ? '✖ Done' : '☑ Select'}
+          </button>
+
+          {selecting && (
+            <div
+              style={{
+                backgroundColor: 'white',
+                border: '2px solid rgba(0,0,0,0.2)',
+                borderRadius: '4px',
+                padding: '8px',
+                width: '220px',
+                fontSize: '13px',
+                color: '#1f2937',
+              }}
+            >
+              <div style={{ fontWeight: 600 }}>{selectedIds.size} selected</div>
+              <div style={{ fontSize: '11px', color: '#6b7280', marginBottom: '6px' }}>
+                Drag a box or tap markers to select
+              </div>
+              <div style={{ display: 'flex', gap: '8px', marginBottom: '8px' }}>
+                <button
+                  onClick={() => onSelectionChange(new Set(recipients.map((r) => r.id)))}
+                  style={{ background: 'none', border: 'none', padding: 0, color: '#2563eb', cursor: 'pointer', fontSize: '12px' }}
+                >
+                  Select all filtered ({recipients.length})
+                </button>
+                {selectedIds.size > 0 && (
+                  <button
+                    onClick={() => onSelectionChange(new Set())}
+                    style={{ background: 'none', border: 'none', padding: 0, color: '#6b7280', cursor: 'pointer', fontSize: '12px' }}
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+              <div style={{ display: 'flex', gap: '4px' }}>
+                {statusActions.map(({ status, label }) => (
+                  <button
+                    key={status}
+                    onClick={() => handleStatus(status)}
+                    disabled={selectedIds.size === 0}
+                    style={{
+                      flex: 1,
+                      padding: '6px 4px',
+                      backgroundColor: STATUS_COLORS[status],
+                      color: 'white',
+                      fontSize: '12px',
+                      fontWeight: 500,
+                      borderRadius: '4px',
+                      border: 'none',
+                      cursor: selectedIds.size === 0 ? 'not-allowed' : 'pointer',
+                      opacity: selectedIds.size === 0 ? 0.5 : 1,
+                    }}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
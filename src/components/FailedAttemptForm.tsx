@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { MAX_REASON_LENGTH, STATUS_COLORS, type DeliveryStatus } from '@/lib/status';
+
+interface FailedAttemptFormProps {
+  statuses: DeliveryStatus[]; // Failed-attempt statuses the user may record for this recipient
+  onSubmit: (status: DeliveryStatus, reason: string) => void;
+}
+
+// "Couldn't deliver" in a marker popup: pick what happened and say why (the reason is required)
+export default function FailedAttemptForm({ statuses, onSubmit }: FailedAttemptFormProps) {
+  const [open, setOpen] = useState(false);
+  const [picked, setPicked] = useState<DeliveryStatus>(statuses[0]);
+  const [reason, setReason] = useState('');
+  // The allowed statuses change with the recipient's status; fall back if the pick no longer is one
+  const status = statuses.includes(picked) ? picked : statuses[0];
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        style={{
+          marginTop: '8px',
+          width: '100%',
+          padding: '6px 12px',
+          backgroundColor: 'white',
+          color: '#9a3412',
+          fontSize: '13px',
+          fontWeight: 500,
+          borderRadius: '4px',
+          border: '1px solid #fdba74',
+          cursor: 'pointer',
+        }}
+      >
+        ✖ Couldn&apos;t deliver
+      </button>
+    );
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+    onSubmit(status, reason.trim());
+    setOpen(false);
+    setReason('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+      <select
+        value={status}
+        onChange={(e) => setPicked(e.target.value as DeliveryStatus)}
+        style={{
+          padding: '4px',
+          border: `2px solid ${STATUS_COLORS[status]}`,
+          borderRadius: '4px',
+          fontSize: '13px',
+          color: '#1f2937',
+        }}
+      >
+        {statuses.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder={status === 'Rescheduled' ? 'New time, e.g. Sat after 4pm' : 'What happened?'}
+        maxLength={MAX_REASON_LENGTH}
+        required
+        autoFocus
+        style={{
+          padding: '4px 6px',
+          border: '1px solid #d1d5db',
+          borderRadius: '4px',
+          fontSize: '13px',
+          color: '#1f2937',
+        }}
+      />
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button
+          type="submit"
+          disabled={!reason.trim()}
+          style={{
+            flex: 1,
+            padding: '6px 12px',
+            backgroundColor: STATUS_COLORS[status],
+            color: 'white',
+            fontSize: '13px',
+            fontWeight: 500,
+            borderRadius: '4px',
+            border: 'none',
+            cursor: reason.trim() ? 'pointer' : 'not-allowed',
+            opacity: reason.trim() ? 1 : 0.5,
+          }}
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          style={{
+            padding: '6px 12px',
+            backgroundColor: 'white',
+            color: '#4b5563',
+            fontSize: '13px',
+            borderRadius: '4px',
+            border: '1px solid #d1d5db',
+            cursor: 'pointer',
+          }}
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import { MAX_NOTE_LENGTH, type FieldNote } from '@/lib/fieldNotes';
+
+interface FieldNotesProps {
+  notes: FieldNote[];
+  canAdd: boolean;
+  // Resolves to an error message, or null once the note is saved
+  onAdd: (text: string) => Promise<string | null>;
+}
+
+const COLLAPSED_NOTES = 3;
+
+// Drivers' notes in a marker popup, newest first, with a box to add one
+export default function FieldNotes({ notes, canAdd, onAdd }: FieldNotesProps) {
+  const [showAll, setShowAll] = useState(false);
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const newestFirst = [...notes].reverse();
+  const shown = showAll ? newestFirst : newestFirst.slice(0, COLLAPSED_NOTES);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+
+    setSaving(true);
+    setError('');
+    const failure = await onAdd(text.trim());
+    setSaving(false);
+
+    if (failure) {
+      setError(failure);
+    } else {
+      setText('');
+    }
+  };
+
+  if (notes.length === 0 && !canAdd) return null;
+
+  return (
+    <div style={{ marginBottom: '12px', fontSize: '12px', color: '#374151' }}>
+      {shown.map((note, index) => (
+        <div key={`${note.at}-${index}`} style={{ marginBottom: '4px' }}>
+          📝 {note.text}
+          {note.at && (
+            <div style={{ color: '#6b7280' }}>
+              {note.by} · {new Date(note.at).toLocaleString()}
+            </div>
+          )}
+        </div>
+      ))}
+      {notes.length > COLLAPSED_NOTES && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          style={{ background: 'none', border: 'none', padding: 0, color: '#2563eb', cursor: 'pointer', fontSize: '12px' }}
+        >
+          {showAll ? 'Show fewer notes' : `Show all ${notes.length} notes`}
+        </button>
+      )}
+
+      {canAdd && (
+        <form onSubmit={handleSubmit} style={{ display: 'flex', gap: '4px', marginTop: '4px' }}>
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Add a note for next time"
+            maxLength={MAX_NOTE_LENGTH}
+            style={{
+              flex: 1,
+              padding: '4px 6px',
+              border: '1px solid #d1d5db',
+              borderRadius: '4px',
+              fontSize: '12px',
+              color: '#1f2937',
+            }}
+          />
+          <button
+            type="submit"
+            disabled={!text.trim() || saving}
+            style={{
+              padding: '4px 8px',
+              backgroundColor: '#2563eb',
+              color: 'white',
+              fontSize: '12px',
+              borderRadius: '4px',
+              border: 'none',
+              cursor: text.trim() && !saving ? 'pointer' : 'not-allowed',
+              opacity: text.trim() && !saving ? 1 : 0.5,
+            }}
+          >
+            {saving ? '...' : 'Add'}
+          </button>
+        </form>
+      )}
+      {error && <div style={{ color: '#b91c1c', marginTop: '2px' }}>{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { useMemo } from 'react';
+import { MapContainer, TileLayer, Marker, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import type { LatLng } from '@/lib/routing';
+
+// Import Leaflet CSS
+import 'leaflet/dist/leaflet.css';
+
+interface LocationPickerProps {
+  value: LatLng | null; // Current pin, null if not placed yet
+  center: LatLng; // Where to open the map when there's no pin
+  onChange: (value: LatLng) => void;
+}
+
+const pinIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:24px;height:24px;border-radius:50% 50% 50% 0;background:#2563eb;border:3px solid white;transform:rotate(-45deg);box-shadow:0 1px 4px rgba(0,0,0,0.4);"></div>',
+  iconSize: [24, 24],
+  iconAnchor: [12, 24],
+});
+
+// Clicking the map moves the pin there
+function ClickToPlace({ onChange }: { onChange: (value: LatLng) => void }) {
+  useMapEvents({
+    click: (e) => onChange({ lat: e.latlng.lat, lng: e.latlng.lng }),
+  });
+  return null;
+}
+
+// Small map for placing a recipient by hand: drag the pin or click where it belongs
+export default function LocationPicker({ value, center, onChange }: LocationPickerProps) {
+  const eventHandlers = useMemo(
+    () => ({
+      dragend: (e: L.LeafletEvent) => {
+        const { lat, lng } = (e.target as L.Marker).getLatLng();
+        onChange({ lat, lng });
+      },
+    }),
+    [onChange]
+  );
+
+  const start = value ?? center;
+
+  return (
+    <MapContainer
+      center={[start.lat, start.lng]}
+      zoom={value ? 16 : 13}
+      style={{ height: '100%', width: '100%' }}
+    >
+      <TileLayer
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+      />
+      <ClickToPlace onChange={onChange} />
+      {value && (
+        <Marker
+          position={[value.lat, value.lng]}
+          icon={pinIcon}
+          draggable
+          eventHandlers={eventHandlers}
+        />
+      )}
+    </MapContainer>
+  );
+}
@@ -1,38 +1,23 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { MapContainer, TileLayer, useMap } from 'react-leaflet';
 import L from 'leaflet';
-import type { Recipient } from '@/lib/googleSheets';
+import BulkSelect from './BulkSelect';
+import type { ProofCapture } from './ProofOfDeliveryForm';
+import RecipientMarkers from './RecipientMarkers';
+import RoutePlanner, { type PlannedStops } from './RoutePlanner';
+import TripPlanner from './TripPlanner';
+import { isCoordinator, type Actor } from '@/lib/permissions';
+import type { Recipient } from '@/lib/recipientStore';
+import type { DeliveryStatus } from '@/lib/status';
+import type { LatLng } from '@/lib/routing';
 
 // Import Leaflet CSS
 import 'leaflet/dist/leaflet.css';
 
-// Color-coded icons for different statuses using inline SVG data URIs
-const createColoredIcon = (color: string) => {
-  const svg = `
-    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="32" height="32">
-      <circle cx="12" cy="12" r="10" fill="${color}" stroke="white" stroke-width="3"/>
-    </svg>
-  `;
-  const svgUrl = `data:image/svg+xml;base64,${btoa(svg)}`;
-  
-  return L.icon({
-    iconUrl: svgUrl,
-    iconSize: [32, 32],
-    iconAnchor: [16, 16],
-    popupAnchor: [0, -16],
-  });
-};
-
-const statusIcons = {
-  Pending: createColoredIcon('#ef4444'),
-  'On the way': createColoredIcon('#eab308'),
-  Delivered: createColoredIcon('#22c55e'),
-};
-
 // Locate Me button component
-function LocateControl() {
+function LocateControl({ onLocationFound }: { onLocationFound: (location: LatLng) => void }) {
   const map = useMap();
   const [locating, setLocating] = useState(false);
 
@@ -42,20 +27,23 @@ function LocateControl() {
   };
 
   useEffect(() => {
-    const onLocationFound = () => setLocating(false);
+    const handleLocationFound = (e: L.LocationEvent) => {
+      setLocating(false);
+      onLocationFound({ lat: e.latlng.lat, lng: e.latlng.lng });
+    };
     const onLocationError = () => {
       setLocating(false);
       alert('Could not get your location');
     };
 
-    map.on('locationfound', onLocationFound);
+    map.on('locationfound', handleLocationFound);
     map.on('locationerror', onLocationError);
 
     return () => {
-      map.off('locationfound', onLocationFound);
+      map.off('locationfound', handleLocationFound);
       map.off('locationerror', onLocationError);
     };
-  }, [map]);
+  }, [map, onLocationFound]);
 
   return (
     <div className="leaflet-bottom leaflet-right" style={{ marginBottom: '20px', marginRight: '10px' }}>
@@ -80,13 +68,95 @@ function LocateControl() {
   );
 }
 
+// A request to show one recipient; `at` makes tapping the same row twice fly there again
+export interface MapFocus {
+  id: string;
+  coordinates: LatLng;
+  at: number;
+}
+
+// Fly to the focused recipient, then report arrival so its marker (out of any cluster by now) opens its popup
+function FocusRecipient({ focus, onArrive }: { focus: MapFocus | null; onArrive: (focus: MapFocus) => void }) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!focus) return;
+
+    const arrive = () => onArrive(focus);
+    map.once('moveend', arrive);
+    map.flyTo([focus.coordinates.lat, focus.coordinates.lng], Math.max(map.getZoom(), 17));
+    return () => {
+      map.off('moveend', arrive);
+    };
+  }, [focus, map, onArrive]);
+
+  return null;
+}
+
+// Fit the map to the recipients when they first load and whenever the filters change (boundsKey),
+// but not on live updates, which would yank the map away from wherever the driver is looking
+function FitBounds({ recipients, boundsKey }: { recipients: Recipient[]; boundsKey: string }) {
+  const map = useMap();
+  const fittedKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (recipients.length === 0 || fittedKey.current === boundsKey) return;
+    fittedKey.current = boundsKey;
+    map.fitBounds(
+      L.latLngBounds(recipients.map((r) => [r.coordinates!.lat, r.coordinates!.lng])),
+      { padding: [40, 40], maxZoom: 17 }
+    );
+  }, [recipients, boundsKey, map]);
+
+  return null;
+}
+
 interface MapComponentProps {
   recipients: Recipient[];
-  onStatusUpdate: (id: string, status: 'Pending' | 'On the way' | 'Delivered') => void;
+  currentUser: Actor;
+  drivers: string[];
+  pendingSyncIds: Set<string>;
+  onStatusUpdate: (id: string, status: DeliveryStatus, reason?: string) => void;
+  onAssign: (id: string, driverName: string) => void;
+  onBulkStatusUpdate: (ids: string[], status: DeliveryStatus) => void;
+  onProofSubmit: (id: string, capture: ProofCapture) => Promise<string | null>;
+  onAddNote: (id: string, text: string) => Promise<string | null>;
+  focus: MapFocus | null;
+  boundsKey: string; // Changes when the filters do, to refit the map
+  readOnly: boolean; // Viewing a closed event
 }
 
-export default function MapComponent({ recipients, onStatusUpdate }: MapComponentProps) {
+export default function MapComponent({
+  recipients,
+  currentUser,
+  drivers,
+  pendingSyncIds,
+  onStatusUpdate,
+  onAssign,
+  onBulkStatusUpdate,
+  onProofSubmit,
+  onAddNote,
+  focus,
+  boundsKey,
+  readOnly,
+}: MapComponentProps) {
   const [isClient, setIsClient] = useState(false);
+  const [userLocation, setUserLocation] = useState<LatLng | null>(null);
+  const [route, setRoute] = useState<PlannedStops | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [arrived, setArrived] = useState<MapFocus | null>(null);
+  const validRecipients = useMemo(() => recipients.filter((r) => r.coordinates), [recipients]);
+
+  // Keep the selection to what the filters show, so a bulk update never reaches hidden recipients
+  const [selectionScope, setSelectionScope] = useState(recipients);
+  if (selectionScope !== recipients) {
+    setSelectionScope(recipients);
+    const visible = new Set(recipients.map((r) => r.id));
+    if ([...selectedIds].some((id) => !visible.has(id))) {
+      setSelectedIds(new Set([...selectedIds].filter((id) => visible.has(id))));
+    }
+  }
 
   useEffect(() => {
     setIsClient(true);
@@ -101,7 +171,6 @@ export default function MapComponent({ recipients, onStatusUpdate }: MapComponen
   }
 
   // Calculate center from recipients or use default
-  const validRecipients = recipients.filter((r) => r.coordinates);
   const defaultCenter: [number, number] = validRecipients.length > 0
     ? [validRecipients[0].coordinates!.lat, validRecipients[0].coordinates!.lng]
     : [0, 0];
@@ -117,134 +186,42 @@ export default function MapComponent({ recipients, onStatusUpdate }: MapComponen
         url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
       />
       
-      <LocateControl />
+      <LocateControl onLocationFound={setUserLocation} />
 
-      {validRecipients.map((recipient) => (
-        <Marker
-          key={recipient.id}
-          position={[recipient.coordinates!.lat, recipient.coordinates!.lng]}
-          icon={statusIcons[recipient.status] || statusIcons.Pending}
-        >
-          <Popup>
-            <div style={{ minWidth: '200px', padding: '4px' }}>
-              {/* Recipient Type with color coding */}
-              <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
-                <span
-                  style={{
-                    display: 'inline-block',
-                    width: '12px',
-                    height: '12px',
-                    borderRadius: '50%',
-                    backgroundColor: recipient.recipientType.toLowerCase().includes('girl')
-                      ? '#ec4899'
-                      : '#3b82f6',
-                  }}
-                />
-                <span style={{ fontWeight: 600, color: '#1f2937' }}>
-                  {recipient.recipientType}
-                </span>
-              </div>
-
-              {/* Faculty */}
-              <div style={{ fontSize: '14px', color: '#4b5563', marginBottom: '8px' }}>
-                📚 {recipient.faculty}
-              </div>
-
-              {/* Parcels - Large & Bold */}
-              <div style={{ fontSize: '28px', fontWeight: 700, color: '#111827', marginBottom: '8px' }}>
-                {recipient.parcels} <span style={{ fontSize: '14px', fontWeight: 400 }}>parcels</span>
-              </div>
-
-              {/* Phone - Click to call */}
-              {recipient.phone && (
-                <a
-                  href={`tel:${recipient.phone}`}
-                  style={{ display: 'block', color: '#2563eb', marginBottom: '4px' }}
-                >
-                  📞 {recipient.phone}
-                </a>
-              )}
-
-              {/* Secondary Phone - Click to call */}
-              {recipient.secondaryPhone && (
-                <a
-                  href={`tel:${recipient.secondaryPhone}`}
-                  style={{ display: 'block', color: '#2563eb', marginBottom: '12px' }}
-                >
-                  📱 {recipient.secondaryPhone}
-                </a>
-              )}
-
-              {/* Status Badge */}
-              <div style={{ marginBottom: '12px' }}>
-                <span
-                  style={{
-                    display: 'inline-block',
-                    padding: '4px 8px',
-                    borderRadius: '4px',
-                    fontSize: '12px',
-                    fontWeight: 500,
-                    backgroundColor:
-                      recipient.status === 'Pending'
-                        ? '#fef2f2'
-                        : recipient.status === 'On the way'
-                        ? '#fefce8'
-                        : '#f0fdf4',
-                    color:
-                      recipient.status === 'Pending'
-                        ? '#991b1b'
-                        : recipient.status === 'On the way'
-                        ? '#854d0e'
-                        : '#166534',
-                  }}
-                >
-                  {recipient.status}
-                </span>
-              </div>
-
-              {/* Action Buttons */}
-              <div style={{ display: 'flex', gap: '8px' }}>
-                {recipient.status !== 'On the way' && (
-                  <button
-                    onClick={() => onStatusUpdate(recipient.id, 'On the way')}
-                    style={{
-                      flex: 1,
-                      padding: '8px 12px',
-                      backgroundColor: '#eab308',
-                      color: 'white',
-                      fontSize: '14px',
-                      fontWeight: 500,
-                      borderRadius: '4px',
-                      border: 'none',
-                      cursor: 'pointer',
-                    }}
-                  >
-                    In Progress
-                  </button>
-                )}
-                {recipient.status !== 'Delivered' && (
-                  <button
-                    onClick={() => onStatusUpdate(recipient.id, 'Delivered')}
-                    style={{
-                      flex: 1,
-                      padding: '8px 12px',
-                      backgroundColor: '#22c55e',
-                      color: 'white',
-                      fontSize: '14px',
-                      fontWeight: 500,
-                      borderRadius: '4px',
-                      border: 'none',
-                      cursor: 'pointer',
-                    }}
-                  >
-                    Delivered
-                  </button>
-                )}
-              </div>
-            </div>
-          </Popup>
-        </Marker>
-      ))}
+      <RoutePlanner
+        recipients={validRecipients}
+        userLocation={userLocation}
+        route={route}
+        onRouteChange={setRoute}
+      />
+
+      <TripPlanner recipients={validRecipients} currentUser={currentUser} drivers={drivers} />
+
+      <FitBounds recipients={validRecipients} boundsKey={boundsKey} />
+
+      <FocusRecipient focus={focus} onArrive={setArrived} />
+
+      {isCoordinator(currentUser) && !readOnly && (
+        <BulkSelect
+          recipients={recipients}
+          selecting={selecting}
+          onSelectingChange={setSelecting}
+          selectedIds={selectedIds}
+          onSelectionChange={setSelectedIds}
+          onBulkStatusUpdate={onBulkStatusUpdate}
+        />
+      )}
+
+      <RecipientMarkers
+        recipients={validRecipients}
+        actions={{ currentUser, drivers, onStatusUpdate, onAssign, onProofSubmit, onAddNote, readOnly }}
+        pendingSyncIds={pendingSyncIds}
+        route={route}
+        selecting={selecting}
+        selectedIds={selectedIds}
+        onSelectionChange={setSelectedIds}
+        openRequest={arrived}
+      />
     </MapContainer>
   );
 }
@@ -0,0 +1,157 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import SignaturePad from './SignaturePad';
+
+// What the driver captured; at least one is set
+export interface ProofCapture {
+  photo?: File;
+  signature?: Blob;
+  code?: string;
+}
+
+interface ProofOfDeliveryFormProps {
+  hasConfirmationCode: boolean;
+  // Resolves to an error message, or null once the delivery is recorded
+  onSubmit: (capture: ProofCapture) => Promise<string | null>;
+}
+
+const fieldLabelStyle = { fontSize: '12px', color: '#4b5563', marginBottom: '2px' };
+
+// "Delivered with proof" in a marker popup: a photo, a signature and/or the recipient's code.
+// Needs a connection; the plain Delivered button still works offline.
+export default function ProofOfDeliveryForm({ hasConfirmationCode, onSubmit }: ProofOfDeliveryFormProps) {
+  const [open, setOpen] = useState(false);
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [signed, setSigned] = useState(false);
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        style={{
+          marginTop: '8px',
+          width: '100%',
+          padding: '6px 12px',
+          backgroundColor: 'white',
+          color: '#166534',
+          fontSize: '13px',
+          fontWeight: 500,
+          borderRadius: '4px',
+          border: '1px solid #86efac',
+          cursor: 'pointer',
+        }}
+      >
+        📷 Delivered with proof
+      </button>
+    );
+  }
+
+  const hasProof = Boolean(photo || signed || code.trim());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasProof) return;
+
+    setSubmitting(true);
+    setError('');
+    const signature = signed
+      ? await new Promise<Blob | null>((resolve) => canvasRef.current ? canvasRef.current.toBlob(resolve, 'image/png') : resolve(null))
+      : null;
+
+    const failure = await onSubmit({
+      ...(photo && { photo }),
+      ...(signature && { signature }),
+      ...(code.trim() && { code: code.trim() }),
+    });
+    setSubmitting(false);
+
+    if (failure) {
+      setError(failure);
+    } else {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      <label>
+        <div style={fieldLabelStyle}>Photo</div>
+        <input
+          type="file"
+          accept="image/*"
+          capture="environment"
+          onChange={(e) => setPhoto(e.target.files?.[0] ?? null)}
+          style={{ fontSize: '12px', maxWidth: '220px' }}
+        />
+      </label>
+
+      <div>
+        <div style={fieldLabelStyle}>Signature (optional)</div>
+        <SignaturePad width={220} height={90} canvasRef={canvasRef} onChange={setSigned} />
+      </div>
+
+      {hasConfirmationCode && (
+        <label>
+          <div style={fieldLabelStyle}>Code the recipient reads out</div>
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            autoComplete="off"
+            style={{
+              width: '100%',
+              padding: '4px 6px',
+              border: '1px solid #d1d5db',
+              borderRadius: '4px',
+              fontSize: '13px',
+              color: '#1f2937',
+            }}
+          />
+        </label>
+      )}
+
+      {error && <div style={{ fontSize: '12px', color: '#b91c1c' }}>{error}</div>}
+
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button
+          type="submit"
+          disabled={!hasProof || submitting}
+          style={{
+            flex: 1,
+            padding: '6px 12px',
+            backgroundColor: '#22c55e',
+            color: 'white',
+            fontSize: '13px',
+            fontWeight: 500,
+            borderRadius: '4px',
+            border: 'none',
+            cursor: hasProof && !submitting ? 'pointer' : 'not-allowed',
+            opacity: hasProof && !submitting ? 1 : 0.5,
+          }}
+        >
+          {submitting ? 'Saving...' : 'Mark Delivered'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          style={{
+            padding: '6px 12px',
+            backgroundColor: 'white',
+            color: '#4b5563',
+            fontSize: '13px',
+            borderRadius: '4px',
+            border: '1px solid #d1d5db',
+            cursor: 'pointer',
+          }}
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
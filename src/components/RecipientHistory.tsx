@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import type { StatusChange } from '@/lib/recipientStore';
+
+// Collapsible status history for a marker popup; loads on first expand
+export default function RecipientHistory({ recipientId }: { recipientId: string }) {
+  const [open, setOpen] = useState(false);
+  const [history, setHistory] = useState<StatusChange[] | null>(null);
+  const [error, setError] = useState('');
+
+  const handleToggle = async () => {
+    const nextOpen = !open;
+    setOpen(nextOpen);
+    if (!nextOpen || history) return;
+
+    try {
+      const response = await fetch(`/api/recipients/${encodeURIComponent(recipientId)}/history`);
+      if (!response.ok) {
+        setError('Could not load history');
+        return;
+      }
+      const data = await response.json();
+      setHistory(data.history);
+      setError('');
+    } catch {
+      setError('Could not load history');
+    }
+  };
+
+  return (
+    <div style={{ marginTop: '12px', borderTop: '1px solid #e5e7eb', paddingTop: '8px' }}>
+      <button
+        onClick={handleToggle}
+        style={{
+          background: 'none',
+          border: 'none',
+          padding: 0,
+          color: '#4b5563',
+          fontSize: '13px',
+          cursor: 'pointer',
+        }}
+      >
+        🕘 History {open ? '▲' : '▼'}
+      </button>
+
+      {open && (
+        <div style={{ marginTop: '6px', fontSize: '12px', color: '#374151', maxHeight: '150px', overflowY: 'auto' }}>
+          {error && <div style={{ color: '#b91c1c' }}>{error}</div>}
+          {!error && !history && <div>Loading...</div>}
+          {history && history.length === 0 && <div>No status changes yet</div>}
+          {history && [...history].reverse().map((change) => (
+            <div key={`${change.timestamp}-${change.newStatus}`} style={{ marginBottom: '6px' }}>
+              <div>
+                <strong>{change.oldStatus} → {change.newStatus}</strong> by {change.driver}
+              </div>
+              {change.reason && <div>💬 {change.reason}</div>}
+              <div style={{ color: '#6b7280' }}>
+                {new Date(change.timestamp).toLocaleString()}
+                {change.position && (
+                  <>
+                    {' · '}
+                    <a
+                      href={`https://www.openstreetmap.org/?mlat=${change.position.lat}&mlon=${change.position.lng}#map=18/${change.position.lat}/${change.position.lng}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      style={{ color: '#2563eb' }}
+                    >
+                      where
+                    </a>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
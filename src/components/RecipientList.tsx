@@ -0,0 +1,107 @@
+'use client';
+
+import { useMemo } from 'react';
+import { distanceFrom, sortRecipients, type RecipientSort } from '@/lib/recipientSearch';
+import type { Recipient } from '@/lib/recipientStore';
+import type { LatLng } from '@/lib/routing';
+import { STATUS_COLORS } from '@/lib/status';
+
+interface RecipientListProps {
+  recipients: Recipient[]; // Already filtered and searched
+  sort: RecipientSort;
+  onSortChange: (sort: RecipientSort) => void;
+  position: LatLng | null; // The driver's last GPS fix, for distances
+  locating: boolean;
+  pendingSyncIds: Set<string>;
+  onSelect: (id: string) => void; // Show this recipient on the map
+}
+
+const sortLabels: Record<RecipientSort, string> = {
+  id: 'ID',
+  distance: 'Distance from me',
+  parcels: 'Parcels',
+  status: 'Status',
+};
+
+function formatDistance(km: number): string {
+  return km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+}
+
+// The filtered recipients as a list, for finding someone by name or number rather than by pin
+export default function RecipientList({
+  recipients,
+  sort,
+  onSortChange,
+  position,
+  locating,
+  pendingSyncIds,
+  onSelect,
+}: RecipientListProps) {
+  const sorted = useMemo(() => sortRecipients(recipients, sort, position), [recipients, sort, position]);
+
+  return (
+    <div className="h-full w-full overflow-y-auto bg-zinc-900 text-white">
+      <div className="sticky top-0 bg-zinc-900 border-b border-zinc-800 px-4 py-2 flex items-center gap-2 text-sm">
+        <label htmlFor="list-sort" className="text-zinc-300">Sort by:</label>
+        <select
+          id="list-sort"
+          value={sort}
+          onChange={(e) => onSortChange(e.target.value as RecipientSort)}
+          className="bg-zinc-700 border border-zinc-600 rounded px-2 py-1 text-white text-sm"
+        >
+          {(Object.keys(sortLabels) as RecipientSort[]).map((key) => (
+            <option key={key} value={key}>{sortLabels[key]}</option>
+          ))}
+        </select>
+        {sort === 'distance' && locating && <span className="text-zinc-400">Finding you…</span>}
+        {sort === 'distance' && !locating && !position && (
+          <span className="text-amber-300">Location unavailable</span>
+        )}
+        <span className="ml-auto text-zinc-400">{recipients.length} shown</span>
+      </div>
+
+      {sorted.length === 0 && (
+        <div className="px-4 py-6 text-zinc-400 text-sm">No recipients match the filters.</div>
+      )}
+
+      <ul>
+        {sorted.map((recipient) => {
+          const distance = distanceFrom(position, recipient);
+          return (
+            <li key={recipient.id} className="border-b border-zinc-800">
+              <button
+                onClick={() => onSelect(recipient.id)}
+                disabled={!recipient.coordinates}
+                className="w-full text-left px-4 py-3 flex items-center gap-3 hover:bg-zinc-800 disabled:cursor-default disabled:hover:bg-transparent"
+              >
+                <span
+                  className="w-3 h-3 rounded-full shrink-0"
+                  style={{ backgroundColor: STATUS_COLORS[recipient.status] }}
+                  title={recipient.status}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{recipient.id}</span>
+                    <span className="text-xs text-zinc-400">{recipient.status}</span>
+                    {pendingSyncIds.has(recipient.id) && <span className="text-xs text-sky-300">⏳</span>}
+                  </div>
+                  <div className="text-xs text-zinc-400 truncate">
+                    {[recipient.faculty, recipient.phone, recipient.assignedDriver && `🚚 ${recipient.assignedDriver}`]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </div>
+                </div>
+                <div className="text-right shrink-0">
+                  <div className="font-semibold">{recipient.parcels} <span className="text-xs font-normal text-zinc-400">parcels</span></div>
+                  <div className="text-xs text-zinc-400">
+                    {!recipient.coordinates ? 'Not on map' : distance !== null ? formatDistance(distance) : ''}
+                  </div>
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
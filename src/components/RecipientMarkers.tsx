@@ -0,0 +1,385 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import RecipientPopup, { type RecipientActions } from './RecipientPopup';
+import type { PlannedStops } from './RoutePlanner';
+import { clusterPoints, countStatuses, groupColocated, type LocatedGroup } from '@/lib/clustering';
+import type { Recipient } from '@/lib/recipientStore';
+import { DELIVERY_STATUSES, STATUS_COLORS, type DeliveryStatus } from '@/lib/status';
+
+// Above this zoom every group gets its own marker, so a flown-to recipient is never hidden in a badge
+export const CLUSTER_MAX_ZOOM = 16;
+const CLUSTER_RADIUS_PX = 60;
+
+// Color-coded icons for different statuses using inline SVG data URIs
+// Unsynced changes get a small blue dot in the corner
+const createColoredIcon = (color: string, pendingSync = false) => {
+  const svg = `
+    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="32" height="32">
+      <circle cx="12" cy="12" r="10" fill="${color}" stroke="white" stroke-width="3"/>
+      ${pendingSync ? '<circle cx="20" cy="4" r="4" fill="#0ea5e9" stroke="white" stroke-width="1.5"/>' : ''}
+    </svg>
+  `;
+  const svgUrl = `data:image/svg+xml;base64,${btoa(svg)}`;
+
+  return L.icon({
+    iconUrl: svgUrl,
+    iconSize: [32, 32],
+    iconAnchor: [16, 16],
+    popupAnchor: [0, -16],
+  });
+};
+
+const createStatusIcons = (pendingSync: boolean) =>
+  Object.fromEntries(
+    DELIVERY_STATUSES.map((status) => [status, createColoredIcon(STATUS_COLORS[status], pendingSync)])
+  ) as Record<DeliveryStatus, L.Icon>;
+
+const statusIcons = createStatusIcons(false);
+const pendingSyncIcons = createStatusIcons(true);
+
+// Numbered markers for stops on a planned route, cached so markers don't re-render needlessly
+const numberedIconCache = new Map<string, L.DivIcon>();
+
+const getNumberedIcon = (label: string, color: string) => {
+  const key = `${label}-${color}`;
+  let icon = numberedIconCache.get(key);
+  if (!icon) {
+    // Round for one number, a pill wide enough for a range like "12–14"
+    const width = Math.max(28, label.length * 8 + 12);
+    icon = L.divIcon({
+      className: '',
+      html: `<div style="width:${width}px;height:28px;border-radius:14px;background:${color};border:3px solid white;box-shadow:0 0 0 2px #2563eb;color:white;font:700 13px/22px sans-serif;text-align:center;box-sizing:border-box;">${label}</div>`,
+      iconSize: [width, 28],
+      iconAnchor: [width / 2, 14],
+      popupAnchor: [0, -14],
+    });
+    numberedIconCache.set(key, icon);
+  }
+  return icon;
+};
+
+// Markers picked for a bulk change get a blue ring
+const selectedIconCache = new Map<string, L.DivIcon>();
+
+const getSelectedIcon = (color: string) => {
+  let icon = selectedIconCache.get(color);
+  if (!icon) {
+    icon = L.divIcon({
+      className: '',
+      html: `<div style="width:26px;height:26px;border-radius:50%;background:${color};border:3px solid white;box-shadow:0 0 0 3px #2563eb;"></div>`,
+      iconSize: [26, 26],
+      iconAnchor: [13, 13],
+    });
+    selectedIconCache.set(color, icon);
+  }
+  return icon;
+};
+
+// A round badge with the count in the middle and a ring split by status, e.g. mostly green
+// when most are delivered. Cached by size and counts, since many badges look the same.
+const badgeIconCache = new Map<string, L.DivIcon>();
+
+const getBadgeIcon = (recipients: Recipient[], options: { size: number; square?: boolean; ring?: string }) => {
+  const counts = countStatuses(recipients);
+  const key = `${options.size}-${options.square ?? false}-${options.ring ?? ''}-${JSON.stringify(counts)}`;
+  let icon = badgeIconCache.get(key);
+  if (!icon) {
+    let start = 0;
+    const segments = DELIVERY_STATUSES.filter((status) => counts[status]).map((status) => {
+      const end = start + (counts[status]! / recipients.length) * 100;
+      const segment = `${STATUS_COLORS[status]} ${start}% ${end}%`;
+      start = end;
+      return segment;
+    });
+    const radius = options.square ? '8px' : '50%';
+    const { size } = options;
+    icon = L.divIcon({
+      className: '',
+      html: `<div style="width:${size}px;height:${size}px;border-radius:${radius};background:conic-gradient(${segments.join(',')});padding:4px;box-sizing:border-box;${options.ring ? `box-shadow:0 0 0 3px ${options.ring};` : ''}"><div style="width:100%;height:100%;border-radius:${radius};background:white;color:#111827;font:700 13px/${size - 8}px sans-serif;text-align:center;">${recipients.length}</div></div>`,
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2],
+      popupAnchor: [0, -size / 2],
+    });
+    badgeIconCache.set(key, icon);
+  }
+  return icon;
+};
+
+// Route stop numbers of everyone at one spot: "4", "4–6" when they're consecutive, else "4,9"
+function describeStops(numbers: number[]): string {
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const consecutive = sorted.every((n, i) => i === 0 || n === sorted[i - 1] + 1);
+  if (sorted.length === 1) return String(sorted[0]);
+  return consecutive ? `${sorted[0]}–${sorted[sorted.length - 1]}` : sorted.join(',');
+}
+
+// "3 Delivered, 2 Pending" for a badge's tooltip
+function describeCounts(recipients: Recipient[]): string {
+  const counts = countStatuses(recipients);
+  return DELIVERY_STATUSES.filter((status) => counts[status]).map((status) => `${counts[status]} ${status}`).join(', ');
+}
+
+interface GroupMarkerProps {
+  group: LocatedGroup;
+  actions: RecipientActions;
+  pendingSyncIds: Set<string>;
+  stopNumbers: Map<string, number>; // Position of each recipient on the planned route
+  selecting: boolean;
+  selectedIds: Set<string>;
+  onSelectionChange: (ids: Set<string>) => void;
+  openRequest: { id: string; at: number } | null; // Open the popup at this recipient
+}
+
+// One marker for a recipient, or for everyone at the same building. The popup's content is only
+// rendered while it's open, so hundreds of markers cost hundreds of icons rather than forms.
+function GroupMarker({
+  group,
+  actions,
+  pendingSyncIds,
+  stopNumbers,
+  selecting,
+  selectedIds,
+  onSelectionChange,
+  openRequest,
+}: GroupMarkerProps) {
+  const markerRef = useRef<L.Marker>(null);
+  const [open, setOpen] = useState(false);
+  // Which member the popup shows in full; null lists them all
+  const [shownId, setShownId] = useState<string | null>(null);
+  const { recipients } = group;
+  const single = recipients.length === 1 ? recipients[0] : null;
+
+  // The recipient to show when the popup next opens, if it was opened for them
+  const requestedRef = useRef<string | null>(null);
+
+  const request = openRequest && recipients.some((r) => r.id === openRequest.id) ? openRequest : null;
+  useEffect(() => {
+    if (!request) return;
+    requestedRef.current = request.id;
+    markerRef.current?.openPopup();
+  }, [request]);
+
+  const position: [number, number] = [group.center.lat, group.center.lng];
+  const allSelected = recipients.every((r) => selectedIds.has(r.id));
+
+  // While selecting, a tap toggles the marker (every recipient at the building) instead of opening its popup
+  if (selecting) {
+    const color = STATUS_COLORS[recipients[0].status] || STATUS_COLORS.Pending;
+    return (
+      <Marker
+        position={position}
+        icon={single
+          ? (allSelected ? getSelectedIcon(color) : statusIcons[single.status] || statusIcons.Pending)
+          : getBadgeIcon(recipients, { size: 34, square: true, ring: allSelected ? '#2563eb' : undefined })}
+        eventHandlers={{
+          click: () => {
+            const next = new Set(selectedIds);
+            for (const recipient of recipients) {
+              if (allSelected) next.delete(recipient.id);
+              else next.add(recipient.id);
+            }
+            onSelectionChange(next);
+          },
+        }}
+      />
+    );
+  }
+
+  // Stops on the planned route keep their numbers, a range when several share the spot
+  const onRoute = recipients.filter((r) => stopNumbers.has(r.id));
+  const firstStop = onRoute.reduce<Recipient | null>(
+    (first, r) => (!first || stopNumbers.get(r.id)! < stopNumbers.get(first.id)! ? r : first),
+    null
+  );
+
+  const icon = firstStop
+    ? getNumberedIcon(describeStops(onRoute.map((r) => stopNumbers.get(r.id)!)), STATUS_COLORS[firstStop.status] || STATUS_COLORS.Pending)
+    : !single
+      ? getBadgeIcon(recipients, { size: 34, square: true })
+      : (pendingSyncIds.has(single.id) ? pendingSyncIcons : statusIcons)[single.status] || statusIcons.Pending;
+
+  const shown = single ?? recipients.find((r) => r.id === shownId) ?? null;
+
+  return (
+    <Marker
+      ref={markerRef}
+      position={position}
+      icon={icon}
+      title={single ? undefined : `${recipients.length} recipients here: ${describeCounts(recipients)}`}
+      eventHandlers={{
+        popupopen: () => {
+          setOpen(true);
+          setShownId(requestedRef.current);
+          requestedRef.current = null;
+        },
+        popupclose: () => {
+          setOpen(false);
+          setShownId(null);
+        },
+      }}
+    >
+      <Popup>
+        {open && shown && (
+          <>
+            {!single && (
+              <button
+                onClick={() => setShownId(null)}
+                style={{ background: 'none', border: 'none', padding: 0, marginBottom: '6px', color: '#2563eb', cursor: 'pointer', fontSize: '12px' }}
+              >
+                ← Everyone here ({recipients.length})
+              </button>
+            )}
+            <RecipientPopup recipient={shown} pendingSync={pendingSyncIds.has(shown.id)} {...actions} />
+          </>
+        )}
+        {open && !shown && (
+          <div style={{ minWidth: '200px', padding: '4px' }}>
+            <div style={{ fontWeight: 600, color: '#1f2937', marginBottom: '8px' }}>
+              {recipients.length} recipients at this spot
+            </div>
+            {recipients.map((recipient) => (
+              <button
+                key={recipient.id}
+                onClick={() => setShownId(recipient.id)}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  width: '100%',
+                  padding: '6px 4px',
+                  background: 'none',
+                  border: 'none',
+                  borderTop: '1px solid #e5e7eb',
+                  cursor: 'pointer',
+                  textAlign: 'left',
+                  fontSize: '13px',
+                  color: '#1f2937',
+                }}
+              >
+                <span
+                  style={{
+                    width: '10px',
+                    height: '10px',
+                    borderRadius: '50%',
+                    flexShrink: 0,
+                    backgroundColor: STATUS_COLORS[recipient.status],
+                  }}
+                />
+                {stopNumbers.has(recipient.id) && (
+                  <span style={{ color: '#2563eb', fontWeight: 700 }}>#{stopNumbers.get(recipient.id)}</span>
+                )}
+                <span style={{ fontWeight: 600 }}>{recipient.id}</span>
+                <span style={{ color: '#6b7280', flex: 1 }}>{recipient.status}</span>
+                <span>{recipient.parcels} 📦</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </Popup>
+    </Marker>
+  );
+}
+
+interface RecipientMarkersProps {
+  recipients: Recipient[]; // Those with coordinates
+  actions: RecipientActions;
+  pendingSyncIds: Set<string>;
+  route: PlannedStops | null;
+  selecting: boolean;
+  selectedIds: Set<string>;
+  onSelectionChange: (ids: Set<string>) => void;
+  openRequest: { id: string; at: number } | null;
+}
+
+// All the recipient markers: same-building recipients share one marker, and markers close
+// together on screen become a badge counting them by status until zoomed in past
+// CLUSTER_MAX_ZOOM. Only what's in (or near) the viewport is rendered.
+export default function RecipientMarkers({
+  recipients,
+  actions,
+  pendingSyncIds,
+  route,
+  selecting,
+  selectedIds,
+  onSelectionChange,
+  openRequest,
+}: RecipientMarkersProps) {
+  const map = useMap();
+  const [view, setView] = useState(() => ({ zoom: map.getZoom(), bounds: map.getBounds() }));
+
+  useMapEvents({
+    moveend: () => setView({ zoom: map.getZoom(), bounds: map.getBounds() }),
+  });
+
+  const groups = useMemo(() => groupColocated(recipients), [recipients]);
+
+  // Route stops keep their numbered markers instead of disappearing into a badge
+  const stopNumbers = useMemo(
+    () => new Map((route?.stopIds ?? []).map((id, index) => [id, index + 1])),
+    [route]
+  );
+
+  const clusters = useMemo(() => {
+    const onRoute = (group: LocatedGroup) => group.recipients.some((r) => stopNumbers.has(r.id));
+    const unclustered = view.zoom > CLUSTER_MAX_ZOOM ? groups : groups.filter(onRoute);
+    const clusterable = view.zoom > CLUSTER_MAX_ZOOM ? [] : groups.filter((group) => !onRoute(group));
+
+    const points = clusterable.map((group) => ({ ...map.project([group.center.lat, group.center.lng], view.zoom), item: group }));
+    return [
+      ...unclustered.map((group) => ({ groups: [group], center: group.center })),
+      ...clusterPoints(points, CLUSTER_RADIUS_PX).map((cluster) => ({
+        groups: cluster.items,
+        center: cluster.items.length === 1 ? cluster.items[0].center : map.unproject([cluster.x, cluster.y], view.zoom),
+      })),
+    ];
+  }, [groups, stopNumbers, map, view.zoom]);
+
+  // A margin around the viewport so markers don't pop in at the edges while panning
+  const visibleArea = view.bounds.pad(0.5);
+
+  return (
+    <>
+      {clusters
+        .filter(({ center }) => visibleArea.contains([center.lat, center.lng]))
+        .map(({ groups: members, center }) => {
+          if (members.length === 1) {
+            const group = members[0];
+            return (
+              <GroupMarker
+                key={group.key}
+                group={group}
+                actions={actions}
+                pendingSyncIds={pendingSyncIds}
+                stopNumbers={stopNumbers}
+                selecting={selecting}
+                selectedIds={selectedIds}
+                onSelectionChange={onSelectionChange}
+                openRequest={openRequest}
+              />
+            );
+          }
+
+          const clustered = members.flatMap((group) => group.recipients);
+          return (
+            <Marker
+              key={`cluster-${members[0].key}`}
+              position={[center.lat, center.lng]}
+              icon={getBadgeIcon(clustered, { size: clustered.length >= 100 ? 48 : 40 })}
+              title={describeCounts(clustered)}
+              eventHandlers={{
+                // Zoom in until the members separate
+                click: () =>
+                  map.fitBounds(
+                    L.latLngBounds(members.map((group) => [group.center.lat, group.center.lng])),
+                    { padding: [40, 40], maxZoom: CLUSTER_MAX_ZOOM + 1 }
+                  ),
+              }}
+            />
+          );
+        })}
+    </>
+  );
+}
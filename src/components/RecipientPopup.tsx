@@ -0,0 +1,307 @@
+'use client';
+
+import FailedAttemptForm from './FailedAttemptForm';
+import FieldNotes from './FieldNotes';
+import ProofOfDeliveryForm, { type ProofCapture } from './ProofOfDeliveryForm';
+import RecipientHistory from './RecipientHistory';
+import { canAddNote, canAssign, canChangeStatus, type Actor } from '@/lib/permissions';
+import type { Recipient } from '@/lib/recipientStore';
+import { FAILED_STATUSES, type DeliveryStatus } from '@/lib/status';
+
+// Status badge in the popup: light background, dark text
+const statusBadgeColors: Record<DeliveryStatus, { background: string; text: string }> = {
+  Pending: { background: '#fef2f2', text: '#991b1b' },
+  'On the way': { background: '#fefce8', text: '#854d0e' },
+  Delivered: { background: '#f0fdf4', text: '#166534' },
+  'Not home': { background: '#fff7ed', text: '#9a3412' },
+  'Wrong address': { background: '#faf5ff', text: '#6b21a8' },
+  Refused: { background: '#f8fafc', text: '#334155' },
+  Rescheduled: { background: '#f0fdfa', text: '#115e59' },
+};
+
+// Who is looking at the popup and what they can do from it, shared by every marker
+export interface RecipientActions {
+  currentUser: Actor;
+  drivers: string[];
+  onStatusUpdate: (id: string, status: DeliveryStatus, reason?: string) => void;
+  onAssign: (id: string, driverName: string) => void;
+  onProofSubmit: (id: string, capture: ProofCapture) => Promise<string | null>;
+  onAddNote: (id: string, text: string) => Promise<string | null>;
+  readOnly: boolean; // A closed event: details only, nothing can be changed
+}
+
+interface RecipientPopupProps extends RecipientActions {
+  recipient: Recipient;
+  pendingSync: boolean;
+}
+
+// Everything about one recipient in a marker's popup: contact details, notes, status and the actions allowed
+export default function RecipientPopup({
+  recipient,
+  pendingSync,
+  currentUser,
+  drivers,
+  onStatusUpdate,
+  onAssign,
+  onProofSubmit,
+  onAddNote,
+  readOnly,
+}: RecipientPopupProps) {
+  const mayChangeStatus = (status: DeliveryStatus) => !readOnly && canChangeStatus(currentUser, recipient, status);
+
+  return (
+    <div style={{ minWidth: '200px', padding: '4px' }}>
+      {/* Recipient Type with color coding */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
+        <span
+          style={{
+            display: 'inline-block',
+            width: '12px',
+            height: '12px',
+            borderRadius: '50%',
+            backgroundColor: recipient.recipientType.toLowerCase().includes('girl')
+              ? '#ec4899'
+              : '#3b82f6',
+          }}
+        />
+        <span style={{ fontWeight: 600, color: '#1f2937' }}>
+          {recipient.recipientType}
+        </span>
+      </div>
+
+      {/* Coordinator's instructions, where the driver can't miss them */}
+      {recipient.instructions && (
+        <div
+          style={{
+            fontSize: '13px',
+            fontWeight: 500,
+            color: '#78350f',
+            backgroundColor: '#fef3c7',
+            border: '1px solid #fcd34d',
+            borderRadius: '4px',
+            padding: '6px 8px',
+            marginBottom: '8px',
+            whiteSpace: 'pre-wrap',
+          }}
+        >
+          ⚠️ {recipient.instructions}
+        </div>
+      )}
+
+      {/* Faculty */}
+      <div style={{ fontSize: '14px', color: '#4b5563', marginBottom: '8px' }}>
+        📚 {recipient.faculty}
+      </div>
+
+      {/* Located from the address rather than a map link */}
+      {recipient.geocodeConfidence && (
+        <div
+          style={{
+            fontSize: '12px',
+            color: recipient.geocodeConfidence === 'high' ? '#4b5563' : '#b45309',
+            marginBottom: '8px',
+          }}
+          title={recipient.address}
+        >
+          📍 Located from address ({recipient.geocodeConfidence} confidence)
+        </div>
+      )}
+
+      {/* Parcels - Large & Bold */}
+      <div style={{ fontSize: '28px', fontWeight: 700, color: '#111827', marginBottom: '8px' }}>
+        {recipient.parcels} <span style={{ fontSize: '14px', fontWeight: 400 }}>parcels</span>
+      </div>
+
+      {/* Phone - Click to call */}
+      {recipient.phone && (
+        <a
+          href={`tel:${recipient.phone}`}
+          style={{ display: 'block', color: '#2563eb', marginBottom: '4px' }}
+        >
+          📞 {recipient.phone}
+        </a>
+      )}
+
+      {/* Secondary Phone - Click to call */}
+      {recipient.secondaryPhone && (
+        <a
+          href={`tel:${recipient.secondaryPhone}`}
+          style={{ display: 'block', color: '#2563eb', marginBottom: '12px' }}
+        >
+          📱 {recipient.secondaryPhone}
+        </a>
+      )}
+
+      <FieldNotes
+        notes={recipient.fieldNotes}
+        canAdd={!readOnly && canAddNote(currentUser, recipient)}
+        onAdd={(text) => onAddNote(recipient.id, text)}
+      />
+
+      {/* Assigned Driver (editable by coordinators) */}
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '12px', fontSize: '13px', color: '#4b5563' }}>
+        🚚
+        {!readOnly && canAssign(currentUser) ? (
+          <select
+            value={recipient.assignedDriver}
+            onChange={(e) => onAssign(recipient.id, e.target.value)}
+            style={{
+              flex: 1,
+              padding: '4px',
+              border: '1px solid #d1d5db',
+              borderRadius: '4px',
+              fontSize: '13px',
+              color: '#1f2937',
+            }}
+          >
+            <option value="">Unassigned</option>
+            {/* Keep a stale assignment visible even if the driver was removed */}
+            {recipient.assignedDriver && !drivers.includes(recipient.assignedDriver) && (
+              <option value={recipient.assignedDriver}>{recipient.assignedDriver}</option>
+            )}
+            {drivers.map((driver) => (
+              <option key={driver} value={driver}>
+                {driver}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span>{recipient.assignedDriver || 'Unassigned'}</span>
+        )}
+      </div>
+
+      {/* Status Badge */}
+      <div style={{ marginBottom: '12px' }}>
+        <span
+          style={{
+            display: 'inline-block',
+            padding: '4px 8px',
+            borderRadius: '4px',
+            fontSize: '12px',
+            fontWeight: 500,
+            backgroundColor: statusBadgeColors[recipient.status].background,
+            color: statusBadgeColors[recipient.status].text,
+          }}
+        >
+          {recipient.status}
+        </span>
+        {recipient.attempts > 0 && (
+          <span style={{ marginLeft: '6px', fontSize: '12px', color: '#6b7280' }}>
+            {recipient.attempts} {recipient.attempts === 1 ? 'attempt' : 'attempts'}
+          </span>
+        )}
+        {pendingSync && (
+          <span style={{ marginLeft: '6px', fontSize: '12px', color: '#0369a1' }}>
+            ⏳ Not yet synced
+          </span>
+        )}
+        {recipient.statusReason && (
+          <div style={{ marginTop: '4px', fontSize: '12px', color: '#4b5563' }}>
+            💬 {recipient.statusReason}
+          </div>
+        )}
+        {recipient.proof && (
+          <div style={{ marginTop: '4px', fontSize: '12px', color: '#4b5563' }}>
+            🧾 Proof by {recipient.proof.by}:{' '}
+            {[
+              recipient.proof.photo && (
+                <a href={`/api/proof/${recipient.proof.photo}`} target="_blank" rel="noopener noreferrer" style={{ color: '#2563eb' }}>
+                  photo
+                </a>
+              ),
+              recipient.proof.signature && (
+                <a href={`/api/proof/${recipient.proof.signature}`} target="_blank" rel="noopener noreferrer" style={{ color: '#2563eb' }}>
+                  signature
+                </a>
+              ),
+              recipient.proof.codeConfirmed && 'code confirmed',
+            ]
+              .filter(Boolean)
+              .map((item, index) => (
+                <span key={index}>
+                  {index > 0 && ' · '}
+                  {item}
+                </span>
+              ))}
+          </div>
+        )}
+      </div>
+
+      {/* Action Buttons */}
+      <div style={{ display: 'flex', gap: '8px' }}>
+        {recipient.status !== 'On the way' && mayChangeStatus('On the way') && (
+          <button
+            onClick={() => onStatusUpdate(recipient.id, 'On the way')}
+            style={{
+              flex: 1,
+              padding: '8px 12px',
+              backgroundColor: '#eab308',
+              color: 'white',
+              fontSize: '14px',
+              fontWeight: 500,
+              borderRadius: '4px',
+              border: 'none',
+              cursor: 'pointer',
+            }}
+          >
+            In Progress
+          </button>
+        )}
+        {recipient.status !== 'Delivered' && mayChangeStatus('Delivered') && (
+          <button
+            onClick={() => onStatusUpdate(recipient.id, 'Delivered')}
+            style={{
+              flex: 1,
+              padding: '8px 12px',
+              backgroundColor: '#22c55e',
+              color: 'white',
+              fontSize: '14px',
+              fontWeight: 500,
+              borderRadius: '4px',
+              border: 'none',
+              cursor: 'pointer',
+            }}
+          >
+            Delivered
+          </button>
+        )}
+        {recipient.status !== 'Pending' && mayChangeStatus('Pending') && (
+          <button
+            onClick={() => onStatusUpdate(recipient.id, 'Pending')}
+            style={{
+              flex: 1,
+              padding: '8px 12px',
+              backgroundColor: '#ef4444',
+              color: 'white',
+              fontSize: '14px',
+              fontWeight: 500,
+              borderRadius: '4px',
+              border: 'none',
+              cursor: 'pointer',
+            }}
+          >
+            Reset
+          </button>
+        )}
+      </div>
+
+      {/* Delivered with a photo, signature or confirmation code */}
+      {recipient.status !== 'Delivered' && mayChangeStatus('Delivered') && (
+        <ProofOfDeliveryForm
+          hasConfirmationCode={recipient.hasConfirmationCode}
+          onSubmit={(capture) => onProofSubmit(recipient.id, capture)}
+        />
+      )}
+
+      {/* Not home, wrong address, refused or rescheduled, with a reason */}
+      {FAILED_STATUSES.some((status) => mayChangeStatus(status)) && (
+        <FailedAttemptForm
+          statuses={FAILED_STATUSES.filter((status) => mayChangeStatus(status))}
+          onSubmit={(status, reason) => onStatusUpdate(recipient.id, status, reason)}
+        />
+      )}
+
+      <RecipientHistory recipientId={recipient.id} />
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState } from 'react';
+import { Polyline, useMap } from 'react-leaflet';
+import { planRoute, type LatLng } from '@/lib/routing';
+import type { Recipient } from '@/lib/recipientStore';
+import { isOutstanding } from '@/lib/status';
+
+// A planned visiting order, kept as IDs so stops reflect live status changes
+export interface PlannedStops {
+  start: LatLng;
+  stopIds: string[];
+  distanceKm: number;
+}
+
+interface RoutePlannerProps {
+  recipients: Recipient[]; // Currently filtered recipients
+  userLocation: LatLng | null;
+  route: PlannedStops | null;
+  onRouteChange: (route: PlannedStops | null) => void;
+}
+
+const buttonStyle = {
+  padding: '8px 16px',
+  backgroundColor: 'white',
+  border: '2px solid rgba(0,0,0,0.2)',
+  borderRadius: '4px',
+  fontSize: '14px',
+  fontWeight: 500,
+};
+
+// "Plan my route" control: orders the driver's outstanding stops from their current location
+export default function RoutePlanner({ recipients, userLocation, route, onRouteChange }: RoutePlannerProps) {
+  const map = useMap();
+  const [locating, setLocating] = useState(false);
+
+  const plan = (start: LatLng) => {
+    const outstanding = recipients.filter((r) => r.coordinates && isOutstanding(r.status));
+    const { stops, distanceKm } = planRoute(start, outstanding);
+    onRouteChange({ start, stopIds: stops.map((s) => s.id), distanceKm });
+  };
+
+  const handlePlan = () => {
+    if (userLocation) {
+      plan(userLocation);
+      return;
+    }
+
+    // No fix yet: ask for one, then plan from it
+    setLocating(true);
+    map.once('locationfound', (e) => {
+      setLocating(false);
+      plan({ lat: e.latlng.lat, lng: e.latlng.lng });
+    });
+    map.once('locationerror', () => setLocating(false));
+    map.locate({ setView: false, maxZoom: 16 });
+  };
+
+  // Stop numbers follow the planned order even if a filter hides some stops later
+  const byId = new Map(recipients.map((r) => [r.id, r]));
+  const numberedStops = (route?.stopIds ?? [])
+    .map((id, index) => ({ stop: byId.get(id), number: index + 1 }))
+    .filter((s): s is { stop: Recipient; number: number } => Boolean(s.stop?.coordinates));
+  const stops = numberedStops.map((s) => s.stop);
+
+  return (
+    <>
+      {route && stops.length > 0 && (
+        <Polyline
+          positions={[
+            [route.start.lat, route.start.lng],
+            ...stops.map((s): [number, number] => [s.coordinates!.lat, s.coordinates!.lng]),
+          ]}
+          pathOptions={{ color: '#2563eb', weight: 4, opacity: 0.7, dashArray: '8 6' }}
+        />
+      )}
+
+      <div className="leaflet-top leaflet-right">
+        <div className="leaflet-control" style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: '6px' }}>
+          {route ? (
+            <button onClick={() => onRouteChange(null)} style={{ ...buttonStyle, cursor: 'pointer' }}>
+              ✖ Clear route
+            </button>
+          ) : (
+            <button
+              onClick={handlePlan}
+              disabled={locating}
+              style={{ ...buttonStyle, cursor: locating ? 'wait' : 'pointer' }}
+            >
+              {locating ? 'Locating...' : '🧭 Plan my route'}
+            </button>
+          )}
+
+          {route && (
+            <div
+              style={{
+                backgroundColor: 'white',
+                border: '2px solid rgba(0,0,0,0.2)',
+                borderRadius: '4px',
+                padding: '8px',
+                width: '220px',
+                maxHeight: '40vh',
+                overflowY: 'auto',
+                fontSize: '13px',
+                color: '#1f2937',
+              }}
+            >
+              <div style={{ fontWeight: 600, marginBottom: '6px' }}>
+                {stops.length} stops · {route.distanceKm.toFixed(1)} km
+                <div style={{ fontWeight: 400, fontSize: '11px', color: '#6b7280' }}>straight-line distance</div>
+              </div>
+              {stops.length === 0 && <div>No outstanding stops to visit</div>}
+              <ol style={{ margin: 0, paddingLeft: '20px' }}>
+                {numberedStops.map(({ stop, number }) => (
+                  <li
+                    key={stop.id}
+                    value={number}
+                    onClick={() => map.flyTo([stop.coordinates!.lat, stop.coordinates!.lng], 17)}
+                    style={{
+                      cursor: 'pointer',
+                      marginBottom: '2px',
+                      textDecoration: isOutstanding(stop.status) ? 'none' : 'line-through',
+                    }}
+                  >
+                    {stop.id} · {stop.faculty} · {stop.parcels}📦
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
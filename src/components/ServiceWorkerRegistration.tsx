@@ -0,0 +1,16 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Register the offline service worker (production builds only, so dev reloads stay fresh)
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  }, []);
+
+  return null;
+}
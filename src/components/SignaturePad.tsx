@@ -0,0 +1,81 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+interface SignaturePadProps {
+  width: number;
+  height: number;
+  onChange: (signed: boolean) => void;
+  canvasRef: React.RefObject<HTMLCanvasElement | null>; // Read by the parent with toBlob() when submitting
+}
+
+// A canvas to sign on with a finger or mouse
+export default function SignaturePad({ width, height, onChange, canvasRef }: SignaturePadProps) {
+  const drawingRef = useRef(false);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.strokeStyle = '#111827';
+  }, [canvasRef]);
+
+  const pointAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = pointAt(e);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+    const { x, y } = pointAt(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    onChange(true);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(false);
+  };
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        style={{ border: '1px dashed #9ca3af', borderRadius: '4px', touchAction: 'none', background: 'white' }}
+      />
+      <button
+        type="button"
+        onClick={handleClear}
+        style={{ background: 'none', border: 'none', padding: 0, color: '#6b7280', cursor: 'pointer', fontSize: '12px' }}
+      >
+        Clear signature
+      </button>
+    </div>
+  );
+}
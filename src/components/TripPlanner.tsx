@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from 'react';
+import { Marker, Polyline, Popup } from 'react-leaflet';
+import L from 'leaflet';
+import type { Depot } from '@/lib/depot';
+import { isCoordinator, type Actor } from '@/lib/permissions';
+import type { Recipient } from '@/lib/recipientStore';
+import type { TripPlan } from '@/lib/tripPlanner';
+
+// Response of GET /api/trips
+interface TripsResponse extends TripPlan {
+  depot: Depot;
+  driver: string;
+  capacity: number;
+}
+
+interface TripPlannerProps {
+  recipients: Recipient[];
+  currentUser: Actor;
+  drivers: string[];
+}
+
+// Distinct colours so neighbouring trips can be told apart
+const TRIP_COLORS = ['#2563eb', '#db2777', '#16a34a', '#9333ea', '#ea580c', '#0891b2', '#ca8a04', '#4f46e5'];
+
+const depotIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:32px;height:32px;border-radius:8px;background:#111827;border:3px solid white;font-size:16px;line-height:26px;text-align:center;">🏠</div>',
+  iconSize: [32, 32],
+  iconAnchor: [16, 16],
+  popupAnchor: [0, -16],
+});
+
+// Shows a driver's outstanding recipients split into capacity-limited trips from the depot
+export default function TripPlanner({ recipients, currentUser, drivers }: TripPlannerProps) {
+  const [plan, setPlan] = useState<TripsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [driver, setDriver] = useState(currentUser.name);
+
+  const loadTrips = async (driverName: string) => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/trips?driver=${encodeURIComponent(driverName)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Could not plan trips');
+        setPlan(null);
+        return;
+      }
+      setPlan(data);
+    } catch {
+      setError('Could not plan trips');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = () => {
+    if (plan || error) {
+      setPlan(null);
+      setError('');
+      return;
+    }
+    loadTrips(driver);
+  };
+
+  const handleDriverChange = (driverName: string) => {
+    setDriver(driverName);
+    loadTrips(driverName);
+  };
+
+  const byId = new Map(recipients.map((r) => [r.id, r]));
+  const tripPath = (stopIds: string[], depot: Depot): [number, number][] => [
+    [depot.lat, depot.lng],
+    ...stopIds
+      .map((id) => byId.get(id)?.coordinates)
+      .filter((c): c is { lat: number; lng: number } => Boolean(c))
+      .map((c): [number, number] => [c.lat, c.lng]),
+    [depot.lat, depot.lng],
+  ];
+
+  return (
+    <>
+      {plan && (
+        <>
+          <Marker position={[plan.depot.lat, plan.depot.lng]} icon={depotIcon}>
+            <Popup>{plan.depot.name}</Popup>
+          </Marker>
+          {plan.trips.map((trip, index) => (
+            <Polyline
+              key={index}
+              positions={tripPath(trip.stopIds, plan.depot)}
+              pathOptions={{ color: TRIP_COLORS[index % TRIP_COLORS.length], weight: 4, opacity: 0.8 }}
+            />
+          ))}
+        </>
+      )}
+
+      <div className="leaflet-bottom leaflet-left" style={{ marginBottom: '20px', marginLeft: '10px' }}>
+        <div className="leaflet-control" style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-start', gap: '6px' }}>
+          {(plan || error) && (
+            <div
+              style={{
+                backgroundColor: 'white',
+                border: '2px solid rgba(0,0,0,0.2)',
+                borderRadius: '4px',
+                padding: '8px',
+                width: '230px',
+                maxHeight: '40vh',
+                overflowY: 'auto',
+                fontSize: '13px',
+                color: '#1f2937',
+              }}
+            >
+              {isCoordinator(currentUser) && (
+                <select
+                  value={driver}
+                  onChange={(e) => handleDriverChange(e.target.value)}
+                  style={{ width: '100%', marginBottom: '6px', padding: '4px', border: '1px solid #d1d5db', borderRadius: '4px' }}
+                >
+                  {[...new Set([currentUser.name, ...drivers])].map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              )}
+              {error && <div style={{ color: '#b91c1c' }}>{error}</div>}
+              {plan && (
+                <>
+                  <div style={{ fontWeight: 600, marginBottom: '6px' }}>
+                    {plan.trips.length} {plan.trips.length === 1 ? 'trip' : 'trips'} · {plan.capacity} parcels per trip
+                  </div>
+                  {plan.trips.length === 0 && <div>No outstanding recipients assigned</div>}
+                  {plan.trips.map((trip, index) => (
+                    <div key={index} style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '4px' }}>
+                      <span
+                        style={{
+                          width: '12px',
+                          height: '12px',
+                          borderRadius: '2px',
+                          backgroundColor: TRIP_COLORS[index % TRIP_COLORS.length],
+                          flexShrink: 0,
+                        }}
+                      />
+                      <span>
+                        Trip {index + 1}: {trip.stopIds.length} stops, {trip.parcels} parcels, {trip.distanceKm.toFixed(1)} km
+                        {trip.overCapacity && <span style={{ color: '#b91c1c' }}> (over capacity)</span>}
+                      </span>
+                    </div>
+                  ))}
+                  {plan.unlocatedIds.length > 0 && (
+                    <div style={{ marginTop: '6px', color: '#b45309' }}>
+                      {plan.unlocatedIds.length} without a location: {plan.unlocatedIds.join(', ')}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+          <button
+            onClick={handleToggle}
+            disabled={loading}
+            style={{
+              padding: '8px 16px',
+              backgroundColor: 'white',
+              border: '2px solid rgba(0,0,0,0.2)',
+              borderRadius: '4px',
+              cursor: loading ? 'wait' : 'pointer',
+              fontSize: '14px',
+              fontWeight: 500,
+            }}
+          >
+            {loading ? 'Planning...' : plan || error ? '✖ Hide trips' : '🚚 Trips'}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,20 @@
+// Runs once when the server starts: warn early if the recipient store is misconfigured,
+// rather than when the first driver opens the map
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { getRecipientStore } = await import('./lib/recipientStore');
+
+  // Don't hold up startup on a network round trip
+  Promise.resolve()
+    .then(() => getRecipientStore().checkHealth())
+    .then((health) => {
+      for (const problem of health.problems) {
+        const log = problem.severity === 'error' ? console.error : console.warn;
+        log(`Recipient store ${problem.severity}: ${problem.message}`);
+      }
+    })
+    .catch((error) => {
+      console.error('Recipient store health check failed:', error);
+    });
+}
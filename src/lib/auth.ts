@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDriverProfiles, type DriverProfile } from './drivers';
+import { getSessionTtlMs, SESSION_COOKIE, verifySessionToken, type Session } from './session';
+
+// The authenticated caller of an API route
+export interface AuthContext {
+  session: Session;
+  driver: DriverProfile;
+}
+
+// Resolve the session cookie to a driver, or null if missing, invalid or revoked
+export async function getAuth(request: NextRequest): Promise<AuthContext | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const session = await verifySessionToken(token);
+  if (!session) return null;
+
+  // Removing a driver from ACCESS_CODES ends their sessions immediately
+  const driver = getDriverProfiles().find((p) => p.name === session.driver);
+  if (!driver) return null;
+
+  return { session, driver };
+}
+
+// Wrap a route handler so it only runs for authenticated requests
+export function withAuth<C>(
+  handler: (request: NextRequest, auth: AuthContext, context: C) => Promise<Response>
+) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const auth = await getAuth(request);
+    if (!auth) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    return handler(request, auth, context);
+  };
+}
+
+// Attach the session cookie to a response
+export function setSessionCookie(response: NextResponse, token: string): void {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: Math.floor(getSessionTtlMs() / 1000),
+  });
+}
+
+// Expire the session cookie on the client
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
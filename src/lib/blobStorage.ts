@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// A stored file and its MIME type
+export interface StoredBlob {
+  data: Buffer;
+  contentType: string;
+}
+
+// Where uploaded files (e.g. proof-of-delivery photos) live. Keys are slash-separated
+// paths like "proof/42/1718000000000-photo.jpg"; see isValidBlobKey().
+export interface BlobStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Null when nothing is stored under the key
+  get(key: string): Promise<StoredBlob | null>;
+}
+
+// Letters, digits, dots, dashes and underscores in each segment; no empty, "." or ".." segments
+export function isValidBlobKey(key: string): boolean {
+  const segments = key.split('/');
+  return segments.every((segment) => /^[A-Za-z0-9._-]+$/.test(segment) && !/^\.+$/.test(segment));
+}
+
+// Files under one directory, with the content type in a ".meta.json" file next to each
+export function createLocalBlobStorage(directory: string): BlobStorage {
+  const root = path.resolve(directory);
+
+  const resolveKey = (key: string): string => {
+    if (!isValidBlobKey(key)) throw new Error(`Invalid blob key "${key}"`);
+    return path.join(root, ...key.split('/'));
+  };
+
+  return {
+    async put(key, data, contentType) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+      await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }), 'utf8');
+    },
+
+    async get(key) {
+      const filePath = resolveKey(key);
+      try {
+        const [data, meta] = await Promise.all([
+          fs.readFile(filePath),
+          fs.readFile(`${filePath}.meta.json`, 'utf8').catch(() => '{}'),
+        ]);
+        const { contentType } = JSON.parse(meta) as { contentType?: string };
+        return { data, contentType: contentType || 'application/octet-stream' };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+  };
+}
+
+const DEFAULT_BLOB_PATH = '.data/blobs';
+
+let configuredStorage: BlobStorage | undefined;
+
+// Select the blob storage from BLOB_STORAGE ("local" by default, under BLOB_STORAGE_PATH)
+export function getBlobStorage(): BlobStorage {
+  if (configuredStorage) return configuredStorage;
+
+  const backend = (process.env.BLOB_STORAGE || 'local').trim().toLowerCase();
+  switch (backend) {
+    case 'local':
+      configuredStorage = createLocalBlobStorage(
+        path.resolve(process.cwd(), process.env.BLOB_STORAGE_PATH || DEFAULT_BLOB_PATH)
+      );
+      return configuredStorage;
+    default:
+      throw new Error(`Unknown BLOB_STORAGE "${backend}" (expected "local")`);
+  }
+}
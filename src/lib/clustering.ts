@@ -0,0 +1,122 @@
+import { haversineKm, type LatLng } from './routing';
+import type { Recipient } from './recipientStore';
+import type { DeliveryStatus } from './status';
+
+// Recipients close enough together to be the same building, shown as one marker
+export interface LocatedGroup {
+  key: string; // Stable while the group's members don't change
+  center: LatLng;
+  recipients: Recipient[];
+}
+
+// A point on screen (map pixels at some zoom) standing for an item
+export interface ScreenPoint<T> {
+  x: number;
+  y: number;
+  item: T;
+}
+
+// Items close together on screen, drawn as one badge
+export interface Cluster<T> {
+  x: number; // Mean position of the members
+  y: number;
+  items: T[];
+}
+
+// Hostel blocks and flats share a pin give or take GPS noise; further apart is a different door
+export const COLOCATED_METRES = 15;
+
+// Degrees of latitude per grid cell, so a group's neighbours are always in the 3x3 cells around it
+const GROUP_CELL_DEGREES = COLOCATED_METRES / 111_000;
+
+// Group located recipients that are within COLOCATED_METRES of the first member of a group.
+// Uses a grid so it stays linear for thousands of recipients.
+export function groupColocated(recipients: Recipient[]): LocatedGroup[] {
+  const located = recipients.filter((r) => r.coordinates);
+  if (located.length === 0) return [];
+
+  // Longitude degrees shrink away from the equator; size the cells for the roster's latitude
+  // (a delivery round covers one city, so that holds for every recipient)
+  const lngCellDegrees = GROUP_CELL_DEGREES / Math.max(Math.cos((located[0].coordinates!.lat * Math.PI) / 180), 0.01);
+  const cellOf = (point: LatLng) => [Math.floor(point.lat / GROUP_CELL_DEGREES), Math.floor(point.lng / lngCellDegrees)];
+
+  const groups: LocatedGroup[] = [];
+  const cells = new Map<string, LocatedGroup[]>();
+
+  for (const recipient of located) {
+    const point = recipient.coordinates!;
+    const [row, column] = cellOf(point);
+    let found: LocatedGroup | undefined;
+    for (let dRow = -1; dRow <= 1 && !found; dRow++) {
+      for (let dColumn = -1; dColumn <= 1 && !found; dColumn++) {
+        found = cells.get(`${row + dRow}:${column + dColumn}`)?.find(
+          (group) => haversineKm(group.center, point) * 1000 <= COLOCATED_METRES
+        );
+      }
+    }
+
+    if (found) {
+      found.recipients.push(recipient);
+      found.key += `|${recipient.id}`;
+      continue;
+    }
+
+    const group = { key: recipient.id, center: point, recipients: [recipient] };
+    groups.push(group);
+    const cell = cells.get(`${row}:${column}`);
+    if (cell) cell.push(group);
+    else cells.set(`${row}:${column}`, [group]);
+  }
+
+  return groups;
+}
+
+// Greedy clustering in screen space: each unclustered point takes every unclustered point
+// within `radius` pixels of it. Grid cells the size of the radius keep this linear.
+export function clusterPoints<T>(points: ScreenPoint<T>[], radius: number): Cluster<T>[] {
+  const cells = new Map<string, number[]>();
+  points.forEach((point, index) => {
+    const key = `${Math.floor(point.x / radius)}:${Math.floor(point.y / radius)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(index);
+    else cells.set(key, [index]);
+  });
+
+  const taken = new Set<number>();
+  const clusters: Cluster<T>[] = [];
+
+  points.forEach((seed, seedIndex) => {
+    if (taken.has(seedIndex)) return;
+
+    const members: ScreenPoint<T>[] = [];
+    const column = Math.floor(seed.x / radius);
+    const row = Math.floor(seed.y / radius);
+    for (let dColumn = -1; dColumn <= 1; dColumn++) {
+      for (let dRow = -1; dRow <= 1; dRow++) {
+        for (const index of cells.get(`${column + dColumn}:${row + dRow}`) ?? []) {
+          const point = points[index];
+          if (taken.has(index) || Math.hypot(point.x - seed.x, point.y - seed.y) > radius) continue;
+          taken.add(index);
+          members.push(point);
+        }
+      }
+    }
+
+    clusters.push({
+      x: members.reduce((sum, p) => sum + p.x, 0) / members.length,
+      y: members.reduce((sum, p) => sum + p.y, 0) / members.length,
+      items: members.map((p) => p.item),
+    });
+  });
+
+  return clusters;
+}
+
+// How many recipients are in each status
+export function countStatuses(recipients: Recipient[]): Partial<Record<DeliveryStatus, number>> {
+  const counts: Partial<Record<DeliveryStatus, number>> = {};
+  for (const recipient of recipients) {
+    counts[recipient.status] = (counts[recipient.status] ?? 0) + 1;
+  }
+  return counts;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { formatCsv, parseCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads quoted cells with doubled quotes, delimiters and newlines inside', () => {
+    const text = 'ID,Address,Notes\r\n1,"12 Main St, Kandy","Say ""hi""\nthen knock"\r\n';
+    expect(parseCsv(text)).toEqual([
+      ['ID', 'Address', 'Notes'],
+      ['1', '12 Main St, Kandy', 'Say "hi"\nthen knock'],
+    ]);
+  });
+
+  it('sniffs semicolon and tab delimiters from the first line', () => {
+    expect(parseCsv('ID;Phone\n1;077,123')).toEqual([['ID', 'Phone'], ['1', '077,123']]);
+    expect(parseCsv('ID\tPhone\n1\t077')).toEqual([['ID', 'Phone'], ['1', '077']]);
+  });
+
+  it('ignores delimiters inside quotes when sniffing', () => {
+    expect(parseCsv('"a;b;c",d\n1,2')).toEqual([['a;b;c', 'd'], ['1', '2']]);
+  });
+
+  it('drops a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFID\n\n1\n  \n')).toEqual([['ID'], ['1']]);
+  });
+});
+
+describe('formatCsv', () => {
+  it('quotes cells that need it and ends lines with CRLF', () => {
+    expect(formatCsv([['ID', 'Notes'], [1, 'Say "hi", then knock']])).toBe('ID,Notes\r\n1,"Say ""hi"", then knock"\r\n');
+  });
+
+  it('defuses cells a spreadsheet would run as a formula', () => {
+    expect(formatCsv([['=HYPERLINK("http://x")', '@SUM(A1)', '-A1+1', '+cmd', '\tx']])).toBe(
+      '"\'=HYPERLINK(""http://x"")",\'@SUM(A1),\'-A1+1,\'+cmd,\'\tx\r\n'
+    );
+  });
+
+  it('leaves phone numbers and negative numbers alone', () => {
+    expect(formatCsv([['+94 77 123 4567', '-12.5', '- note']])).toBe('+94 77 123 4567,-12.5,- note\r\n');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['ID', 'Address'], ['7', 'Flat 2, "Rose Villa"\nKandy']];
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,74 @@
+// Parse CSV text (RFC 4180: quoted fields, doubled quotes, newlines inside quotes) into rows of cells.
+// The delimiter is sniffed from the first line, since spreadsheets in many locales save with ";" or tabs.
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = sniffDelimiter(input);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines (e.g. a trailing newline) aren't rows
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+// The most common of comma, semicolon and tab outside quotes on the first line
+function sniffDelimiter(text: string): string {
+  const counts = new Map([[',', 0], [';', 0], ['\t', 0]]);
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+  return [...counts].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+}
+
+// Write rows as CSV with CRLF line endings, quoting cells that need it. Cells that a spreadsheet
+// would run as a formula get a leading apostrophe; phone numbers like "+94…" are left alone.
+export function formatCsv(rows: (string | number)[][]): string {
+  return rows.map((row) => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function formatCell(value: string | number): string {
+  let text = String(value);
+  if (/^[=@\t\r]/.test(text) || /^[+-][^\d\s.]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth, type AuthContext } from './auth';
+import { EVENT_COOKIE, latestEvent, type DeliveryEvent } from './events';
+import { getEventRegistry, getRecipientStore, type RecipientStore } from './recipientStore';
+
+// The authenticated caller of an API route, with the delivery event they're working on
+export interface EventContext extends AuthContext {
+  event: DeliveryEvent;
+  store: RecipientStore; // The event's recipients
+}
+
+// The event a request is for: ?event= if given, else the one picked in the selector (the
+// event cookie), else the latest. Null when the requested event doesn't exist.
+export async function resolveEvent(request: NextRequest): Promise<DeliveryEvent | null> {
+  const events = await getEventRegistry().listEvents();
+
+  const requested = request.nextUrl.searchParams.get('event');
+  if (requested) return events.find((e) => e.id === requested) ?? null;
+
+  // A stale cookie (event since removed from the sheet) falls back to the latest
+  const selected = request.cookies.get(EVENT_COOKIE)?.value;
+  return events.find((e) => e.id === selected) ?? latestEvent(events);
+}
+
+// Wrap a route handler so it only runs for authenticated requests, against the request's event.
+// With write set, closed events are refused: they're kept read-only for reporting.
+export function withEvent<C>(
+  handler: (request: NextRequest, auth: EventContext, context: C) => Promise<Response>,
+  options: { write?: boolean } = {}
+) {
+  return withAuth<C>(async (request, auth, context) => {
+    let event: DeliveryEvent | null;
+    try {
+      event = await resolveEvent(request);
+    } catch (error) {
+      console.error('Error loading delivery events:', error);
+      return NextResponse.json(
+        { error: 'Failed to load delivery events' },
+        { status: 500 }
+      );
+    }
+
+    if (!event) {
+      return NextResponse.json(
+        { error: 'Delivery event not found' },
+        { status: 404 }
+      );
+    }
+
+    if (options.write && event.closed) {
+      return NextResponse.json(
+        { error: `"${event.name}" is closed; its records are read-only` },
+        { status: 409 }
+      );
+    }
+
+    return handler(request, { ...auth, event, store: getRecipientStore(event) }, context);
+  });
+}
@@ -0,0 +1,135 @@
+import { haversineKm, type LatLng } from './routing';
+import type { Recipient } from './recipientStore';
+
+export type DataIssueType =
+  | 'unlocated'
+  | 'outlier'
+  | 'duplicate_id'
+  | 'duplicate_phone'
+  | 'invalid_status'
+  | 'invalid_parcels'
+  | 'invalid_coordinates';
+
+export interface DataIssue {
+  type: DataIssueType;
+  message: string;
+}
+
+// A recipient row with everything that looks wrong about it
+export interface FlaggedRecipient {
+  recipient: Recipient;
+  issues: DataIssue[];
+}
+
+// A point counts as an outlier when it is this many times further from the centre
+// than the typical recipient, and at least OUTLIER_MIN_KM away
+const OUTLIER_FACTOR = 5;
+const OUTLIER_MIN_KM = 10;
+const MIN_POINTS_FOR_OUTLIERS = 4;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Median of the located recipients, robust to the very outliers we're looking for
+export function medianCentre(recipients: Recipient[]): LatLng | null {
+  const located = recipients.filter((r) => r.coordinates);
+  if (located.length === 0) return null;
+  return {
+    lat: median(located.map((r) => r.coordinates!.lat)),
+    lng: median(located.map((r) => r.coordinates!.lng)),
+  };
+}
+
+// Compare phone numbers by their last 9 digits so "077 123 4567" and "+94771234567" match
+function normalizePhone(phone: string): string {
+  return phone.replace(/\D/g, '').slice(-9);
+}
+
+// Find rows a coordinator should look at: unplaceable, implausibly far away, duplicated or unreadable
+export function findDataIssues(recipients: Recipient[]): FlaggedRecipient[] {
+  const issuesByRow = new Map<number, DataIssue[]>();
+  const flag = (recipient: Recipient, issue: DataIssue) => {
+    const issues = issuesByRow.get(recipient.row) ?? [];
+    issues.push(issue);
+    issuesByRow.set(recipient.row, issues);
+  };
+
+  const located = recipients.filter((r) => r.coordinates);
+  if (located.length >= MIN_POINTS_FOR_OUTLIERS) {
+    const centre = medianCentre(located)!;
+    const distances = located.map((r) => haversineKm(centre, r.coordinates!));
+    const threshold = Math.max(OUTLIER_MIN_KM, OUTLIER_FACTOR * median(distances));
+
+    located.forEach((recipient, i) => {
+      if (distances[i] > threshold) {
+        flag(recipient, {
+          type: 'outlier',
+          message: `${distances[i].toFixed(0)} km from the other recipients`,
+        });
+      }
+    });
+  }
+
+  const rowsById = new Map<string, number[]>();
+  const idsByPhone = new Map<string, Set<string>>();
+  for (const recipient of recipients) {
+    rowsById.set(recipient.id, [...(rowsById.get(recipient.id) ?? []), recipient.row]);
+
+    for (const phone of [recipient.phone, recipient.secondaryPhone]) {
+      const key = normalizePhone(phone);
+      if (!key) continue;
+      idsByPhone.set(key, (idsByPhone.get(key) ?? new Set()).add(recipient.id));
+    }
+  }
+
+  for (const recipient of recipients) {
+    if (!recipient.coordinates) {
+      flag(recipient, {
+        type: 'unlocated',
+        message: recipient.googleMapLink || recipient.address
+          ? 'Map link could not be read'
+          : 'No map link or address',
+      });
+    }
+
+    const rows = rowsById.get(recipient.id) ?? [];
+    if (rows.length > 1) {
+      const otherRows = rows.filter((row) => row !== recipient.row);
+      flag(recipient, {
+        type: 'duplicate_id',
+        message: `ID also used on row ${otherRows.join(', ')}`,
+      });
+    }
+
+    const sharedWith = new Set<string>();
+    for (const phone of [recipient.phone, recipient.secondaryPhone]) {
+      for (const id of idsByPhone.get(normalizePhone(phone)) ?? []) {
+        if (id !== recipient.id) sharedWith.add(id);
+      }
+    }
+    if (sharedWith.size > 0) {
+      flag(recipient, {
+        type: 'duplicate_phone',
+        message: `Phone number also used by ${[...sharedWith].join(', ')}`,
+      });
+    }
+
+    for (const field of recipient.invalidFields) {
+      const where = field.cell ? ` in ${field.cell}` : '';
+      if (field.field === 'status') {
+        flag(recipient, { type: 'invalid_status', message: `Unknown status "${field.value}"${where} (read as Pending)` });
+      } else if (field.field === 'parcels') {
+        flag(recipient, { type: 'invalid_parcels', message: `Parcels "${field.value}"${where} is not a whole number` });
+      } else {
+        flag(recipient, { type: 'invalid_coordinates', message: `${field.field === 'latitude' ? 'Latitude' : 'Longitude'} "${field.value}"${where} is not a valid number` });
+      }
+    }
+  }
+
+  return recipients
+    .filter((r) => issuesByRow.has(r.row))
+    .map((recipient) => ({ recipient, issues: issuesByRow.get(recipient.row)! }));
+}
@@ -0,0 +1,237 @@
+import type { FieldNote } from './fieldNotes';
+import { publish } from './liveUpdates';
+import type { Actor } from './permissions';
+import type { DeliveryProof } from './proof';
+import { isAllowedTransition, type DeliveryStatus } from './status';
+import type {
+  DevicePosition,
+  Recipient,
+  RecipientStore,
+  StatusChange,
+  StatusUpdateResult,
+} from './recipientStore';
+
+// Details returned with a 409 when a client's view of a recipient is stale
+export interface StatusConflict {
+  id: string;
+  expectedStatus: DeliveryStatus;
+  currentStatus: DeliveryStatus;
+  changedBy: string | null; // Who made the latest change, from the audit log
+}
+
+// Nothing to record if the status is unchanged, unless it's one that can be recorded again
+// (another Not home visit) or the stored value was unreadable and needs rewriting
+function isNoOp(recipient: Recipient, status: DeliveryStatus): boolean {
+  const statusCellInvalid = recipient.invalidFields.some((f) => f.field === 'status');
+  return recipient.status === status && !isAllowedTransition(status, status) && !statusCellInvalid;
+}
+
+// Change a recipient's status, append the transition to the audit log and tell connected clients.
+// expectedStatus is the status the client last saw; a mismatch is reported as a conflict.
+// The reason is required for failed attempts; callers validate that.
+export async function changeStatus(
+  store: RecipientStore,
+  recipient: Recipient,
+  status: DeliveryStatus,
+  actor: Actor,
+  position: DevicePosition | null,
+  expectedStatus?: DeliveryStatus,
+  reason = ''
+): Promise<StatusUpdateResult> {
+  if (expectedStatus !== undefined && recipient.status !== expectedStatus) {
+    return { ok: false, reason: 'conflict', currentStatus: recipient.status };
+  }
+
+  if (isNoOp(recipient, status)) return { ok: true, previousStatus: status, attempts: recipient.attempts };
+
+  const result = await store.updateStatus({ id: recipient.id, status, expectedStatus, reason });
+  if (!result.ok) return result;
+
+  try {
+    await store.appendStatusChanges([{
+      recipientId: recipient.id,
+      oldStatus: result.previousStatus,
+      newStatus: status,
+      reason,
+      driver: actor.name,
+      timestamp: new Date().toISOString(),
+      position,
+    }]);
+  } catch (error) {
+    // The status is already written; a missing audit entry shouldn't fail the driver's tap
+    console.error('Error writing audit log:', error);
+  }
+
+  publish(store.eventId, {
+    id: recipient.id,
+    changes: { status, statusReason: reason, attempts: result.attempts },
+    by: actor.name,
+    at: new Date().toISOString(),
+  });
+  return result;
+}
+
+// One item of a bulk status change
+export interface BulkStatusChange {
+  recipient: Recipient;
+  status: DeliveryStatus;
+  expectedStatus?: DeliveryStatus;
+  reason?: string;
+}
+
+// changeStatus() for many recipients: one store write, one audit append, then a live update each.
+// Results are in the same order as the changes.
+export async function changeStatuses(
+  store: RecipientStore,
+  changes: BulkStatusChange[],
+  actor: Actor,
+  position: DevicePosition | null
+): Promise<StatusUpdateResult[]> {
+  const results: (StatusUpdateResult | null)[] = changes.map(({ recipient, status, expectedStatus }) => {
+    if (expectedStatus !== undefined && recipient.status !== expectedStatus) {
+      return { ok: false, reason: 'conflict', currentStatus: recipient.status };
+    }
+    if (isNoOp(recipient, status)) return { ok: true, previousStatus: status, attempts: recipient.attempts };
+    return null; // Needs writing
+  });
+
+  const pending = changes.filter((_, i) => results[i] === null);
+  const written = await store.updateStatuses(
+    pending.map(({ recipient, status, expectedStatus, reason = '' }) => ({ id: recipient.id, status, expectedStatus, reason }))
+  );
+
+  const timestamp = new Date().toISOString();
+  const applied: { change: StatusChange; attempts: number }[] = [];
+  let next = 0;
+  changes.forEach(({ recipient, status, reason = '' }, i) => {
+    if (results[i] !== null) return;
+    const result = written[next++];
+    results[i] = result;
+    if (result.ok) {
+      applied.push({
+        change: {
+          recipientId: recipient.id,
+          oldStatus: result.previousStatus,
+          newStatus: status,
+          reason,
+          driver: actor.name,
+          timestamp,
+          position,
+        },
+        attempts: result.attempts,
+      });
+    }
+  });
+
+  try {
+    await store.appendStatusChanges(applied.map(({ change }) => change));
+  } catch (error) {
+    console.error('Error writing audit log:', error);
+  }
+
+  for (const { change, attempts } of applied) {
+    publish(store.eventId, {
+      id: change.recipientId,
+      changes: { status: change.newStatus, statusReason: change.reason, attempts },
+      by: actor.name,
+      at: timestamp,
+    });
+  }
+
+  return results as StatusUpdateResult[];
+}
+
+// Describe a conflict for the client, naming whoever last changed the recipient
+export async function describeConflict(
+  store: RecipientStore,
+  id: string,
+  expectedStatus: DeliveryStatus,
+  currentStatus: DeliveryStatus
+): Promise<StatusConflict> {
+  let changedBy: string | null = null;
+  try {
+    const history = await store.getStatusHistory(id);
+    changedBy = history[history.length - 1]?.driver ?? null;
+  } catch (error) {
+    console.error('Error reading status history:', error);
+  }
+
+  return { id, expectedStatus, currentStatus, changedBy };
+}
+
+// Assign a recipient to a driver (empty name unassigns) and tell connected clients
+export async function assignRecipient(
+  store: RecipientStore,
+  recipient: Recipient,
+  driverName: string,
+  actor: Actor
+): Promise<boolean> {
+  const success = await store.assignDriver(recipient.id, driverName);
+  if (!success) return false;
+
+  publish(store.eventId, { id: recipient.id, changes: { assignedDriver: driverName }, by: actor.name, at: new Date().toISOString() });
+  return true;
+}
+
+// Move a recipient's pin (e.g. a coordinator fixing a bad link) and tell connected clients
+export async function relocateRecipient(
+  store: RecipientStore,
+  recipient: Recipient,
+  coordinates: { lat: number; lng: number },
+  actor: Actor
+): Promise<boolean> {
+  const success = await store.updateCoordinates(recipient.id, coordinates);
+  if (!success) return false;
+
+  publish(store.eventId, {
+    id: recipient.id,
+    changes: { coordinates, geocodeConfidence: null },
+    by: actor.name,
+    at: new Date().toISOString(),
+  });
+  return true;
+}
+
+// Add a driver's note to a recipient and tell connected clients
+export async function addFieldNote(
+  store: RecipientStore,
+  recipient: Recipient,
+  text: string,
+  actor: Actor
+): Promise<FieldNote | null> {
+  const note: FieldNote = { at: new Date().toISOString(), by: actor.name, text };
+  const success = await store.appendFieldNote(recipient.id, note);
+  if (!success) return null;
+
+  publish(store.eventId, { id: recipient.id, changes: { fieldNotes: [...recipient.fieldNotes, note] }, by: actor.name, at: note.at });
+  return note;
+}
+
+// Attach proof of delivery to a recipient and tell connected clients
+export async function recordProof(
+  store: RecipientStore,
+  recipient: Recipient,
+  proof: DeliveryProof,
+  actor: Actor
+): Promise<boolean> {
+  const success = await store.saveProof(recipient.id, proof);
+  if (!success) return false;
+
+  publish(store.eventId, { id: recipient.id, changes: { proof }, by: actor.name, at: new Date().toISOString() });
+  return true;
+}
+
+// Validate a device position from a request body, dropping anything malformed
+export function parseDevicePosition(value: unknown): DevicePosition | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const { lat, lng, accuracy } = value as Record<string, unknown>;
+  if (typeof lat !== 'number' || typeof lng !== 'number') return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+  return {
+    lat,
+    lng,
+    ...(typeof accuracy === 'number' && accuracy >= 0 && { accuracy }),
+  };
+}
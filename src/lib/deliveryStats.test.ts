@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { computeDeliveryStats } from './deliveryStats';
+import type { Recipient, StatusChange } from './recipientStore';
+import type { DeliveryStatus } from './status';
+
+function recipient(id: string, status: DeliveryStatus, fields: Partial<Recipient> = {}): Recipient {
+  return {
+    id,
+    googleMapLink: '',
+    coordinates: null,
+    recipientType: '',
+    parcels: 1,
+    faculty: '',
+    phone: '',
+    secondaryPhone: '',
+    status,
+    statusReason: '',
+    attempts: 0,
+    assignedDriver: '',
+    instructions: '',
+    fieldNotes: [],
+    address: '',
+    geocodeConfidence: null,
+    proof: null,
+    hasConfirmationCode: false,
+    row: 0,
+    invalidFields: [],
+    ...fields,
+  };
+}
+
+function change(recipientId: string, newStatus: DeliveryStatus, driver: string, timestamp: string): StatusChange {
+  return { recipientId, oldStatus: 'Pending', newStatus, reason: '', driver, timestamp, position: null };
+}
+
+describe('computeDeliveryStats', () => {
+  it('counts recipients and parcels by outcome, overall and per group', () => {
+    const stats = computeDeliveryStats(
+      [
+        recipient('1', 'Delivered', { parcels: 3, faculty: 'Arts' }),
+        recipient('2', 'Not home', { parcels: 2, faculty: 'Arts' }),
+        recipient('3', 'Refused', { faculty: 'Science' }),
+        recipient('4', 'Pending', { faculty: ' ' }),
+      ],
+      []
+    );
+
+    expect(stats.totals).toMatchObject({
+      recipients: 4,
+      delivered: 1,
+      outstanding: 2,
+      closed: 1,
+      parcels: 7,
+      parcelsDelivered: 3,
+      parcelsOutstanding: 3,
+    });
+    expect(stats.totals.byStatus).toMatchObject({ Delivered: 1, 'Not home': 1, Refused: 1, Pending: 1, 'On the way': 0 });
+    expect(stats.byFaculty.map((g) => [g.name, g.recipients, g.delivered])).toEqual([
+      ['Arts', 2, 1],
+      ['', 1, 0],
+      ['Science', 1, 0],
+    ]);
+  });
+
+  it('credits each delivery to whoever last marked it Delivered, ignoring ones reset since', () => {
+    const stats = computeDeliveryStats(
+      [
+        recipient('1', 'Delivered', { assignedDriver: 'Amal', parcels: 2 }),
+        recipient('2', 'Delivered', { assignedDriver: 'Amal' }),
+        recipient('3', 'Pending', { assignedDriver: 'Nimali' }),
+      ],
+      [
+        change('1', 'Delivered', 'Nimali', '2026-03-01T09:00:00Z'),
+        change('1', 'Delivered', 'Amal', '2026-03-01T10:00:00Z'),
+        change('2', 'Not home', 'Amal', '2026-03-01T09:30:00Z'),
+        change('2', 'Delivered', 'Amal', '2026-03-01T11:00:00Z'),
+        change('3', 'Delivered', 'Nimali', '2026-03-01T09:15:00Z'),
+      ],
+      { now: new Date('2026-03-01T11:00:00Z') }
+    );
+
+    expect(stats.drivers).toEqual([
+      {
+        driver: 'Amal',
+        assigned: 2,
+        assignedOutstanding: 0,
+        delivered: 2,
+        parcelsDelivered: 3,
+        failedAttempts: 1,
+        firstDeliveryAt: '2026-03-01T10:00:00.000Z',
+        lastDeliveryAt: '2026-03-01T11:00:00.000Z',
+        perHour: expect.closeTo(1, 9),
+      },
+      {
+        driver: 'Nimali',
+        assigned: 1,
+        assignedOutstanding: 1,
+        delivered: 0,
+        parcelsDelivered: 0,
+        failedAttempts: 0,
+        firstDeliveryAt: null,
+        lastDeliveryAt: null,
+        perHour: null,
+      },
+    ]);
+  });
+
+  it('buckets deliveries by hour of the local clock, filling empty hours', () => {
+    const stats = computeDeliveryStats(
+      [recipient('1', 'Delivered'), recipient('2', 'Delivered', { parcels: 4 })],
+      [change('1', 'Delivered', 'Amal', '2026-03-01T03:20:00Z'), change('2', 'Delivered', 'Amal', '2026-03-01T05:10:00Z')],
+      { utcOffsetMinutes: 330 }
+    );
+
+    // UTC+5:30: 08:50 and 10:40 local, so the 08:00, 09:00 and 10:00 hours
+    expect(stats.timeline).toEqual([
+      { start: '2026-03-01T02:30:00.000Z', delivered: 1, parcels: 1, cumulativeDelivered: 1, cumulativeParcels: 1 },
+      { start: '2026-03-01T03:30:00.000Z', delivered: 0, parcels: 0, cumulativeDelivered: 1, cumulativeParcels: 1 },
+      { start: '2026-03-01T04:30:00.000Z', delivered: 1, parcels: 4, cumulativeDelivered: 2, cumulativeParcels: 5 },
+    ]);
+  });
+
+  it('projects completion from the pace of the last two hours', () => {
+    const recipients = [
+      recipient('1', 'Delivered'),
+      recipient('2', 'Delivered'),
+      recipient('3', 'Delivered'),
+      recipient('4', 'Pending'),
+      recipient('5', 'Pending'),
+    ];
+    const changes = [
+      change('1', 'Delivered', 'Amal', '2026-03-01T06:00:00Z'), // Outside the window
+      change('2', 'Delivered', 'Amal', '2026-03-01T09:30:00Z'),
+      change('3', 'Delivered', 'Amal', '2026-03-01T10:30:00Z'),
+    ];
+
+    const stats = computeDeliveryStats(recipients, changes, { now: new Date('2026-03-01T11:00:00Z') });
+    expect(stats.estimate).toEqual({ remaining: 2, ratePerHour: expect.closeTo(1, 9), completesAt: '2026-03-01T13:00:00.000Z' });
+  });
+
+  it('gives no estimate without enough recent deliveries to go on', () => {
+    const recipients = [recipient('1', 'Delivered'), recipient('2', 'Pending')];
+
+    const none = computeDeliveryStats(recipients, [], { now: new Date('2026-03-01T11:00:00Z') });
+    expect(none.estimate).toEqual({ remaining: 1, ratePerHour: null, completesAt: null });
+
+    const justStarted = computeDeliveryStats(recipients, [change('1', 'Delivered', 'Amal', '2026-03-01T10:55:00Z')], {
+      now: new Date('2026-03-01T11:00:00Z'),
+    });
+    expect(justStarted.estimate.ratePerHour).toBeNull();
+  });
+});
@@ -0,0 +1,243 @@
+import type { Recipient, StatusChange } from './recipientStore';
+import { DELIVERY_STATUSES, isFailedStatus, isOutstanding, type DeliveryStatus } from './status';
+
+// Recipients and parcels in some set, e.g. one faculty
+export interface ProgressCounts {
+  recipients: number;
+  delivered: number;
+  outstanding: number; // Still needs a visit, see isOutstanding()
+  closed: number; // Won't be delivered this round: Wrong address or Refused
+  parcels: number;
+  parcelsDelivered: number;
+  parcelsOutstanding: number;
+}
+
+export interface GroupProgress extends ProgressCounts {
+  name: string; // Empty for recipients with no value in the grouped column
+}
+
+// What one driver has been given and what they've done
+export interface DriverThroughput {
+  driver: string;
+  assigned: number;
+  assignedOutstanding: number;
+  delivered: number; // Recipients they marked Delivered who still are
+  parcelsDelivered: number;
+  failedAttempts: number; // Not home, Wrong address, Refused or Rescheduled recorded by them
+  firstDeliveryAt: string | null;
+  lastDeliveryAt: string | null;
+  perHour: number | null; // Deliveries per hour between their first and last, once there's a span to measure
+}
+
+// Deliveries in one hour of the day
+export interface TimelineBucket {
+  start: string; // ISO 8601, the start of the hour
+  delivered: number;
+  parcels: number;
+  cumulativeDelivered: number;
+  cumulativeParcels: number;
+}
+
+export interface CompletionEstimate {
+  remaining: number; // Outstanding recipients
+  ratePerHour: number | null; // Recent deliveries per hour, null when there's too little to go on
+  completesAt: string | null; // ISO 8601; null when done or when there's no rate
+}
+
+export interface DeliveryStats {
+  generatedAt: string;
+  totals: ProgressCounts & { byStatus: Record<DeliveryStatus, number> };
+  byFaculty: GroupProgress[];
+  byRecipientType: GroupProgress[];
+  drivers: DriverThroughput[];
+  timeline: TimelineBucket[];
+  estimate: CompletionEstimate;
+}
+
+// The estimate follows the recent pace, so a slow start or a lunch break doesn't skew it for long
+const RATE_WINDOW_MS = 2 * 60 * 60 * 1000;
+// Below this, one quick delivery would predict an absurd rate
+const MIN_RATE_SPAN_MS = 10 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+function emptyCounts(): ProgressCounts {
+  return { recipients: 0, delivered: 0, outstanding: 0, closed: 0, parcels: 0, parcelsDelivered: 0, parcelsOutstanding: 0 };
+}
+
+function addRecipient(counts: ProgressCounts, recipient: Recipient): void {
+  counts.recipients++;
+  counts.parcels += recipient.parcels;
+  if (recipient.status === 'Delivered') {
+    counts.delivered++;
+    counts.parcelsDelivered += recipient.parcels;
+  } else if (isOutstanding(recipient.status)) {
+    counts.outstanding++;
+    counts.parcelsOutstanding += recipient.parcels;
+  } else {
+    counts.closed++;
+  }
+}
+
+// Progress per value of a column, biggest groups first
+function groupProgress(recipients: Recipient[], key: (recipient: Recipient) => string): GroupProgress[] {
+  const groups = new Map<string, GroupProgress>();
+  for (const recipient of recipients) {
+    const name = key(recipient).trim();
+    let group = groups.get(name);
+    if (!group) {
+      group = { name, ...emptyCounts() };
+      groups.set(name, group);
+    }
+    addRecipient(group, recipient);
+  }
+  return [...groups.values()].sort((a, b) => b.recipients - a.recipients || a.name.localeCompare(b.name));
+}
+
+// When each recipient who is Delivered now was delivered, and by whom: their latest change to
+// Delivered in the audit log. Deliveries that were later reset don't count.
+function currentDeliveries(recipients: Recipient[], changes: StatusChange[]) {
+  const delivered = new Map(recipients.filter((r) => r.status === 'Delivered').map((r) => [r.id, r]));
+  const latest = new Map<string, { recipient: Recipient; time: number; driver: string }>();
+  for (const change of changes) {
+    const recipient = delivered.get(change.recipientId);
+    const time = Date.parse(change.timestamp);
+    if (!recipient || change.newStatus !== 'Delivered' || isNaN(time)) continue;
+    const previous = latest.get(change.recipientId);
+    if (!previous || time >= previous.time) latest.set(change.recipientId, { recipient, time, driver: change.driver });
+  }
+  return [...latest.values()].sort((a, b) => a.time - b.time);
+}
+
+// Hourly delivery counts from the first delivery to the last, with empty hours filled in.
+// utcOffsetMinutes lines the buckets up with the viewer's clock (e.g. 330 for UTC+5:30).
+function buildTimeline(deliveries: ReturnType<typeof currentDeliveries>, utcOffsetMinutes: number): TimelineBucket[] {
+  if (deliveries.length === 0) return [];
+
+  const offset = utcOffsetMinutes * 60 * 1000;
+  const hourOf = (time: number) => Math.floor((time + offset) / HOUR_MS) * HOUR_MS - offset;
+  const first = hourOf(deliveries[0].time);
+  const last = hourOf(deliveries[deliveries.length - 1].time);
+
+  const buckets: TimelineBucket[] = [];
+  for (let start = first; start <= last; start += HOUR_MS) {
+    buckets.push({ start: new Date(start).toISOString(), delivered: 0, parcels: 0, cumulativeDelivered: 0, cumulativeParcels: 0 });
+  }
+  for (const { recipient, time } of deliveries) {
+    const bucket = buckets[(hourOf(time) - first) / HOUR_MS];
+    bucket.delivered++;
+    bucket.parcels += recipient.parcels;
+  }
+
+  let delivered = 0;
+  let parcels = 0;
+  for (const bucket of buckets) {
+    delivered += bucket.delivered;
+    parcels += bucket.parcels;
+    bucket.cumulativeDelivered = delivered;
+    bucket.cumulativeParcels = parcels;
+  }
+  return buckets;
+}
+
+function buildDrivers(
+  recipients: Recipient[],
+  changes: StatusChange[],
+  deliveries: ReturnType<typeof currentDeliveries>
+): DriverThroughput[] {
+  const drivers = new Map<string, DriverThroughput>();
+  const driverFor = (name: string) => {
+    let driver = drivers.get(name);
+    if (!driver) {
+      driver = {
+        driver: name,
+        assigned: 0,
+        assignedOutstanding: 0,
+        delivered: 0,
+        parcelsDelivered: 0,
+        failedAttempts: 0,
+        firstDeliveryAt: null,
+        lastDeliveryAt: null,
+        perHour: null,
+      };
+      drivers.set(name, driver);
+    }
+    return driver;
+  };
+
+  for (const recipient of recipients) {
+    if (!recipient.assignedDriver) continue;
+    const driver = driverFor(recipient.assignedDriver);
+    driver.assigned++;
+    if (isOutstanding(recipient.status)) driver.assignedOutstanding++;
+  }
+
+  for (const change of changes) {
+    if (change.driver && isFailedStatus(change.newStatus)) driverFor(change.driver).failedAttempts++;
+  }
+
+  // deliveries is sorted by time, so the first one seen is the driver's earliest
+  for (const { recipient, time, driver: name } of deliveries) {
+    if (!name) continue;
+    const driver = driverFor(name);
+    driver.delivered++;
+    driver.parcelsDelivered += recipient.parcels;
+    driver.firstDeliveryAt ??= new Date(time).toISOString();
+    driver.lastDeliveryAt = new Date(time).toISOString();
+  }
+
+  for (const driver of drivers.values()) {
+    if (!driver.firstDeliveryAt || !driver.lastDeliveryAt) continue;
+    const span = Date.parse(driver.lastDeliveryAt) - Date.parse(driver.firstDeliveryAt);
+    // n deliveries over the span between the first and last is n - 1 intervals
+    if (span >= MIN_RATE_SPAN_MS) driver.perHour = ((driver.delivered - 1) / span) * HOUR_MS;
+  }
+
+  return [...drivers.values()].sort((a, b) => b.delivered - a.delivered || a.driver.localeCompare(b.driver));
+}
+
+// Project when the outstanding recipients will be done at the pace of the last couple of hours
+function estimateCompletion(
+  remaining: number,
+  deliveries: ReturnType<typeof currentDeliveries>,
+  now: number
+): CompletionEstimate {
+  const recent = deliveries.filter((d) => d.time > now - RATE_WINDOW_MS && d.time <= now);
+  if (recent.length === 0) return { remaining, ratePerHour: null, completesAt: null };
+
+  // Measure from the start of the window, or from the first delivery of the day if that's later
+  const since = Math.max(now - RATE_WINDOW_MS, deliveries[0].time);
+  const span = now - since;
+  if (span < MIN_RATE_SPAN_MS) return { remaining, ratePerHour: null, completesAt: null };
+
+  const ratePerHour = (recent.length / span) * HOUR_MS;
+  const completesAt = remaining > 0 ? new Date(now + (remaining / ratePerHour) * HOUR_MS).toISOString() : null;
+  return { remaining, ratePerHour, completesAt };
+}
+
+// Everything the coordinator dashboard shows, from the recipients as they are now and the audit log
+export function computeDeliveryStats(
+  recipients: Recipient[],
+  changes: StatusChange[],
+  options: { now?: Date; utcOffsetMinutes?: number } = {}
+): DeliveryStats {
+  const now = (options.now ?? new Date()).getTime();
+
+  const byStatus = Object.fromEntries(DELIVERY_STATUSES.map((status) => [status, 0])) as Record<DeliveryStatus, number>;
+  const totals = { ...emptyCounts(), byStatus };
+  for (const recipient of recipients) {
+    addRecipient(totals, recipient);
+    byStatus[recipient.status]++;
+  }
+
+  const deliveries = currentDeliveries(recipients, changes);
+
+  return {
+    generatedAt: new Date(now).toISOString(),
+    totals,
+    byFaculty: groupProgress(recipients, (r) => r.faculty),
+    byRecipientType: groupProgress(recipients, (r) => r.recipientType),
+    drivers: buildDrivers(recipients, changes, deliveries),
+    timeline: buildTimeline(deliveries, options.utcOffsetMinutes ?? 0),
+    estimate: estimateCompletion(totals.outstanding, deliveries, now),
+  };
+}
@@ -0,0 +1,26 @@
+import type { LatLng } from './routing';
+
+// The central point deliveries start from and return to
+export interface Depot extends LatLng {
+  name: string;
+}
+
+const DEFAULT_VEHICLE_CAPACITY = 20;
+
+// Read the depot from DEPOT_LAT / DEPOT_LNG (and optional DEPOT_NAME); null if not configured
+export function getDepot(): Depot | null {
+  const lat = parseFloat(process.env.DEPOT_LAT || '');
+  const lng = parseFloat(process.env.DEPOT_LNG || '');
+
+  if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+
+  return { lat, lng, name: process.env.DEPOT_NAME || 'Depot' };
+}
+
+// Parcels a vehicle carries when a driver has no capacity of their own configured
+export function getDefaultVehicleCapacity(): number {
+  const capacity = parseInt(process.env.DEFAULT_VEHICLE_CAPACITY || '', 10);
+  return capacity > 0 ? capacity : DEFAULT_VEHICLE_CAPACITY;
+}
@@ -0,0 +1,63 @@
+import { getDefaultVehicleCapacity } from './depot';
+import type { Role } from './permissions';
+
+// A named driver identity behind an access code
+export interface DriverProfile {
+  name: string;
+  code: string;
+  role: Role;
+  capacity: number; // Parcels their vehicle carries per trip
+}
+
+// Parse driver profiles from environment
+// ACCESS_CODES is a comma-separated list of "code:Name[:role[:capacity]]" entries,
+// e.g. "x7k2:Amal,p9q4:Nimali:driver:40,c3m8:Ruwan:coordinator".
+// Entries without a name fall back to "Driver N", the role defaults to driver and the
+// capacity to DEFAULT_VEHICLE_CAPACITY.
+// The legacy ADMIN_ACCESS_CODE is a coordinator named "Admin".
+// Sessions name their driver, so two entries with the same name are refused: one could sign in
+// with the other's role.
+export function getDriverProfiles(): DriverProfile[] {
+  const codesList = process.env.ACCESS_CODES;
+  const legacyCode = process.env.ADMIN_ACCESS_CODE;
+
+  const profiles: DriverProfile[] = [];
+
+  if (codesList) {
+    const entries = codesList.split(',').map((c) => c.trim()).filter(Boolean);
+    entries.forEach((entry, index) => {
+      const [code, name, role, capacity] = entry.split(':').map((part) => part.trim());
+      if (!code) return;
+      profiles.push({
+        code,
+        name: name || `Driver ${index + 1}`,
+        role: role?.toLowerCase() === 'coordinator' ? 'coordinator' : 'driver',
+        capacity: parseInt(capacity, 10) > 0 ? parseInt(capacity, 10) : getDefaultVehicleCapacity(),
+      });
+    });
+  }
+
+  if (legacyCode && !profiles.some((p) => p.code === legacyCode)) {
+    profiles.push({ code: legacyCode, name: 'Admin', role: 'coordinator', capacity: getDefaultVehicleCapacity() });
+  }
+
+  const names = new Set<string>();
+  for (const { name } of profiles) {
+    if (names.has(name)) {
+      throw new Error(`Two access codes share the name "${name}"; each driver needs their own name`);
+    }
+    names.add(name);
+  }
+
+  return profiles;
+}
+
+// Look up the driver for an access code
+export function findDriverByCode(code: string): DriverProfile | null {
+  return getDriverProfiles().find((p) => p.code === code) ?? null;
+}
+
+// Driver names only, safe to send to clients
+export function getDriverNames(): string[] {
+  return getDriverProfiles().map((p) => p.name);
+}
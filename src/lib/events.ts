@@ -0,0 +1,65 @@
+// Delivery events: each distribution round has its own copy of the roster, so a new round
+// doesn't overwrite the last one. Shared by the stores, the API and the UI.
+
+export interface DeliveryEvent {
+  id: string; // Lowercase letters, digits and dashes, e.g. "2026-10-19-exam-week"
+  name: string;
+  date: string; // YYYY-MM-DD; empty for the roster that was there before events
+  partition: string; // Where its recipients are: a sheet tab, or a file of the local store
+  auditPartition: string; // The sheet tab holding its audit log; the local store keeps the log with the recipients
+  closed: boolean; // Past events are read-only, kept for reporting
+  createdAt: string; // ISO 8601; empty for the original roster
+}
+
+// What a coordinator fills in to start a new event
+export interface NewEvent {
+  name: string;
+  date: string;
+}
+
+// The roster configured by SHEET_TAB / LOCAL_STORE_PATH, which exists before any event is created
+export const DEFAULT_EVENT_ID = 'default';
+
+// Remembers which event this browser is looking at
+export const EVENT_COOKIE = 'delivery_event';
+
+export const MAX_EVENT_NAME_LENGTH = 80;
+
+// Check a new event's name and date; returns what's wrong, or null if it's fine
+export function validateNewEvent(input: { name?: unknown; date?: unknown }): string | null {
+  if (typeof input.name !== 'string' || !input.name.trim()) return 'A name is required';
+  if (input.name.trim().length > MAX_EVENT_NAME_LENGTH) {
+    return `Name is too long (at most ${MAX_EVENT_NAME_LENGTH} characters)`;
+  }
+  if (typeof input.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(input.date) || isNaN(Date.parse(input.date))) {
+    return 'Invalid date (expected YYYY-MM-DD)';
+  }
+  return null;
+}
+
+// An ID made from the date and name, with a number added if it's taken
+export function makeEventId(input: NewEvent, taken: string[]): string {
+  const slug = `${input.date}-${input.name}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+
+  let id = slug;
+  for (let n = 2; taken.includes(id) || id === DEFAULT_EVENT_ID; n++) id = `${slug}-${n}`;
+  return id;
+}
+
+// The event to show someone who hasn't picked one: the latest open event, or the latest of all
+// if every event is closed. Events are dated; the original roster counts as the oldest.
+export function latestEvent(events: DeliveryEvent[]): DeliveryEvent | null {
+  const byDate = [...events].sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+  return byDate.find((event) => !event.closed) ?? byDate[0] ?? null;
+}
+
+// "Exam week (19 Oct 2026)"
+export function eventLabel(event: DeliveryEvent): string {
+  if (!event.date) return event.name;
+  const date = new Date(`${event.date}T00:00:00`).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+  return `${event.name} (${date})`;
+}
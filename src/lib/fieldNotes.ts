@@ -0,0 +1,37 @@
+// Timestamped notes drivers add from the field ("dog in the garden", "gate code changed"),
+// kept apart from the coordinator's delivery instructions so neither overwrites the other
+
+export interface FieldNote {
+  at: string; // ISO 8601, empty for lines typed into the sheet by hand
+  by: string;
+  text: string;
+}
+
+export const MAX_NOTE_LENGTH = 500;
+
+// One note per line: "[2024-06-01T14:05:00.000Z Amal] Gate was locked, called security"
+const NOTE_LINE = /^\[(\S+) ([^\]]*)\] ?(.*)$/;
+
+export function formatFieldNotes(notes: FieldNote[]): string {
+  return notes
+    .map((note) => (note.at ? `[${note.at} ${note.by}] ${note.text}` : note.text))
+    .join('\n');
+}
+
+// Lines that don't look like ours (edited by hand) are kept as notes without a time or author
+export function parseFieldNotes(value: string): FieldNote[] {
+  return value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const match = NOTE_LINE.exec(line);
+      if (!match || isNaN(Date.parse(match[1]))) return { at: '', by: '', text: line };
+      return { at: match[1], by: match[2], text: match[3] };
+    });
+}
+
+// Notes are one line each, so newlines typed on the phone become spaces
+export function cleanNoteText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,149 @@
+import type { LatLng } from './routing';
+
+// How precisely a geocoded address was matched: high = building/street, medium = neighbourhood, low = town or wider
+export type GeocodeConfidence = 'high' | 'medium' | 'low';
+
+export interface GeocodeResult extends LatLng {
+  confidence: GeocodeConfidence;
+}
+
+// Turns a free-text address into coordinates; null when nothing matched
+export interface Geocoder {
+  geocode(address: string): Promise<GeocodeResult | null>;
+}
+
+// Minimal response shape the provider needs, so a local stand-in can be passed
+export interface GeocodeFetchResponse {
+  ok: boolean;
+  status: number;
+  json(): Promise<unknown>;
+}
+
+export type GeocodeFetcher = (url: string, init: { headers: Record<string, string> }) => Promise<GeocodeFetchResponse>;
+
+export interface NominatimOptions {
+  baseUrl: string;
+  userAgent: string;
+  email?: string; // Sent as a contact per the Nominatim usage policy
+  countryCodes?: string; // e.g. "lk" to keep matches in one country
+  minIntervalMs?: number; // Gap between requests
+  fetcher?: GeocodeFetcher;
+}
+
+const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+const DEFAULT_MIN_INTERVAL_MS = 1000; // Public Nominatim allows one request per second
+const FAILURE_CACHE_TTL_MS = 60 * 60 * 1000; // Retry unmatched addresses after an hour
+
+// One entry of a Nominatim /search?format=jsonv2 response (only the fields used here)
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  place_rank?: number;
+}
+
+// Nominatim's place_rank: 30 = building, 26-27 = street, 17-25 = suburb/village, lower = town and up
+function confidenceForRank(rank: number | undefined): GeocodeConfidence {
+  if (rank === undefined) return 'low';
+  if (rank >= 26) return 'high';
+  if (rank >= 17) return 'medium';
+  return 'low';
+}
+
+// Geocoder for the Nominatim HTTP API (or anything that speaks it), with rate limiting and caching
+export function createNominatimGeocoder(options: NominatimOptions): Geocoder {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const minIntervalMs = options.minIntervalMs ?? DEFAULT_MIN_INTERVAL_MS;
+  const fetcher: GeocodeFetcher = options.fetcher ?? ((url, init) => fetch(url, init));
+
+  const resolvedCache = new Map<string, GeocodeResult>();
+  const failedCache = new Map<string, number>(); // address -> time of failure
+
+  // Requests go out one at a time, at most one per interval
+  let queue: Promise<unknown> = Promise.resolve();
+  let lastRequestAt = 0;
+
+  const throttled = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(async () => {
+      const wait = lastRequestAt + minIntervalMs - Date.now();
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+      lastRequestAt = Date.now();
+      return task();
+    });
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const search = async (address: string): Promise<GeocodeResult | null> => {
+    const params = new URLSearchParams({ q: address, format: 'jsonv2', limit: '1' });
+    if (options.email) params.set('email', options.email);
+    if (options.countryCodes) params.set('countrycodes', options.countryCodes);
+
+    const response = await fetcher(`${baseUrl}/search?${params}`, {
+      headers: { 'User-Agent': options.userAgent, Accept: 'application/json' },
+    });
+    if (!response.ok) {
+      throw new Error(`Geocoder responded with ${response.status}`);
+    }
+
+    const places = (await response.json()) as NominatimPlace[];
+    const place = Array.isArray(places) ? places[0] : undefined;
+    if (!place) return null;
+
+    const lat = parseFloat(place.lat);
+    const lng = parseFloat(place.lon);
+    if (isNaN(lat) || isNaN(lng)) return null;
+
+    return { lat, lng, confidence: confidenceForRank(place.place_rank) };
+  };
+
+  return {
+    async geocode(address: string): Promise<GeocodeResult | null> {
+      const key = address.trim().toLowerCase();
+      if (!key) return null;
+
+      const cached = resolvedCache.get(key);
+      if (cached) return cached;
+
+      const failedAt = failedCache.get(key);
+      if (failedAt !== undefined && Date.now() - failedAt < FAILURE_CACHE_TTL_MS) return null;
+
+      try {
+        const result = await throttled(() => search(address.trim()));
+        if (result) {
+          resolvedCache.set(key, result);
+          failedCache.delete(key);
+          return result;
+        }
+      } catch (error) {
+        console.error('Error geocoding address:', address, error);
+      }
+
+      failedCache.set(key, Date.now());
+      return null;
+    },
+  };
+}
+
+let configuredGeocoder: Geocoder | null | undefined;
+
+// The geocoder selected by GEOCODER ("nominatim"), or null when geocoding is off
+export function getGeocoder(): Geocoder | null {
+  if (configuredGeocoder !== undefined) return configuredGeocoder;
+
+  const provider = (process.env.GEOCODER || '').toLowerCase();
+  if (provider === 'nominatim') {
+    const minIntervalMs = parseInt(process.env.GEOCODER_MIN_INTERVAL_MS || '', 10);
+    configuredGeocoder = createNominatimGeocoder({
+      baseUrl: process.env.GEOCODER_URL || DEFAULT_NOMINATIM_URL,
+      userAgent: process.env.GEOCODER_USER_AGENT || 'delivery-coordinator',
+      email: process.env.GEOCODER_EMAIL || undefined,
+      countryCodes: process.env.GEOCODER_COUNTRY_CODES || undefined,
+      minIntervalMs: minIntervalMs >= 0 ? minIntervalMs : undefined,
+    });
+  } else {
+    if (provider) console.error(`Unknown GEOCODER "${provider}", geocoding is disabled`);
+    configuredGeocoder = null;
+  }
+
+  return configuredGeocoder;
+}
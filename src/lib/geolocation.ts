@@ -0,0 +1,21 @@
+import type { DevicePosition } from './recipientStore';
+
+// Best-effort GPS fix for tagging changes; resolves null if unavailable, denied or slow
+export function getCurrentPosition(timeoutMs = 5000): Promise<DevicePosition | null> {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60 * 1000 }
+    );
+  });
+}
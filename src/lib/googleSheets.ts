@@ -1,71 +1,34 @@
 import { google } from 'googleapis';
-
-// Types for recipients
-// Sheet columns: A=ID, B=GoogleMapLink, C=Latitude, D=Longitude, E=RecipientType, F=Parcels, G=Faculty, H=Phone, I=SecondaryPhone, J=Status
-export interface Recipient {
-  id: string; // Unique identifier from column A
-  googleMapLink: string;
-  coordinates: { lat: number; lng: number } | null;
-  recipientType: string;
-  parcels: number;
-  faculty: string;
-  phone: string;
-  secondaryPhone: string;
-  status: 'Pending' | 'On the way' | 'Delivered';
-}
-
-// Parse coordinates from various Google Maps link formats
-export function parseCoordinates(mapLink: string): { lat: number; lng: number } | null {
-  if (!mapLink) return null;
-
-  try {
-    // Format 1: https://www.google.com/maps?q=LAT,LNG
-    // Format 2: https://www.google.com/maps/place/.../@LAT,LNG,...
-    // Format 3: https://maps.google.com/?q=LAT,LNG
-    // Format 4: https://goo.gl/maps/... (short links - need to handle separately)
-    
-    // Try to extract from @LAT,LNG format (common in place URLs)
-    const atMatch = mapLink.match(/@(-?\d+\.?\d*),(-?\d+\.?\d*)/);
-    if (atMatch) {
-      return {
-        lat: parseFloat(atMatch[1]),
-        lng: parseFloat(atMatch[2]),
-      };
-    }
-
-    // Try to extract from q=LAT,LNG format
-    const qMatch = mapLink.match(/[?&]q=(-?\d+\.?\d*),(-?\d+\.?\d*)/);
-    if (qMatch) {
-      return {
-        lat: parseFloat(qMatch[1]),
-        lng: parseFloat(qMatch[2]),
-      };
-    }
-
-    // Try to extract from ll=LAT,LNG format
-    const llMatch = mapLink.match(/[?&]ll=(-?\d+\.?\d*),(-?\d+\.?\d*)/);
-    if (llMatch) {
-      return {
-        lat: parseFloat(llMatch[1]),
-        lng: parseFloat(llMatch[2]),
-      };
-    }
-
-    // Try to extract plain coordinates (LAT,LNG anywhere in the URL path)
-    const plainMatch = mapLink.match(/\/(-?\d+\.\d+),(-?\d+\.\d+)/);
-    if (plainMatch) {
-      return {
-        lat: parseFloat(plainMatch[1]),
-        lng: parseFloat(plainMatch[2]),
-      };
-    }
-
-    return null;
-  } catch {
-    console.error('Error parsing coordinates from:', mapLink);
-    return null;
-  }
-}
+import { getDepot } from './depot';
+import { DEFAULT_EVENT_ID, makeEventId, type DeliveryEvent, type NewEvent } from './events';
+import { getGeocoder, type GeocodeConfidence } from './geocoder';
+import { formatFieldNotes, parseFieldNotes, type FieldNote } from './fieldNotes';
+import type { ImportField, ImportMode, ImportRecord, ImportResult } from './importer';
+import { resolveMapLinks } from './mapLinks';
+import { formatProof, parseProof, type DeliveryProof } from './proof';
+import {
+  type EventRegistry,
+  type Recipient,
+  type RecipientStore,
+  type SessionRegistry,
+  type SessionRevocation,
+  type StatusChange,
+  type StatusUpdateResult,
+  type StatusWrite,
+  type StoreHealth,
+} from './recipientStore';
+import {
+  cellRange,
+  columnRange,
+  FIELD_DEFINITIONS,
+  getSchemaConfig,
+  parseRow,
+  quoteTab,
+  resolveLayout,
+  type RecipientField,
+  type SheetLayout,
+} from './sheetSchema';
+import { countsAsAttempt, isDeliveryStatus, parseAttempts, type DeliveryStatus } from './status';
 
 // Format private key - handles both escaped \n and actual newlines
 function formatPrivateKey(key: string | undefined): string | undefined {
@@ -81,8 +44,15 @@ function formatPrivateKey(key: string | undefined): string | undefined {
   return formatted;
 }
 
-// Get authenticated Google Sheets client
+// Get authenticated Google Sheets client, reused so access tokens are cached between requests
+let sheetsClient: ReturnType<typeof createClient> | null = null;
+
 async function getAuthenticatedClient() {
+  sheetsClient ??= createClient();
+  return sheetsClient;
+}
+
+function createClient() {
   const auth = new google.auth.GoogleAuth({
     credentials: {
       client_email: process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL,
@@ -94,178 +64,1250 @@ async function getAuthenticatedClient() {
   return google.sheets({ version: 'v4', auth });
 }
 
-// Fetch all recipients from the Google Sheet
-// Sheet columns: A=ID, B=GoogleMapLink, C=Latitude, D=Longitude, E=RecipientType, F=Parcels, G=Faculty, H=Phone, I=SecondaryPhone, J=Status
-export async function getRecipients(): Promise<Recipient[]> {
-  const sheets = await getAuthenticatedClient();
-  const sheetId = process.env.GOOGLE_SHEET_ID;
+type SheetsClient = Awaited<ReturnType<typeof getAuthenticatedClient>>;
+
+const MAX_RATE_LIMIT_RETRIES = 4;
+const BACKOFF_BASE_MS = 500;
+
+function isRateLimited(error: unknown): boolean {
+  const e = error as { code?: unknown; status?: unknown; response?: { status?: unknown } } | null;
+  return String(e?.code) === '429' || e?.status === 429 || e?.response?.status === 429;
+}
+
+// Retry a Sheets API call with exponential backoff (plus jitter) while Google answers 429 Too Many Requests
+async function withBackoff<T>(request: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!isRateLimited(error) || attempt >= MAX_RATE_LIMIT_RETRIES) throw error;
+      const delay = BACKOFF_BASE_MS * 2 ** attempt + Math.random() * BACKOFF_BASE_MS;
+      console.warn(`Sheets API rate limit hit, retrying in ${Math.round(delay)} ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// One read of the recipients tab, with what writes need to find a row without re-scanning
+interface SheetSnapshot {
+  recipients: Recipient[];
+  layout: SheetLayout;
+  rowById: Map<string, number>; // First row holding each ID, like findRowIndex()
+}
+
+const DEFAULT_CACHE_TTL_MS = 10 * 1000;
+
+function getCacheTtlMs(): number {
+  const ttl = parseInt(process.env.SHEETS_CACHE_TTL_MS || '', 10);
+  return ttl >= 0 ? ttl : DEFAULT_CACHE_TTL_MS;
+}
+
+// The tabs holding one delivery event: its recipients and its audit log
+export interface EventTabs {
+  recipients: string;
+  audit: string;
+}
 
+// Each recipients tab's list is shared by every request in this process: drivers refreshing
+// together cost one Sheets read per TTL, and concurrent misses wait for the same read
+interface TabCache {
+  cached: { snapshot: SheetSnapshot; fetchedAt: number } | null;
+  inflight: Promise<SheetSnapshot> | null;
+  generation: number; // Bumped by writes so a read that started before them isn't cached
+  // Row index from the last read; outlives invalidation since rows rarely move
+  rowIndex: Pick<SheetSnapshot, 'layout' | 'rowById'> | null;
+}
+
+const tabCaches = new Map<string, TabCache>();
+
+function getTabCache(tab: string): TabCache {
+  let cache = tabCaches.get(tab);
+  if (!cache) {
+    cache = { cached: null, inflight: null, generation: 0, rowIndex: null };
+    tabCaches.set(tab, cache);
+  }
+  return cache;
+}
+
+function loadSnapshot(tab: string): Promise<SheetSnapshot> {
+  const cache = getTabCache(tab);
+  if (cache.cached && Date.now() - cache.cached.fetchedAt < getCacheTtlMs()) {
+    return Promise.resolve(cache.cached.snapshot);
+  }
+  if (cache.inflight) return cache.inflight;
+
+  const generation = cache.generation;
+  const request = fetchSnapshot(tab)
+    .then((snapshot) => {
+      cache.rowIndex = { layout: snapshot.layout, rowById: snapshot.rowById };
+      if (generation === cache.generation) {
+        cache.cached = { snapshot, fetchedAt: Date.now() };
+      }
+      return snapshot;
+    })
+    .finally(() => {
+      if (cache.inflight === request) cache.inflight = null;
+    });
+
+  cache.inflight = request;
+  return request;
+}
+
+// Called after every write so the next read sees it
+function invalidateCache(tab: string): void {
+  const cache = getTabCache(tab);
+  cache.generation++;
+  cache.cached = null;
+  cache.inflight = null;
+}
+
+// Coordinates to write back to the Latitude/Longitude columns (and Geocode Confidence for geocoded rows)
+interface CoordinateUpdate {
+  rowIndex: number;
+  lat: string;
+  lng: string;
+  confidence?: GeocodeConfidence | ''; // '' clears it, e.g. when a coordinator places the pin by hand
+}
+
+// Addresses geocoded per read, so one slow read doesn't hold the map up for minutes
+const MAX_GEOCODES_PER_READ = 5;
+
+function parseConfidence(value: string | undefined): GeocodeConfidence | null {
+  const confidence = (value || '').trim().toLowerCase();
+  return confidence === 'high' || confidence === 'medium' || confidence === 'low' ? confidence : null;
+}
+
+function getSheetId(): string {
+  const sheetId = process.env.GOOGLE_SHEET_ID;
   if (!sheetId) {
     throw new Error('GOOGLE_SHEET_ID is not configured');
   }
+  return sheetId;
+}
 
-  const response = await sheets.spreadsheets.values.get({
-    spreadsheetId: sheetId,
-    range: 'Sheet1!A:J', // Columns A through J
-  });
+// Match a header row to the configured schema, refusing to go on if a write could land in the wrong column
+function layoutFromHeader(headerRow: unknown[], tab: string): SheetLayout {
+  const { layout, problems } = resolveLayout(headerRow, { ...getSchemaConfig(), tab });
+  const errors = problems.filter((p) => p.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Sheet "${layout.tab}" doesn't match the expected columns: ${errors.map((p) => p.message).join('; ')}`);
+  }
+  return layout;
+}
+
+// Read just the header row to find the columns before a write
+async function loadLayout(sheets: SheetsClient, sheetId: string, tab: string): Promise<SheetLayout> {
+  const response = await withBackoff(() =>
+    sheets.spreadsheets.values.get({
+      spreadsheetId: sheetId,
+      range: `${quoteTab(tab)}!1:1`,
+    })
+  );
+  return layoutFromHeader(response.data.values?.[0] ?? [], tab);
+}
+
+// Fetch all recipients from the Google Sheet (cached for SHEETS_CACHE_TTL_MS)
+// Columns are found by header name (see FIELD_DEFINITIONS in sheetSchema.ts), so they can be in any order
+export async function getRecipients(tabs: EventTabs): Promise<Recipient[]> {
+  const { recipients } = await loadSnapshot(tabs.recipients);
+  return [...recipients];
+}
+
+// Read the whole recipients tab, backfilling coordinates for rows that lack them
+async function fetchSnapshot(tab: string): Promise<SheetSnapshot> {
+  const sheets = await getAuthenticatedClient();
+  const sheetId = getSheetId();
+
+  const response = await withBackoff(() =>
+    sheets.spreadsheets.values.get({
+      spreadsheetId: sheetId,
+      range: quoteTab(tab), // The whole tab
+    })
+  );
 
   const rows = response.data.values;
   if (!rows || rows.length === 0) {
-    return [];
+    // An empty tab has no header either; writes will re-read it
+    return { recipients: [], layout: { tab, columns: {} }, rowById: new Map() };
   }
 
+  const layout = layoutFromHeader(rows[0], tab);
+
   // Track rows that need lat/lng updates
-  const rowsNeedingCoordinates: { rowIndex: number; lat: string; lng: string }[] = [];
+  const rowsNeedingCoordinates: CoordinateUpdate[] = [];
+  // Rows whose coordinates must come from the link or address: empty cells, or an earlier "error"
+  const rowsToResolve: { recipient: Recipient; rowIndex: number; cellsEmpty: boolean }[] = [];
 
   // Skip header row (index 0)
   const recipients: Recipient[] = rows.slice(1)
     .map((row, index) => {
       const actualRowIndex = index + 2; // +2 for header and 1-based indexing
-      const id = row[0] || '';
-      const googleMapLink = row[1] || '';
-      const latFromSheet = row[2] || '';
-      const lngFromSheet = row[3] || '';
+      const { values, invalidFields } = parseRow(row, layout, actualRowIndex);
 
       // Skip rows without an ID
-      if (!id) return null;
-
-      // Determine coordinates: use sheet values if valid numbers, otherwise parse from link
-      let coordinates: { lat: number; lng: number } | null = null;
-      let needsUpdate = false;
-
-      if (latFromSheet && lngFromSheet && latFromSheet !== 'error' && lngFromSheet !== 'error') {
-        // Try to use existing lat/lng from sheet
-        const lat = parseFloat(latFromSheet);
-        const lng = parseFloat(lngFromSheet);
-        if (!isNaN(lat) && !isNaN(lng)) {
-          coordinates = { lat, lng };
-        }
+      if (!values.id) return null;
+
+      // Determine coordinates: use sheet values if valid, otherwise resolve from link below
+      const coordinatesValid = values.latitude && values.longitude &&
+        !invalidFields.some((f) => f.field === 'latitude' || f.field === 'longitude') &&
+        values.latitude !== 'error' && values.longitude !== 'error';
+      const coordinates = coordinatesValid
+        ? { lat: parseFloat(values.latitude), lng: parseFloat(values.longitude) }
+        : null;
+
+      const recipient: Recipient = {
+        id: values.id,
+        googleMapLink: values.googleMapLink,
+        coordinates,
+        recipientType: values.recipientType,
+        parcels: invalidFields.some((f) => f.field === 'parcels') ? 0 : parseInt(values.parcels, 10) || 0,
+        faculty: values.faculty,
+        phone: values.phone,
+        secondaryPhone: values.secondaryPhone,
+        // Unknown statuses are reported in invalidFields and shown as Pending until fixed
+        status: isDeliveryStatus(values.status) ? values.status : 'Pending',
+        statusReason: values.statusReason,
+        attempts: parseAttempts(values.attempts),
+        assignedDriver: values.assignedDriver,
+        instructions: values.instructions,
+        fieldNotes: parseFieldNotes(values.fieldNotes),
+        address: values.address,
+        geocodeConfidence: coordinates ? parseConfidence(values.geocodeConfidence) : null,
+        proof: parseProof(values.proofOfDelivery),
+        hasConfirmationCode: Boolean(values.confirmationCode),
+        row: actualRowIndex,
+        invalidFields,
+      };
+
+      // Unreadable coordinate cells are treated like an earlier "error" and re-resolved
+      const cellsEmpty = !values.latitude && !values.longitude;
+      if (!coordinates && (recipient.googleMapLink || recipient.address)) {
+        rowsToResolve.push({ recipient, rowIndex: actualRowIndex, cellsEmpty });
       }
 
-      // If no valid coordinates from sheet, try to parse from link
-      if (!coordinates && googleMapLink) {
-        const parsed = parseCoordinates(googleMapLink);
-        if (parsed) {
-          coordinates = parsed;
-          // Mark for update if sheet cells are empty
-          if (!latFromSheet && !lngFromSheet) {
-            needsUpdate = true;
-            rowsNeedingCoordinates.push({
-              rowIndex: actualRowIndex,
-              lat: parsed.lat.toString(),
-              lng: parsed.lng.toString(),
-            });
-          }
-        } else if (!latFromSheet && !lngFromSheet) {
-          // Parsing failed and cells are empty - mark as error
-          needsUpdate = true;
+      return recipient;
+    })
+    .filter((r): r is Recipient => r !== null);
+
+  // Parse links (following short-link redirects); results are cached, so "error" rows are cheap to retry
+  if (rowsToResolve.length > 0) {
+    const resolved = await resolveMapLinks(
+      rowsToResolve.map(({ recipient }) => recipient.googleMapLink),
+      { reference: getDepot() ?? undefined }
+    );
+    const geocoder = getGeocoder();
+    let geocodesLeft = MAX_GEOCODES_PER_READ;
+
+    for (const [i, { recipient, rowIndex, cellsEmpty }] of rowsToResolve.entries()) {
+      const parsed = resolved[i];
+      if (parsed) {
+        recipient.coordinates = parsed;
+        rowsNeedingCoordinates.push({
+          rowIndex,
+          lat: parsed.lat.toString(),
+          lng: parsed.lng.toString(),
+        });
+        continue;
+      }
+
+      // Fall back to the address; the geocoder is rate limited, so only a few rows per read
+      if (geocoder && recipient.address && geocodesLeft > 0) {
+        geocodesLeft--;
+        const geocoded = await geocoder.geocode(recipient.address);
+        if (geocoded) {
+          recipient.coordinates = { lat: geocoded.lat, lng: geocoded.lng };
+          recipient.geocodeConfidence = geocoded.confidence;
           rowsNeedingCoordinates.push({
-            rowIndex: actualRowIndex,
-            lat: 'error',
-            lng: 'error',
+            rowIndex,
+            lat: geocoded.lat.toString(),
+            lng: geocoded.lng.toString(),
+            confidence: geocoded.confidence,
           });
+          continue;
         }
       }
 
-      return {
-        id,
-        googleMapLink,
-        coordinates,
-        recipientType: row[4] || '',
-        parcels: parseInt(row[5], 10) || 0,
-        faculty: row[6] || '',
-        phone: row[7] || '',
-        secondaryPhone: row[8] || '',
-        status: (row[9] as Recipient['status']) || 'Pending',
-      };
-    })
-    .filter((r): r is Recipient => r !== null);
+      if (cellsEmpty) {
+        // Parsing failed and cells are empty - mark as error
+        rowsNeedingCoordinates.push({ rowIndex, lat: 'error', lng: 'error' });
+      }
+    }
+  }
 
   // Update sheet with parsed coordinates (async, don't await - fire and forget)
   if (rowsNeedingCoordinates.length > 0) {
-    updateCoordinatesInSheet(sheets, sheetId, rowsNeedingCoordinates).catch((err) => {
+    updateCoordinatesInSheet(sheets, sheetId, layout, rowsNeedingCoordinates).catch((err) => {
       console.error('Error updating coordinates in sheet:', err);
     });
   }
 
-  return recipients;
+  const rowById = new Map<string, number>();
+  for (const recipient of recipients) {
+    if (!rowById.has(recipient.id)) rowById.set(recipient.id, recipient.row);
+  }
+
+  return { recipients, layout, rowById };
 }
 
-// Update latitude and longitude columns in the sheet
+// Update latitude and longitude columns (and the geocode confidence, if geocoded) in the sheet
 async function updateCoordinatesInSheet(
-  sheets: Awaited<ReturnType<typeof getAuthenticatedClient>>,
+  sheets: SheetsClient,
   sheetId: string,
-  updates: { rowIndex: number; lat: string; lng: string }[]
+  layout: SheetLayout,
+  updates: CoordinateUpdate[]
 ): Promise<void> {
-  // Batch update all coordinates
-  const data = updates.map(({ rowIndex, lat, lng }) => ({
-    range: `Sheet1!C${rowIndex}:D${rowIndex}`,
-    values: [[lat, lng]],
-  }));
-
-  await sheets.spreadsheets.values.batchUpdate({
-    spreadsheetId: sheetId,
-    requestBody: {
-      valueInputOption: 'USER_ENTERED',
-      data,
-    },
+  // Batch update all coordinates; the two columns needn't be next to each other
+  const data = updates.flatMap(({ rowIndex, lat, lng, confidence }) => [
+    { range: cellRange(layout, 'latitude', rowIndex)!, values: [[lat]] },
+    { range: cellRange(layout, 'longitude', rowIndex)!, values: [[lng]] },
+    // Sheets without a Geocode Confidence column just don't record it
+    ...(confidence !== undefined && layout.columns.geocodeConfidence !== undefined
+      ? [{ range: cellRange(layout, 'geocodeConfidence', rowIndex)!, values: [[confidence]] }]
+      : []),
+  ]);
+
+  await withBackoff(() =>
+    sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId: sheetId,
+      requestBody: {
+        valueInputOption: 'USER_ENTERED',
+        data,
+      },
+    })
+  );
+}
+
+// Find the 1-based sheet row for a recipient ID by scanning the ID column
+async function findRowIndex(
+  sheets: SheetsClient,
+  sheetId: string,
+  layout: SheetLayout,
+  id: string
+): Promise<number | null> {
+  // Fetch ID column only to find the row
+  const response = await withBackoff(() =>
+    sheets.spreadsheets.values.get({
+      spreadsheetId: sheetId,
+      range: columnRange(layout, 'id')!,
+    })
+  );
+
+  const rows = response.data.values;
+  if (!rows || rows.length < 2) {
+    return null;
+  }
+
+  // Find the row with matching ID (skip header at index 0)
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i];
+    const rowId = String(row[0] ?? '').trim();
+
+    if (rowId === id) {
+      return i + 1; // +1 because Sheets uses 1-based indexing
+    }
+  }
+
+  return null;
+}
+
+// A recipient's row, plus the current values of the cells asked for (absent columns read as '')
+interface LocatedRow {
+  layout: SheetLayout;
+  row: number;
+  values: Partial<Record<RecipientField, string>>;
+}
+
+// Read some cells of one row in a single request, plus the header row if asked for
+async function readCells(
+  sheets: SheetsClient,
+  sheetId: string,
+  layout: SheetLayout,
+  row: number,
+  fields: RecipientField[],
+  withHeader = false
+): Promise<{ values: Partial<Record<RecipientField, string>>; header: unknown[] | null }> {
+  const present = fields.filter((field) => layout.columns[field] !== undefined);
+  const values: Partial<Record<RecipientField, string>> = Object.fromEntries(fields.map((field) => [field, '']));
+  if (present.length === 0 && !withHeader) return { values, header: null };
+
+  const headerRanges = withHeader ? [`${quoteTab(layout.tab)}!1:1`] : [];
+  const response = await withBackoff(() =>
+    sheets.spreadsheets.values.batchGet({
+      spreadsheetId: sheetId,
+      ranges: [...headerRanges, ...present.map((field) => cellRange(layout, field, row)!)],
+    })
+  );
+  const ranges = response.data.valueRanges ?? [];
+  ranges.slice(headerRanges.length).forEach((range, i) => {
+    values[present[i]] = String(range.values?.[0]?.[0] ?? '').trim();
   });
+  return { values, header: withHeader ? ranges[0]?.values?.[0] ?? [] : null };
+}
+
+// Whether two layouts put every field in the same column
+function sameColumns(a: SheetLayout, b: SheetLayout): boolean {
+  return (Object.keys(FIELD_DEFINITIONS) as RecipientField[]).every((field) => a.columns[field] === b.columns[field]);
 }
 
-// Update the delivery status for a specific recipient by ID (column A)
-export async function updateDeliveryStatus(
+// Find a recipient's row for a write. Uses the row index from the last read, checking the ID
+// cell is still there and the header row still has the same columns (in the same request as
+// reading `fields`); falls back to scanning the ID column if the index is missing or rows or
+// columns have moved.
+async function locateRow(
+  sheets: SheetsClient,
+  sheetId: string,
+  tab: string,
   id: string,
-  status: 'Pending' | 'On the way' | 'Delivered'
-): Promise<boolean> {
+  fields: RecipientField[] = []
+): Promise<LocatedRow | null> {
+  const cache = getTabCache(tab);
+  const indexed = cache.rowIndex?.rowById.get(id);
+  if (cache.rowIndex && indexed !== undefined) {
+    const { layout } = cache.rowIndex;
+    const { values: { id: idCell, ...values }, header } = await readCells(sheets, sheetId, layout, indexed, ['id', ...fields], true);
+
+    if (idCell === id && sameColumns(layoutFromHeader(header ?? [], tab), layout)) {
+      return { layout, row: indexed, values };
+    }
+    // Someone inserted, deleted or moved rows or columns by hand; forget the index until the next read
+    cache.rowIndex = null;
+    invalidateCache(tab);
+  }
+
+  const layout = await loadLayout(sheets, sheetId, tab);
+  const row = await findRowIndex(sheets, sheetId, layout, id);
+  if (row === null) return null;
+
+  return { layout, row, values: (await readCells(sheets, sheetId, layout, row, fields)).values };
+}
+
+// Fetch a single recipient by ID
+export async function getRecipient(tabs: EventTabs, id: string): Promise<Recipient | null> {
+  const recipients = await getRecipients(tabs);
+  return recipients.find((r) => r.id === id) ?? null;
+}
+
+// Write a single field in a recipient's row, located by ID
+async function updateRecipientCell(tabs: EventTabs, id: string, field: RecipientField, value: string): Promise<boolean> {
   const sheets = await getAuthenticatedClient();
-  const sheetId = process.env.GOOGLE_SHEET_ID;
+  const sheetId = getSheetId();
+  const located = await locateRow(sheets, sheetId, tabs.recipients, id);
 
-  if (!sheetId) {
-    throw new Error('GOOGLE_SHEET_ID is not configured');
+  if (located === null) {
+    console.error('Recipient not found with ID:', id);
+    return false;
   }
 
-  try {
-    // Fetch ID column only to find the row
-    const response = await sheets.spreadsheets.values.get({
+  const { layout, row } = located;
+  if (layout.columns[field] === undefined) {
+    throw new Error(`Sheet "${layout.tab}" has no "${FIELD_DEFINITIONS[field].header}" column`);
+  }
+
+  await withBackoff(() =>
+    sheets.spreadsheets.values.update({
       spreadsheetId: sheetId,
-      range: 'Sheet1!A:A',
-    });
+      range: cellRange(layout, field, row)!,
+      valueInputOption: 'USER_ENTERED',
+      requestBody: {
+        values: [[value]],
+      },
+    })
+  );
 
-    const rows = response.data.values;
-    if (!rows || rows.length < 2) {
-      return false;
+  invalidateCache(tabs.recipients);
+  return true;
+}
+
+// Per-recipient locks so read-compare-write cycles in this process don't interleave.
+// Keyed by tab and ID, since the same ID may be in several events.
+const recipientLocks = new Map<string, Promise<unknown>>();
+
+function withRecipientLock<T>(tab: string, recipientId: string, run: () => Promise<T>): Promise<T> {
+  const id = `${tab}\n${recipientId}`;
+  const previous = recipientLocks.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(run);
+  const settled = next.catch(() => undefined);
+  recipientLocks.set(id, settled);
+  // Drop the lock once nothing else is queued behind it
+  settled.then(() => {
+    if (recipientLocks.get(id) === settled) recipientLocks.delete(id);
+  });
+  return next;
+}
+
+// Hold several recipients' locks at once; taken in sorted order so two batches can't deadlock
+function withRecipientLocks<T>(tab: string, ids: string[], run: () => Promise<T>): Promise<T> {
+  const sorted = [...new Set(ids)].sort();
+  const acquire = (index: number): Promise<T> =>
+    index === sorted.length ? run() : withRecipientLock(tab, sorted[index], () => acquire(index + 1));
+  return acquire(0);
+}
+
+// Cells to write for one status change: the status, its reason and the attempt count
+// (the last two only if the sheet has those columns)
+function statusCellUpdates(layout: SheetLayout, row: number, write: StatusWrite, attempts: number) {
+  const cells: [RecipientField, string | number][] = [
+    ['status', write.status],
+    ['statusReason', write.reason ?? ''],
+    ['attempts', attempts],
+  ];
+  return cells
+    .filter(([field]) => layout.columns[field] !== undefined)
+    .map(([field, value]) => ({ range: cellRange(layout, field, row)!, values: [[value]] }));
+}
+
+// Update the delivery status for a specific recipient by ID
+// Re-reads the Status cell right before writing so a stale client can't overwrite a newer status.
+// Sheets has no transactions, so this narrows the race window rather than closing it.
+export async function updateDeliveryStatus(tabs: EventTabs, write: StatusWrite): Promise<StatusUpdateResult> {
+  const { id, status, expectedStatus } = write;
+  const sheets = await getAuthenticatedClient();
+  const sheetId = getSheetId();
+
+  return withRecipientLock(tabs.recipients, id, async (): Promise<StatusUpdateResult> => {
+    const located = await locateRow(sheets, sheetId, tabs.recipients, id, ['status', 'attempts']);
+
+    if (located === null) {
+      console.error('Recipient not found with ID:', id);
+      return { ok: false, reason: 'not_found' };
+    }
+
+    // Unknown values read as Pending, same as getRecipients()
+    const cell = located.values.status ?? '';
+    const currentStatus: DeliveryStatus = isDeliveryStatus(cell) ? cell : 'Pending';
+
+    if (expectedStatus !== undefined && currentStatus !== expectedStatus) {
+      return { ok: false, reason: 'conflict', currentStatus };
     }
 
-    // Find the row with matching ID in column A (skip header at index 0)
-    let targetRowIndex: number | null = null;
-    for (let i = 1; i < rows.length; i++) {
-      const row = rows[i];
-      const rowId = row[0] || ''; // ID is in column A (index 0)
+    const attempts = parseAttempts(located.values.attempts) + (countsAsAttempt(status) ? 1 : 0);
+    await withBackoff(() =>
+      sheets.spreadsheets.values.batchUpdate({
+        spreadsheetId: sheetId,
+        requestBody: {
+          valueInputOption: 'RAW', // A reason starting with "=" is text, not a formula
+          data: statusCellUpdates(located.layout, located.row, write, attempts),
+        },
+      })
+    );
 
-      if (rowId === id) {
-        targetRowIndex = i + 1; // +1 because Sheets uses 1-based indexing
-        break;
+    invalidateCache(tabs.recipients);
+    return { ok: true, previousStatus: currentStatus, attempts };
+  });
+}
+
+// Update many statuses with one read of the ID, Status and Attempts columns and one batchUpdate,
+// applying the same compare-and-set as updateDeliveryStatus() to each write
+export async function updateDeliveryStatuses(tabs: EventTabs, writes: StatusWrite[]): Promise<StatusUpdateResult[]> {
+  if (writes.length === 0) return [];
+
+  const sheets = await getAuthenticatedClient();
+  const sheetId = getSheetId();
+
+  return withRecipientLocks(tabs.recipients, writes.map((w) => w.id), async (): Promise<StatusUpdateResult[]> => {
+    const layout = await loadLayout(sheets, sheetId, tabs.recipients);
+    const hasAttempts = layout.columns.attempts !== undefined;
+    const response = await withBackoff(() =>
+      sheets.spreadsheets.values.batchGet({
+        spreadsheetId: sheetId,
+        ranges: [
+          columnRange(layout, 'id')!,
+          columnRange(layout, 'status')!,
+          ...(hasAttempts ? [columnRange(layout, 'attempts')!] : []),
+        ],
+      })
+    );
+    const [idColumn, statusColumn, attemptsColumn] = (response.data.valueRanges ?? []).map((r) => r.values ?? []);
+
+    // First row for each ID (skip the header), and the status and attempt count each row holds right now
+    const rowById = new Map<string, number>();
+    const statusByRow = new Map<number, DeliveryStatus>();
+    const attemptsByRow = new Map<number, number>();
+    (idColumn ?? []).forEach((cells, i) => {
+      const id = String(cells[0] ?? '').trim();
+      if (i === 0 || !id || rowById.has(id)) return;
+      const cell = String(statusColumn?.[i]?.[0] ?? '').trim();
+      rowById.set(id, i + 1);
+      statusByRow.set(i + 1, isDeliveryStatus(cell) ? cell : 'Pending');
+      attemptsByRow.set(i + 1, parseAttempts(attemptsColumn?.[i]?.[0]));
+    });
+
+    // Later writes in the batch see the effect of earlier ones, as if applied one by one
+    const written = new Map<number, { write: StatusWrite; attempts: number }>();
+    const results = writes.map((write): StatusUpdateResult => {
+      const row = rowById.get(write.id);
+      if (row === undefined) return { ok: false, reason: 'not_found' };
+
+      const currentStatus = statusByRow.get(row)!;
+      if (write.expectedStatus !== undefined && currentStatus !== write.expectedStatus) {
+        return { ok: false, reason: 'conflict', currentStatus };
       }
+      const attempts = attemptsByRow.get(row)! + (countsAsAttempt(write.status) ? 1 : 0);
+      statusByRow.set(row, write.status);
+      attemptsByRow.set(row, attempts);
+      written.set(row, { write, attempts });
+      return { ok: true, previousStatus: currentStatus, attempts };
+    });
+
+    if (written.size > 0) {
+      await withBackoff(() =>
+        sheets.spreadsheets.values.batchUpdate({
+          spreadsheetId: sheetId,
+          requestBody: {
+            valueInputOption: 'RAW',
+            data: [...written].flatMap(([row, { write, attempts }]) => statusCellUpdates(layout, row, write, attempts)),
+          },
+        })
+      );
+      invalidateCache(tabs.recipients);
     }
 
-    if (targetRowIndex === null) {
+    return results;
+  });
+}
+
+// Assign a recipient to a driver by name
+export async function assignDriver(tabs: EventTabs, id: string, driverName: string): Promise<boolean> {
+  return updateRecipientCell(tabs, id, 'assignedDriver', driverName);
+}
+
+// Add a note to the Field Notes cell, re-reading it under the recipient's lock so
+// two drivers' notes can't overwrite each other
+export async function appendFieldNote(tabs: EventTabs, id: string, note: FieldNote): Promise<boolean> {
+  const sheets = await getAuthenticatedClient();
+  const sheetId = getSheetId();
+
+  return withRecipientLock(tabs.recipients, id, async () => {
+    const located = await locateRow(sheets, sheetId, tabs.recipients, id, ['fieldNotes']);
+    if (located === null) {
       console.error('Recipient not found with ID:', id);
       return false;
     }
 
-    // Update the status column for the found row (column J)
-    await sheets.spreadsheets.values.update({
+    const { layout, row, values } = located;
+    if (layout.columns.fieldNotes === undefined) {
+      throw new Error(`Sheet "${layout.tab}" has no "${FIELD_DEFINITIONS.fieldNotes.header}" column`);
+    }
+
+    const notes = [...parseFieldNotes(values.fieldNotes ?? ''), note];
+    await withBackoff(() =>
+      sheets.spreadsheets.values.update({
+        spreadsheetId: sheetId,
+        range: cellRange(layout, 'fieldNotes', row)!,
+        valueInputOption: 'RAW', // Free text from drivers, never a formula
+        requestBody: {
+          values: [[formatFieldNotes(notes)]],
+        },
+      })
+    );
+
+    invalidateCache(tabs.recipients);
+    return true;
+  });
+}
+
+// Read a recipient's confirmation code straight from the sheet (it isn't kept in the cache)
+export async function getConfirmationCode(tabs: EventTabs, id: string): Promise<string | null> {
+  const sheets = await getAuthenticatedClient();
+  const located = await locateRow(sheets, getSheetId(), tabs.recipients, id, ['confirmationCode']);
+  return located?.values.confirmationCode || null;
+}
+
+// Whether the tab has a Proof of Delivery column, read from the header row so it's current
+export async function canSaveProof(tabs: EventTabs): Promise<boolean> {
+  const layout = await loadLayout(await getAuthenticatedClient(), getSheetId(), tabs.recipients);
+  return layout.columns.proofOfDelivery !== undefined;
+}
+
+// Record proof of delivery in the Proof of Delivery column
+export async function saveProof(tabs: EventTabs, id: string, proof: DeliveryProof): Promise<boolean> {
+  return updateRecipientCell(tabs, id, 'proofOfDelivery', formatProof(proof));
+}
+
+// Fields written as numbers so the sheet can sum and sort them; everything else stays text
+const NUMERIC_IMPORT_FIELDS: RecipientField[] = ['parcels', 'latitude', 'longitude'];
+
+function importCellValue(field: RecipientField, value: string): string | number {
+  return value !== '' && NUMERIC_IMPORT_FIELDS.includes(field) ? Number(value) : value;
+}
+
+// Append new recipients as rows and overwrite the imported cells of existing ones, with one
+// read of the ID column and at most one append and one batchUpdate. Mapped fields the sheet
+// has no column for are reported rather than failing the import.
+export async function importRecipients(tabs: EventTabs, records: ImportRecord[], mode: ImportMode): Promise<ImportResult> {
+  const sheets = await getAuthenticatedClient();
+  const sheetId = getSheetId();
+
+  return withRecipientLocks(tabs.recipients, records.map((r) => r.id), async (): Promise<ImportResult> => {
+    const layout = await loadLayout(sheets, sheetId, tabs.recipients);
+    const response = await withBackoff(() =>
+      sheets.spreadsheets.values.get({
+        spreadsheetId: sheetId,
+        range: columnRange(layout, 'id')!,
+      })
+    );
+
+    const rowById = new Map<string, number>();
+    (response.data.values ?? []).forEach((cells, i) => {
+      const id = String(cells[0] ?? '').trim();
+      if (i > 0 && id && !rowById.has(id)) rowById.set(id, i + 1);
+    });
+
+    const ignoredFields = new Set<ImportField>();
+    const present = (record: ImportRecord) =>
+      (Object.entries(record) as [ImportField, string][]).filter(([field]) => {
+        if (layout.columns[field] !== undefined) return true;
+        ignoredFields.add(field);
+        return false;
+      });
+
+    const width = Math.max(...Object.values(layout.columns)) + 1;
+    const newRows: (string | number)[][] = [];
+    const updates: { range: string; values: (string | number)[][] }[] = [];
+    const skipped: string[] = [];
+
+    for (const record of records) {
+      const row = rowById.get(record.id);
+      if (row === undefined) {
+        const cells: (string | number)[] = new Array(width).fill('');
+        cells[layout.columns.status!] = 'Pending';
+        for (const [field, value] of present(record)) {
+          cells[layout.columns[field]!] = importCellValue(field, value);
+        }
+        newRows.push(cells);
+      } else if (mode === 'append') {
+        skipped.push(record.id);
+      } else {
+        for (const [field, value] of present(record)) {
+          if (field === 'id') continue;
+          updates.push({ range: cellRange(layout, field, row)!, values: [[importCellValue(field, value)]] });
+        }
+        // New coordinates didn't come from the geocoder
+        if (record.latitude !== undefined && layout.columns.geocodeConfidence !== undefined) {
+          updates.push({ range: cellRange(layout, 'geocodeConfidence', row)!, values: [['']] });
+        }
+      }
+    }
+
+    if (newRows.length > 0) {
+      await withBackoff(() =>
+        sheets.spreadsheets.values.append({
+          spreadsheetId: sheetId,
+          range: `${quoteTab(layout.tab)}!A1`,
+          valueInputOption: 'RAW', // Imported text is never a formula, and phone numbers keep their leading 0
+          insertDataOption: 'INSERT_ROWS',
+          requestBody: { values: newRows },
+        })
+      );
+    }
+    if (updates.length > 0) {
+      await withBackoff(() =>
+        sheets.spreadsheets.values.batchUpdate({
+          spreadsheetId: sheetId,
+          requestBody: { valueInputOption: 'RAW', data: updates },
+        })
+      );
+    }
+
+    invalidateCache(tabs.recipients);
+    return {
+      created: newRows.length,
+      updated: records.length - newRows.length - skipped.length,
+      skipped,
+      ignoredFields: [...ignoredFields],
+    };
+  });
+}
+
+// Overwrite the latitude/longitude columns for a recipient by ID
+export async function updateRecipientCoordinates(
+  tabs: EventTabs,
+  id: string,
+  coordinates: { lat: number; lng: number }
+): Promise<boolean> {
+  const sheets = await getAuthenticatedClient();
+  const sheetId = getSheetId();
+
+  const located = await locateRow(sheets, sheetId, tabs.recipients, id);
+  if (located === null) {
+    return false;
+  }
+
+  await updateCoordinatesInSheet(sheets, sheetId, located.layout, [
+    { rowIndex: located.row, lat: coordinates.lat.toString(), lng: coordinates.lng.toString(), confidence: '' },
+  ]);
+
+  invalidateCache(tabs.recipients);
+  return true;
+}
+
+// Link to a row of the recipients tab in the Google Sheets editor
+function getRowLink(tabs: EventTabs, row: number): string | null {
+  const sheetId = process.env.GOOGLE_SHEET_ID;
+  if (!sheetId) return null;
+  return `https://docs.google.com/spreadsheets/d/${sheetId}/edit#range=${encodeURIComponent(`${quoteTab(tabs.recipients)}!A${row}`)}`;
+}
+
+// Check credentials, the sheet ID and the header row against the expected schema
+export async function checkSheetHealth(tabs: EventTabs): Promise<StoreHealth> {
+  try {
+    const sheets = await getAuthenticatedClient();
+    const sheetId = getSheetId();
+    const config = { ...getSchemaConfig(), tab: tabs.recipients };
+
+    const response = await withBackoff(() =>
+      sheets.spreadsheets.values.get({
+        spreadsheetId: sheetId,
+        range: `${quoteTab(config.tab)}!1:1`,
+      })
+    );
+
+    const { problems } = resolveLayout(response.data.values?.[0] ?? [], config);
+    return { ok: !problems.some((p) => p.severity === 'error'), problems };
+  } catch (error) {
+    return {
+      ok: false,
+      problems: [{ severity: 'error', code: 'store_unreachable', message: `Can't read the sheet: ${error instanceof Error ? error.message : String(error)}` }],
+    };
+  }
+}
+
+// Audit log tab columns: A=Timestamp, B=RecipientID, C=OldStatus, D=NewStatus, E=Driver, F=Latitude, G=Longitude, H=Accuracy, I=Reason
+function getAuditRange(tab: string): string {
+  return `${quoteTab(tab)}!A:I`;
+}
+
+// Append status transitions to the audit log tab in one request
+export async function appendStatusChanges(tabs: EventTabs, changes: StatusChange[]): Promise<void> {
+  if (changes.length === 0) return;
+
+  const sheets = await getAuthenticatedClient();
+  const sheetId = getSheetId();
+
+  await withBackoff(() =>
+    sheets.spreadsheets.values.append({
       spreadsheetId: sheetId,
-      range: `Sheet1!J${targetRowIndex}`, // Status is in column J
-      valueInputOption: 'USER_ENTERED',
+      range: getAuditRange(tabs.audit),
+      valueInputOption: 'RAW', // Keep timestamps and IDs as plain text
+      insertDataOption: 'INSERT_ROWS',
       requestBody: {
-        values: [[status]],
+        values: changes.map((change) => [
+          change.timestamp,
+          change.recipientId,
+          change.oldStatus,
+          change.newStatus,
+          change.driver,
+          change.position?.lat ?? '',
+          change.position?.lng ?? '',
+          change.position?.accuracy ?? '',
+          change.reason,
+        ]),
       },
+    })
+  );
+}
+
+// Read the whole audit log, oldest first
+export async function listStatusChanges(tabs: EventTabs): Promise<StatusChange[]> {
+  const sheets = await getAuthenticatedClient();
+  const sheetId = getSheetId();
+
+  const response = await withBackoff(() =>
+    sheets.spreadsheets.values.get({
+      spreadsheetId: sheetId,
+      range: getAuditRange(tabs.audit),
+    })
+  );
+
+  const rows = response.data.values || [];
+
+  // Skip header row (index 0)
+  return rows.slice(1)
+    .filter((row) => row[1])
+    .map((row) => {
+      const lat = parseFloat(row[5]);
+      const lng = parseFloat(row[6]);
+      const accuracy = parseFloat(row[7]);
+
+      return {
+        timestamp: row[0] || '',
+        recipientId: row[1],
+        oldStatus: row[2] as DeliveryStatus,
+        newStatus: row[3] as DeliveryStatus,
+        reason: row[8] || '',
+        driver: row[4] || '',
+        position: !isNaN(lat) && !isNaN(lng)
+          ? { lat, lng, ...(!isNaN(accuracy) && { accuracy }) }
+          : null,
+      };
     });
+}
+
+// Read the audit log entries for one recipient, oldest first
+export async function getStatusHistory(tabs: EventTabs, recipientId: string): Promise<StatusChange[]> {
+  const changes = await listStatusChanges(tabs);
+  return changes.filter((change) => change.recipientId === recipientId);
+}
+
+// Google Sheets implementation of the recipient store, for one event's tabs
+export function createSheetsRecipientStore(event: DeliveryEvent): RecipientStore {
+  const tabs: EventTabs = { recipients: event.partition, audit: event.auditPartition };
+  return {
+    eventId: event.id,
+    listRecipients: () => getRecipients(tabs),
+    getRecipient: (id) => getRecipient(tabs, id),
+    updateStatus: (write) => updateDeliveryStatus(tabs, write),
+    updateCoordinates: (id, coordinates) => updateRecipientCoordinates(tabs, id, coordinates),
+    updateStatuses: (writes) => updateDeliveryStatuses(tabs, writes),
+    assignDriver: (id, driverName) => assignDriver(tabs, id, driverName),
+    appendFieldNote: (id, note) => appendFieldNote(tabs, id, note),
+    getConfirmationCode: (id) => getConfirmationCode(tabs, id),
+    canSaveProof: () => canSaveProof(tabs),
+    saveProof: (id, proof) => saveProof(tabs, id, proof),
+    importRecipients: (records, mode) => importRecipients(tabs, records, mode),
+    appendStatusChanges: (changes) => appendStatusChanges(tabs, changes),
+    listStatusChanges: () => listStatusChanges(tabs),
+    getStatusHistory: (recipientId) => getStatusHistory(tabs, recipientId),
+    getRowLink: (row) => getRowLink(tabs, row),
+    checkHealth: () => checkSheetHealth(tabs),
+  };
+}
+
+// The recipients and audit log tabs from before events: SHEET_TAB and AUDIT_SHEET_TAB
+export function defaultSheetsEvent(): DeliveryEvent {
+  return {
+    id: DEFAULT_EVENT_ID,
+    name: process.env.DEFAULT_EVENT_NAME || 'Original roster',
+    date: '',
+    partition: getSchemaConfig().tab,
+    auditPartition: process.env.AUDIT_SHEET_TAB || 'Audit Log',
+    closed: false,
+    createdAt: '',
+  };
+}
+
+// Events tab columns: A=ID, B=Name, C=Date, D=Recipients Tab, E=Audit Tab, F=Closed, G=Created
+const EVENT_HEADERS = ['ID', 'Name', 'Date', 'Recipients Tab', 'Audit Tab', 'Closed', 'Created'];
+const AUDIT_HEADERS = ['Timestamp', 'Recipient ID', 'Old Status', 'New Status', 'Driver', 'Latitude', 'Longitude', 'Accuracy', 'Reason'];
+
+function getEventsTab(): string {
+  return process.env.EVENTS_SHEET_TAB || 'Events';
+}
+
+function eventToRow(event: DeliveryEvent): string[] {
+  return [event.id, event.name, event.date, event.partition, event.auditPartition, event.closed ? 'TRUE' : 'FALSE', event.createdAt];
+}
+
+function eventFromRow(row: unknown[]): DeliveryEvent | null {
+  const [id, name, date, partition, auditPartition, closed, createdAt] = EVENT_HEADERS.map((_, i) => String(row[i] ?? '').trim());
+  if (!id || !partition) return null;
+  return {
+    id,
+    name: name || id,
+    date,
+    partition,
+    auditPartition: auditPartition || `${partition} audit`,
+    closed: closed.toUpperCase() === 'TRUE',
+    createdAt,
+  };
+}
+
+// Titles of the spreadsheet's tabs, with the numeric IDs that structural requests need
+async function getTabIds(sheets: SheetsClient, sheetId: string): Promise<Map<string, number>> {
+  const response = await withBackoff(() =>
+    sheets.spreadsheets.get({
+      spreadsheetId: sheetId,
+      fields: 'sheets.properties(sheetId,title)',
+    })
+  );
+  return new Map((response.data.sheets ?? []).map((sheet) => [sheet.properties?.title ?? '', sheet.properties?.sheetId ?? 0]));
+}
+
+// Every API request looks up its event, so the Events tab is cached like the recipients
+let cachedEvents: { events: DeliveryEvent[]; fetchedAt: number } | null = null;
+
+// Read the Events tab; just the original roster until the first event is created
+async function listSheetEvents(): Promise<DeliveryEvent[]> {
+  if (cachedEvents && Date.now() - cachedEvents.fetchedAt < getCacheTtlMs()) {
+    return cachedEvents.events;
+  }
+
+  const sheets = await getAuthenticatedClient();
+  const sheetId = getSheetId();
+  const tabIds = await getTabIds(sheets, sheetId);
+
+  let events = [defaultSheetsEvent()];
+  if (tabIds.has(getEventsTab())) {
+    const response = await withBackoff(() =>
+      sheets.spreadsheets.values.get({
+        spreadsheetId: sheetId,
+        range: `${quoteTab(getEventsTab())}!A:G`,
+      })
+    );
+    const listed = (response.data.values ?? []).slice(1)
+      .map(eventFromRow)
+      .filter((event): event is DeliveryEvent => event !== null);
+    if (listed.length > 0) events = listed;
+  }
+
+  cachedEvents = { events, fetchedAt: Date.now() };
+  return events;
+}
+
+// Event changes read the Events tab and then write it, so they take turns (so do session revocations)
+let registryQueue: Promise<unknown> = Promise.resolve();
+
+function withRegistryLock<T>(run: () => Promise<T>): Promise<T> {
+  const next = registryQueue.then(run);
+  registryQueue = next.catch(() => undefined);
+  return next;
+}
+
+// Create the Events tab, listing the original roster, if this is the first event change
+async function ensureEventsTab(sheets: SheetsClient, sheetId: string, tabIds: Map<string, number>): Promise<void> {
+  const tab = getEventsTab();
+  if (tabIds.has(tab)) return;
+
+  await withBackoff(() =>
+    sheets.spreadsheets.batchUpdate({
+      spreadsheetId: sheetId,
+      requestBody: { requests: [{ addSheet: { properties: { title: tab } } }] },
+    })
+  );
+  await withBackoff(() =>
+    sheets.spreadsheets.values.update({
+      spreadsheetId: sheetId,
+      range: `${quoteTab(tab)}!A1`,
+      valueInputOption: 'RAW',
+      requestBody: { values: [EVENT_HEADERS, eventToRow(defaultSheetsEvent())] },
+    })
+  );
+}
+
+// Fields that belong to one round's deliveries rather than to the recipient. A confirmation code
+// was read out to a driver last round, so it can't prove anything in the next one.
+const ROUND_FIELDS: RecipientField[] = ['statusReason', 'attempts', 'proofOfDelivery', 'confirmationCode', 'fieldNotes'];
 
+// Set every recipient of a freshly copied tab back to Pending and clear what the last round recorded
+async function resetRoundCells(sheets: SheetsClient, sheetId: string, tab: string): Promise<void> {
+  const layout = await loadLayout(sheets, sheetId, tab);
+  const response = await withBackoff(() =>
+    sheets.spreadsheets.values.get({
+      spreadsheetId: sheetId,
+      range: columnRange(layout, 'id')!,
+    })
+  );
+  const ids = (response.data.values ?? []).slice(1).map((cells) => String(cells[0] ?? '').trim());
+  if (ids.length === 0) return;
+
+  // Each range starts at row 2 and runs down one cell per row
+  const data = [
+    { range: cellRange(layout, 'status', 2)!, values: ids.map((id) => [id ? 'Pending' : '']) },
+    ...ROUND_FIELDS.filter((field) => layout.columns[field] !== undefined).map((field) => ({
+      range: cellRange(layout, field, 2)!,
+      values: ids.map(() => ['']),
+    })),
+  ];
+  await withBackoff(() =>
+    sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId: sheetId,
+      requestBody: { valueInputOption: 'RAW', data },
+    })
+  );
+}
+
+// Copy the source event's recipients tab (keeping its formatting and any extra columns),
+// reset the copy for a new round, add an empty audit log tab and list the event
+async function createSheetEvent(input: NewEvent, source: DeliveryEvent): Promise<DeliveryEvent> {
+  return withRegistryLock(async () => {
+    const sheets = await getAuthenticatedClient();
+    const sheetId = getSheetId();
+
+    cachedEvents = null;
+    const events = await listSheetEvents();
+    const tabIds = await getTabIds(sheets, sheetId);
+
+    const id = makeEventId(input, events.map((e) => e.id));
+    const event: DeliveryEvent = {
+      id,
+      name: input.name.trim(),
+      date: input.date,
+      partition: id,
+      auditPartition: `${id} audit`,
+      closed: false,
+      createdAt: new Date().toISOString(),
+    };
+
+    const sourceTabId = tabIds.get(source.partition);
+    if (sourceTabId === undefined) {
+      throw new Error(`Sheet has no "${source.partition}" tab to copy`);
+    }
+    if (tabIds.has(event.partition) || tabIds.has(event.auditPartition)) {
+      throw new Error(`Sheet already has a "${event.partition}" tab`);
+    }
+
+    await ensureEventsTab(sheets, sheetId, tabIds);
+    await withBackoff(() =>
+      sheets.spreadsheets.batchUpdate({
+        spreadsheetId: sheetId,
+        requestBody: {
+          requests: [
+            { duplicateSheet: { sourceSheetId: sourceTabId, newSheetName: event.partition } },
+            { addSheet: { properties: { title: event.auditPartition } } },
+          ],
+        },
+      })
+    );
+    await withBackoff(() =>
+      sheets.spreadsheets.values.update({
+        spreadsheetId: sheetId,
+        range: `${quoteTab(event.auditPartition)}!A1`,
+        valueInputOption: 'RAW',
+        requestBody: { values: [AUDIT_HEADERS] },
+      })
+    );
+    await resetRoundCells(sheets, sheetId, event.partition);
+
+    await withBackoff(() =>
+      sheets.spreadsheets.values.append({
+        spreadsheetId: sheetId,
+        range: `${quoteTab(getEventsTab())}!A1`,
+        valueInputOption: 'RAW',
+        insertDataOption: 'INSERT_ROWS',
+        requestBody: { values: [eventToRow(event)] },
+      })
+    );
+
+    cachedEvents = null;
+    return event;
+  });
+}
+
+// Mark an event closed (read-only) or open again in the Events tab
+async function setSheetEventClosed(id: string, closed: boolean): Promise<boolean> {
+  return withRegistryLock(async () => {
+    const sheets = await getAuthenticatedClient();
+    const sheetId = getSheetId();
+
+    await ensureEventsTab(sheets, sheetId, await getTabIds(sheets, sheetId));
+    const response = await withBackoff(() =>
+      sheets.spreadsheets.values.get({
+        spreadsheetId: sheetId,
+        range: `${quoteTab(getEventsTab())}!A:A`,
+      })
+    );
+    const index = (response.data.values ?? []).findIndex((cells, i) => i > 0 && String(cells[0] ?? '').trim() === id);
+    if (index < 0) return false;
+
+    await withBackoff(() =>
+      sheets.spreadsheets.values.update({
+        spreadsheetId: sheetId,
+        range: `${quoteTab(getEventsTab())}!F${index + 1}`,
+        valueInputOption: 'RAW',
+        requestBody: { values: [[closed ? 'TRUE' : 'FALSE']] },
+      })
+    );
+
+    cachedEvents = null;
     return true;
-  } catch (error) {
-    console.error('Error updating delivery status:', error);
-    return false;
+  });
+}
+
+export const sheetsEventRegistry: EventRegistry = {
+  listEvents: listSheetEvents,
+  createEvent: createSheetEvent,
+  setEventClosed: setSheetEventClosed,
+};
+
+// Sessions tab columns: A=Driver, B=Session ID (empty for all of the driver's sessions), C=Revoked At, D=Expires.
+// Rows are only ever appended; once past Expires they no longer matter and can be deleted by hand.
+const SESSION_HEADERS = ['Driver', 'Session ID', 'Revoked At', 'Expires'];
+
+function getSessionsTab(): string {
+  return process.env.SESSIONS_SHEET_TAB || 'Sessions';
+}
+
+function revocationFromRow(row: unknown[]): SessionRevocation | null {
+  const [driver, sid, revokedAt, expires] = SESSION_HEADERS.map((_, i) => String(row[i] ?? '').trim());
+  const revocation = { driver, sid, revokedAt: Date.parse(revokedAt), expires: Date.parse(expires) };
+  if (!driver || Number.isNaN(revocation.revokedAt) || Number.isNaN(revocation.expires)) return null;
+  return revocation;
+}
+
+// Every API request checks its session, so the Sessions tab is cached like the Events tab
+let cachedRevocations: { revocations: SessionRevocation[]; fetchedAt: number } | null = null;
+
+// Read the Sessions tab; nothing is revoked until it's created by the first logout
+async function listSheetRevocations(): Promise<SessionRevocation[]> {
+  if (!cachedRevocations || Date.now() - cachedRevocations.fetchedAt >= getCacheTtlMs()) {
+    const sheets = await getAuthenticatedClient();
+    const sheetId = getSheetId();
+
+    let revocations: SessionRevocation[] = [];
+    if ((await getTabIds(sheets, sheetId)).has(getSessionsTab())) {
+      const response = await withBackoff(() =>
+        sheets.spreadsheets.values.get({
+          spreadsheetId: sheetId,
+          range: `${quoteTab(getSessionsTab())}!A:D`,
+        })
+      );
+      revocations = (response.data.values ?? []).slice(1)
+        .map(revocationFromRow)
+        .filter((revocation): revocation is SessionRevocation => revocation !== null);
+    }
+    cachedRevocations = { revocations, fetchedAt: Date.now() };
   }
+
+  const now = Date.now();
+  return cachedRevocations.revocations.filter((revocation) => revocation.expires > now);
 }
+
+// Append a revocation to the Sessions tab, creating the tab on first use
+async function addSheetRevocation(revocation: SessionRevocation): Promise<void> {
+  return withRegistryLock(async () => {
+    const sheets = await getAuthenticatedClient();
+    const sheetId = getSheetId();
+    const tab = getSessionsTab();
+
+    if (!(await getTabIds(sheets, sheetId)).has(tab)) {
+      await withBackoff(() =>
+        sheets.spreadsheets.batchUpdate({
+          spreadsheetId: sheetId,
+          requestBody: { requests: [{ addSheet: { properties: { title: tab } } }] },
+        })
+      );
+      await withBackoff(() =>
+        sheets.spreadsheets.values.update({
+          spreadsheetId: sheetId,
+          range: `${quoteTab(tab)}!A1`,
+          valueInputOption: 'RAW',
+          requestBody: { values: [SESSION_HEADERS] },
+        })
+      );
+    }
+
+    await withBackoff(() =>
+      sheets.spreadsheets.values.append({
+        spreadsheetId: sheetId,
+        range: `${quoteTab(tab)}!A1`,
+        valueInputOption: 'RAW',
+        insertDataOption: 'INSERT_ROWS',
+        requestBody: {
+          values: [[
+            revocation.driver,
+            revocation.sid,
+            new Date(revocation.revokedAt).toISOString(),
+            new Date(revocation.expires).toISOString(),
+          ]],
+        },
+      })
+    );
+
+    cachedRevocations = null;
+  });
+}
+
+export const sheetsSessionRegistry: SessionRegistry = {
+  listRevocations: listSheetRevocations,
+  addRevocation: addSheetRevocation,
+};
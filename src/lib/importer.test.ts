@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { buildPreview, suggestMapping, validateMapping, type ColumnMapping } from './importer';
+import type { SchemaConfig } from './sheetSchema';
+
+const CONFIG: SchemaConfig = { tab: 'Sheet1', headers: {}, problems: [] };
+
+// ID, Map Link, Lat, Lng, Address, Parcels, Driver
+const MAPPING: ColumnMapping = { id: 0, googleMapLink: 1, latitude: 2, longitude: 3, address: 4, parcels: 5, assignedDriver: 6 };
+
+const OPTIONS: Parameters<typeof buildPreview>[2] = { mode: 'append', existingIds: new Set(['9']), drivers: ['Amal'] };
+
+function preview(rows: string[][], options = OPTIONS) {
+  return buildPreview(rows, MAPPING, options);
+}
+
+describe('suggestMapping', () => {
+  it('maps headers and aliases to the fields they name, first match wins', () => {
+    expect(suggestMapping(['Recipient ID', 'ID', 'Map Link', 'Lat', 'Status', 'Driver', 'id'], CONFIG)).toEqual({
+      id: 1,
+      googleMapLink: 2,
+      latitude: 3,
+      assignedDriver: 5,
+    });
+  });
+});
+
+describe('validateMapping', () => {
+  it('accepts a mapping with an ID column inside the file', () => {
+    expect(validateMapping({ id: 0, phone: 2 }, 3)).toBeNull();
+  });
+
+  it('explains what is wrong with a bad one', () => {
+    expect(validateMapping([], 3)).toBe('Invalid mapping (expected an object of field: column)');
+    expect(validateMapping({ id: 0, status: 1 }, 3)).toBe('Unknown field "status"');
+    expect(validateMapping({ id: 0, phone: 3 }, 3)).toBe('Column for Phone is not in the file');
+    expect(validateMapping({ id: 0, phone: 0 }, 3)).toBe('Phone and ID use the same column');
+    expect(validateMapping({ phone: 1 }, 3)).toBe('Choose the column that holds the ID');
+  });
+});
+
+describe('buildPreview', () => {
+  it('creates new recipients with coordinates from the columns or the link', () => {
+    const [fromColumns, fromLink] = preview([
+      ['1', '', '6.9', '79.86', '', '2', 'Amal'],
+      ['2', 'https://www.google.com/maps/place/x/@6.91,79.87,17z', '', '', '', '1', ''],
+    ]);
+
+    expect(fromColumns).toMatchObject({ line: 2, action: 'create', errors: [], warnings: [], coordinates: { lat: 6.9, lng: 79.86 } });
+    expect(fromColumns.record).toEqual({ id: '1', latitude: '6.9', longitude: '79.86', parcels: '2', assignedDriver: 'Amal' });
+    expect(fromLink).toMatchObject({ line: 3, action: 'create', coordinates: { lat: 6.91, lng: 79.87 } });
+    expect(fromLink.record).toMatchObject({ latitude: '6.91', longitude: '79.87' });
+  });
+
+  it('skips rows with no ID, a repeated ID or an existing ID when appending', () => {
+    const rows = preview([
+      ['', 'x', '', '', '', '', ''],
+      ['1', '', '', '', 'Kandy', '', ''],
+      ['1', '', '', '', 'Galle', '', ''],
+      ['9', '', '', '', 'Matara', '', ''],
+    ]);
+    expect(rows.map((r) => [r.action, r.duplicate, r.errors])).toEqual([
+      ['skip', false, ['No ID']],
+      ['create', false, []],
+      ['skip', true, ['ID also on line 3']],
+      ['skip', true, ['ID already exists']],
+    ]);
+  });
+
+  it('updates existing recipients when upserting', () => {
+    const [row] = preview([['9', '', '', '', 'Matara', '', '']], { ...OPTIONS, mode: 'upsert' });
+    expect(row).toMatchObject({ action: 'update', duplicate: false, errors: [] });
+  });
+
+  it('skips rows with bad parcels, unknown drivers or half-given coordinates', () => {
+    const rows = preview([
+      ['1', '', '', '', '', 'two', ''],
+      ['2', '', '', '', '', '', 'Nimali'],
+      ['3', '', '6.9', '', '', '', ''],
+      ['4', '', '95', '79.8', '', '', ''],
+    ]);
+    expect(rows.map((r) => r.errors)).toEqual([
+      ['Parcels "two" is not a whole number'],
+      ['Unknown driver "Nimali"'],
+      ['Latitude and longitude must both be given'],
+      ['"95, 79.8" are not valid coordinates'],
+    ]);
+    expect(rows.every((r) => r.action === 'skip')).toBe(true);
+  });
+
+  it('clears old coordinates and warns when the location has to be resolved later', () => {
+    const rows = preview([
+      ['1', 'https://maps.app.goo.gl/abc', '', '', '', '', ''],
+      ['2', 'https://example.com/where', '', '', 'Kandy', '', ''],
+      ['3', '', '', '', 'Kandy', '', ''],
+      ['4', '', '', '', '', '', ''],
+    ]);
+    expect(rows.map((r) => r.warnings)).toEqual([
+      ['Short link, resolved after import'],
+      ['Map link could not be read, the address will be geocoded'],
+      ['No map link, the address will be geocoded'],
+      ["No location, won't appear on the map"],
+    ]);
+    expect(rows[0].record).toMatchObject({ latitude: '', longitude: '' });
+    expect(rows[3].record).not.toHaveProperty('latitude');
+  });
+
+  it('recovers short plus codes near the reference point', () => {
+    const [row] = buildPreview([['1', 'C8+R9 Mountain View', '', '', '', '', '']], MAPPING, {
+      ...OPTIONS,
+      reference: { lat: 37.42, lng: -122.08 },
+    });
+    expect(row.coordinates?.lat).toBeCloseTo(37.4220625, 9);
+  });
+});
@@ -0,0 +1,186 @@
+import { isShortLink, parseCoordinates } from './mapLinks';
+import type { LatLng } from './routing';
+import { FIELD_DEFINITIONS, fieldForHeader, type RecipientField, type SchemaConfig } from './sheetSchema';
+
+// Columns a file can be imported into. Status, attempts, proof and field notes are
+// recorded by the app as the delivery goes on, so an import never sets them.
+export const IMPORT_FIELDS = [
+  'id',
+  'googleMapLink',
+  'latitude',
+  'longitude',
+  'address',
+  'recipientType',
+  'parcels',
+  'faculty',
+  'phone',
+  'secondaryPhone',
+  'assignedDriver',
+  'instructions',
+  'confirmationCode',
+] as const satisfies readonly RecipientField[];
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = Object.fromEntries(
+  IMPORT_FIELDS.map((field) => [field, FIELD_DEFINITIONS[field].header])
+) as Record<ImportField, string>;
+
+// File column (0-based) for each field; unmapped fields are left alone
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+// append: only add new IDs. upsert: add new IDs and update the rows of existing ones.
+export type ImportMode = 'append' | 'upsert';
+
+// One row to write, by field. Absent fields are left as they are; '' clears a cell
+// (used for stale coordinates when the link or address changes).
+export type ImportRecord = Partial<Record<ImportField, string>> & { id: string };
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: string[]; // IDs that turned out to exist already in append mode
+  ignoredFields: ImportField[]; // Mapped fields the store has nowhere to put
+}
+
+// A row of the file as it would be imported
+export interface ImportRow {
+  line: number; // 1-based row in the file counting the header as 1 (blank rows aren't counted)
+  record: ImportRecord;
+  coordinates: LatLng | null; // From the Latitude/Longitude columns or parsed from the link
+  action: 'create' | 'update' | 'skip';
+  duplicate: boolean; // ID repeated in the file, or already in the store when appending
+  errors: string[]; // Why the row is skipped
+  warnings: string[]; // Imported anyway, but worth a look
+}
+
+export interface ImportPreview {
+  headers: string[];
+  mapping: ColumnMapping;
+  rows: ImportRow[];
+}
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 5000;
+
+// Map each header that names a field (by its sheet header or an alias) to that field
+export function suggestMapping(headers: string[], config: SchemaConfig): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  headers.forEach((header, column) => {
+    const field = fieldForHeader(header, config);
+    if (field && (IMPORT_FIELDS as readonly string[]).includes(field) && mapping[field as ImportField] === undefined) {
+      mapping[field as ImportField] = column;
+    }
+  });
+  return mapping;
+}
+
+// Check a mapping sent by a client; returns an error message or null
+export function validateMapping(mapping: unknown, columnCount: number): string | null {
+  if (typeof mapping !== 'object' || mapping === null || Array.isArray(mapping)) {
+    return 'Invalid mapping (expected an object of field: column)';
+  }
+
+  const used = new Map<number, string>();
+  for (const [field, column] of Object.entries(mapping)) {
+    if (!(IMPORT_FIELDS as readonly string[]).includes(field)) {
+      return `Unknown field "${field}"`;
+    }
+    if (!Number.isInteger(column) || column < 0 || column >= columnCount) {
+      return `Column for ${IMPORT_FIELD_LABELS[field as ImportField]} is not in the file`;
+    }
+    if (used.has(column)) {
+      return `${IMPORT_FIELD_LABELS[field as ImportField]} and ${used.get(column)} use the same column`;
+    }
+    used.set(column, IMPORT_FIELD_LABELS[field as ImportField]);
+  }
+
+  if ((mapping as ColumnMapping).id === undefined) {
+    return 'Choose the column that holds the ID';
+  }
+  return null;
+}
+
+interface PreviewOptions {
+  mode: ImportMode;
+  existingIds: Set<string>;
+  drivers: string[];
+  reference?: LatLng; // Where to recover short plus codes (e.g. the depot)
+}
+
+// Turn the data rows of a file (header excluded) into records, flagging what can't be imported
+export function buildPreview(rows: string[][], mapping: ColumnMapping, options: PreviewOptions): ImportRow[] {
+  const lineById = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const line = index + 2;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const record = { id: '' } as ImportRecord;
+    for (const field of IMPORT_FIELDS) {
+      const column = mapping[field];
+      const value = column === undefined ? '' : String(cells[column] ?? '').trim();
+      if (value) record[field] = value;
+    }
+
+    let duplicate = false;
+    if (!record.id) {
+      errors.push('No ID');
+    } else if (lineById.has(record.id)) {
+      duplicate = true;
+      errors.push(`ID also on line ${lineById.get(record.id)}`);
+    } else {
+      lineById.set(record.id, line);
+      if (options.existingIds.has(record.id) && options.mode === 'append') {
+        duplicate = true;
+        errors.push('ID already exists');
+      }
+    }
+
+    if (record.parcels !== undefined && !/^\d+$/.test(record.parcels)) {
+      errors.push(`Parcels "${record.parcels}" is not a whole number`);
+    }
+
+    if (record.assignedDriver !== undefined && !options.drivers.includes(record.assignedDriver)) {
+      errors.push(`Unknown driver "${record.assignedDriver}"`);
+    }
+
+    // Coordinates: both columns, or parsed from the link, or left for the address geocoder
+    let coordinates: LatLng | null = null;
+    if (record.latitude !== undefined || record.longitude !== undefined) {
+      const lat = Number(record.latitude);
+      const lng = Number(record.longitude);
+      if (record.latitude === undefined || record.longitude === undefined) {
+        errors.push('Latitude and longitude must both be given');
+      } else if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        errors.push(`"${record.latitude}, ${record.longitude}" are not valid coordinates`);
+      } else {
+        coordinates = { lat, lng };
+      }
+    } else if (record.googleMapLink) {
+      coordinates = parseCoordinates(record.googleMapLink, { reference: options.reference });
+    }
+
+    if (coordinates) {
+      record.latitude = String(coordinates.lat);
+      record.longitude = String(coordinates.lng);
+    } else if (record.googleMapLink || record.address) {
+      // Clear any old pin so the new link or address is resolved on the next read
+      record.latitude = '';
+      record.longitude = '';
+      if (record.googleMapLink && isShortLink(record.googleMapLink)) {
+        warnings.push('Short link, resolved after import');
+      } else if (record.googleMapLink) {
+        warnings.push(record.address ? 'Map link could not be read, the address will be geocoded' : 'Map link could not be read');
+      } else {
+        warnings.push('No map link, the address will be geocoded');
+      }
+    } else if (!options.existingIds.has(record.id)) {
+      warnings.push('No location, won\'t appear on the map');
+    }
+
+    const action = errors.length > 0 ? 'skip' : options.existingIds.has(record.id) ? 'update' : 'create';
+    return { line, record, coordinates, action, duplicate, errors, warnings };
+  });
+}
@@ -0,0 +1,40 @@
+import type { Recipient } from './recipientStore';
+
+// A change to one recipient, pushed to every connected client
+export interface RecipientUpdateEvent {
+  id: string;
+  changes: Partial<Pick<Recipient, 'status' | 'statusReason' | 'attempts' | 'assignedDriver' | 'coordinates' | 'geocodeConfidence' | 'proof' | 'fieldNotes'>>;
+  by: string; // Driver who made the change
+  at: string; // ISO 8601
+}
+
+type Listener = (event: RecipientUpdateEvent) => void;
+
+// Subscribers live in this server process only, so on multi-instance deployments
+// (e.g. serverless) clients should use the polling fallback instead.
+// Keyed by delivery event, so clients only hear about the event they're looking at.
+const listeners = new Map<string, Set<Listener>>();
+
+export function subscribe(eventId: string, listener: Listener): () => void {
+  let eventListeners = listeners.get(eventId);
+  if (!eventListeners) {
+    eventListeners = new Set();
+    listeners.set(eventId, eventListeners);
+  }
+  eventListeners.add(listener);
+
+  return () => {
+    eventListeners.delete(listener);
+    if (eventListeners.size === 0 && listeners.get(eventId) === eventListeners) listeners.delete(eventId);
+  };
+}
+
+export function publish(eventId: string, event: RecipientUpdateEvent): void {
+  for (const listener of listeners.get(eventId) ?? []) {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Error delivering live update:', error);
+    }
+  }
+}
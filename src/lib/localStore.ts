@@ -0,0 +1,460 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getDepot } from './depot';
+import { DEFAULT_EVENT_ID, makeEventId, type DeliveryEvent, type NewEvent } from './events';
+import { getGeocoder } from './geocoder';
+import type { FieldNote } from './fieldNotes';
+import type { ImportMode, ImportRecord, ImportResult } from './importer';
+import { parseCoordinates, resolveMapLinks } from './mapLinks';
+import type { DeliveryProof } from './proof';
+import {
+  type EventRegistry,
+  type InvalidField,
+  type Recipient,
+  type RecipientStore,
+  type SessionRegistry,
+  type SessionRevocation,
+  type StatusChange,
+  type StatusUpdateResult,
+  type StatusWrite,
+  type StoreHealth,
+} from './recipientStore';
+import { countsAsAttempt, isDeliveryStatus, parseAttempts } from './status';
+
+// A recipient as written in the file; the confirmation code is kept out of Recipient so it never reaches clients
+type LocalRecord = Recipient & { confirmationCode?: string };
+
+// Shape of the JSON file backing the local store
+interface LocalStoreData {
+  recipients: LocalRecord[];
+  audit: StatusChange[];
+}
+
+const DEFAULT_STORE_PATH = '.data/recipients.json';
+
+function getStorePath(): string {
+  return path.resolve(process.cwd(), process.env.LOCAL_STORE_PATH || DEFAULT_STORE_PATH);
+}
+
+// Events other than the original roster are kept as files next to it
+function getPartitionPath(partition: string): string {
+  return path.join(path.dirname(getStorePath()), partition);
+}
+
+function getEventStorePath(event: DeliveryEvent): string {
+  return event.id === DEFAULT_EVENT_ID ? getStorePath() : getPartitionPath(event.partition);
+}
+
+// Read the store file, treating a missing file as an empty roster
+async function readStore(storePath: string): Promise<LocalStoreData> {
+  try {
+    const contents = await fs.readFile(storePath, 'utf8');
+    const data = JSON.parse(contents) as Partial<LocalStoreData>;
+    return {
+      recipients: Array.isArray(data.recipients) ? data.recipients : [],
+      audit: Array.isArray(data.audit) ? data.audit : [],
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { recipients: [], audit: [] };
+    }
+    throw error;
+  }
+}
+
+// Write via a temp file + rename so a crash never leaves half a JSON file behind
+async function writeJson(storePath: string, data: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+
+  const tempPath = `${storePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(tempPath, storePath);
+}
+
+// Serialize read-modify-write cycles of each file so concurrent requests don't clobber each other
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function withFileLock<T>(filePath: string, run: () => Promise<T>): Promise<T> {
+  const next = (writeQueues.get(filePath) ?? Promise.resolve()).then(run);
+  // Keep the queue alive even if this mutation fails
+  writeQueues.set(filePath, next.catch(() => undefined));
+  return next;
+}
+
+function mutateStore<T>(storePath: string, mutate: (data: LocalStoreData) => T): Promise<T> {
+  return withFileLock(storePath, async () => {
+    const data = await readStore(storePath);
+    const result = mutate(data);
+    await writeJson(storePath, data);
+    return result;
+  });
+}
+
+// Fill in defaults for hand-written records, parsing coordinates from the link if missing
+function normalizeRecipient(record: Partial<LocalRecord>, index: number): Recipient {
+  const googleMapLink = record.googleMapLink || '';
+
+  // Hand-edited JSON may hold anything; keep what had to be defaulted so it can be fixed
+  const invalidFields: InvalidField[] = [];
+  const parcels = Number(record.parcels ?? 0);
+  if (!Number.isInteger(parcels) || parcels < 0) {
+    invalidFields.push({ field: 'parcels', value: String(record.parcels) });
+  }
+  if (record.status && !isDeliveryStatus(record.status)) {
+    invalidFields.push({ field: 'status', value: String(record.status) });
+  }
+
+  return {
+    id: String(record.id ?? ''),
+    googleMapLink,
+    coordinates: record.coordinates ?? parseCoordinates(googleMapLink, { reference: getDepot() ?? undefined }),
+    recipientType: record.recipientType || '',
+    parcels: Number.isInteger(parcels) && parcels > 0 ? parcels : 0,
+    faculty: record.faculty || '',
+    phone: record.phone || '',
+    secondaryPhone: record.secondaryPhone || '',
+    status: isDeliveryStatus(record.status) ? record.status : 'Pending',
+    statusReason: record.statusReason || '',
+    attempts: parseAttempts(record.attempts),
+    assignedDriver: record.assignedDriver || '',
+    instructions: record.instructions || '',
+    fieldNotes: Array.isArray(record.fieldNotes) ? record.fieldNotes : [],
+    address: record.address || '',
+    geocodeConfidence: record.geocodeConfidence ?? null,
+    proof: record.proof ?? null,
+    hasConfirmationCode: Boolean(record.confirmationCode),
+    row: index + 1,
+    invalidFields,
+  };
+}
+
+async function getRecipients(storePath: string): Promise<Recipient[]> {
+  const data = await readStore(storePath);
+  const recipients = data.recipients.map((record, index) => normalizeRecipient(record, index)).filter((r) => r.id);
+
+  // Short links and addresses need a network round trip; save what resolves so it only happens once
+  const unresolved = recipients.filter((r) => !r.coordinates && (r.googleMapLink || r.address));
+  if (unresolved.length > 0) {
+    const resolved = await resolveMapLinks(
+      unresolved.map((r) => r.googleMapLink),
+      { reference: getDepot() ?? undefined }
+    );
+    const geocoder = getGeocoder();
+    const found = new Map<string, Pick<Recipient, 'coordinates' | 'geocodeConfidence'>>();
+
+    for (const [i, recipient] of unresolved.entries()) {
+      const coordinates = resolved[i];
+      if (coordinates) {
+        recipient.coordinates = coordinates;
+      } else if (geocoder && recipient.address) {
+        const geocoded = await geocoder.geocode(recipient.address);
+        if (!geocoded) continue;
+        recipient.coordinates = { lat: geocoded.lat, lng: geocoded.lng };
+        recipient.geocodeConfidence = geocoded.confidence;
+      } else {
+        continue;
+      }
+      found.set(recipient.id, { coordinates: recipient.coordinates, geocodeConfidence: recipient.geocodeConfidence });
+    }
+
+    if (found.size > 0) {
+      mutateStore(storePath, (stored) => {
+        for (const record of stored.recipients) {
+          const update = found.get(String(record.id));
+          if (update && !record.coordinates) Object.assign(record, update);
+        }
+      }).catch((err) => {
+        console.error('Error saving resolved coordinates:', err);
+      });
+    }
+  }
+
+  return recipients;
+}
+
+async function getRecipient(storePath: string, id: string): Promise<Recipient | null> {
+  const recipients = await getRecipients(storePath);
+  return recipients.find((r) => r.id === id) ?? null;
+}
+
+// Apply one compare-and-set status write to a record of the file
+function applyStatusWrite(data: LocalStoreData, { id, status, expectedStatus, reason }: StatusWrite): StatusUpdateResult {
+  const record = data.recipients.find((r) => String(r.id) === id);
+  if (!record) return { ok: false, reason: 'not_found' };
+
+  const currentStatus = isDeliveryStatus(record.status) ? record.status : 'Pending';
+  if (expectedStatus !== undefined && currentStatus !== expectedStatus) {
+    return { ok: false, reason: 'conflict', currentStatus };
+  }
+
+  record.status = status;
+  record.statusReason = reason ?? '';
+  record.attempts = parseAttempts(record.attempts) + (countsAsAttempt(status) ? 1 : 0);
+  return { ok: true, previousStatus: currentStatus, attempts: record.attempts };
+}
+
+async function updateDeliveryStatus(storePath: string, write: StatusWrite): Promise<StatusUpdateResult> {
+  // Writes are serialized, so the check and the write can't interleave with another request
+  return mutateStore(storePath, (data) => applyStatusWrite(data, write));
+}
+
+// Same compare-and-set as updateDeliveryStatus(), for many recipients in one write of the file
+async function updateDeliveryStatuses(storePath: string, writes: StatusWrite[]): Promise<StatusUpdateResult[]> {
+  return mutateStore(storePath, (data) => writes.map((write) => applyStatusWrite(data, write)));
+}
+
+async function updateRecipientCoordinates(
+  storePath: string,
+  id: string,
+  coordinates: { lat: number; lng: number }
+): Promise<boolean> {
+  return mutateStore(storePath, (data) => {
+    const record = data.recipients.find((r) => String(r.id) === id);
+    if (!record) return false;
+
+    record.coordinates = coordinates;
+    record.geocodeConfidence = null; // Placed by hand, no longer a geocoder guess
+    return true;
+  });
+}
+
+async function assignDriver(storePath: string, id: string, driverName: string): Promise<boolean> {
+  return mutateStore(storePath, (data) => {
+    const record = data.recipients.find((r) => String(r.id) === id);
+    if (!record) return false;
+
+    record.assignedDriver = driverName;
+    return true;
+  });
+}
+
+async function appendFieldNote(storePath: string, id: string, note: FieldNote): Promise<boolean> {
+  return mutateStore(storePath, (data) => {
+    const record = data.recipients.find((r) => String(r.id) === id);
+    if (!record) return false;
+
+    record.fieldNotes = [...(Array.isArray(record.fieldNotes) ? record.fieldNotes : []), note];
+    return true;
+  });
+}
+
+async function getConfirmationCode(storePath: string, id: string): Promise<string | null> {
+  const data = await readStore(storePath);
+  const record = data.recipients.find((r) => String(r.id) === id);
+  return record?.confirmationCode ? String(record.confirmationCode) : null;
+}
+
+async function saveProof(storePath: string, id: string, proof: DeliveryProof): Promise<boolean> {
+  return mutateStore(storePath, (data) => {
+    const record = data.recipients.find((r) => String(r.id) === id);
+    if (!record) return false;
+
+    record.proof = proof;
+    return true;
+  });
+}
+
+// Copy an import row onto a record; numbers are stored as numbers and the two
+// coordinate columns become the coordinates object ('' clears it so the link is re-parsed)
+function applyImportRecord(record: Partial<LocalRecord>, { latitude, longitude, parcels, ...rest }: ImportRecord): void {
+  Object.assign(record, rest);
+  if (parcels !== undefined) record.parcels = Number(parcels);
+  if (latitude !== undefined && longitude !== undefined) {
+    record.coordinates = latitude && longitude ? { lat: Number(latitude), lng: Number(longitude) } : null;
+    record.geocodeConfidence = null;
+  }
+}
+
+async function importRecipients(storePath: string, records: ImportRecord[], mode: ImportMode): Promise<ImportResult> {
+  return mutateStore(storePath, (data) => {
+    const result: ImportResult = { created: 0, updated: 0, skipped: [], ignoredFields: [] };
+
+    for (const imported of records) {
+      const existing = data.recipients.find((r) => String(r.id) === imported.id);
+      if (!existing) {
+        const record: Partial<LocalRecord> = { status: 'Pending', attempts: 0 };
+        applyImportRecord(record, imported);
+        data.recipients.push(record as LocalRecord);
+        result.created++;
+      } else if (mode === 'append') {
+        result.skipped.push(imported.id);
+      } else {
+        applyImportRecord(existing, imported);
+        result.updated++;
+      }
+    }
+    return result;
+  });
+}
+
+async function appendStatusChanges(storePath: string, changes: StatusChange[]): Promise<void> {
+  await mutateStore(storePath, (data) => {
+    data.audit.push(...changes);
+  });
+}
+
+async function listStatusChanges(storePath: string): Promise<StatusChange[]> {
+  const data = await readStore(storePath);
+  return data.audit;
+}
+
+async function getStatusHistory(storePath: string, recipientId: string): Promise<StatusChange[]> {
+  const data = await readStore(storePath);
+  return data.audit.filter((c) => c.recipientId === recipientId);
+}
+
+// The file is optional (missing means empty), but it has to be valid JSON
+async function checkLocalStoreHealth(storePath: string): Promise<StoreHealth> {
+  try {
+    await readStore(storePath);
+    return { ok: true, problems: [] };
+  } catch (error) {
+    return {
+      ok: false,
+      problems: [{ severity: 'error', code: 'store_unreachable', message: `Can't read ${storePath}: ${error instanceof Error ? error.message : String(error)}` }],
+    };
+  }
+}
+
+// File-backed implementation of the recipient store, for offline rehearsals and tests.
+// Each event is its own file, holding its recipients and audit log.
+export function createLocalRecipientStore(event: DeliveryEvent): RecipientStore {
+  const storePath = getEventStorePath(event);
+  return {
+    eventId: event.id,
+    listRecipients: () => getRecipients(storePath),
+    getRecipient: (id) => getRecipient(storePath, id),
+    updateStatus: (write) => updateDeliveryStatus(storePath, write),
+    updateCoordinates: (id, coordinates) => updateRecipientCoordinates(storePath, id, coordinates),
+    updateStatuses: (writes) => updateDeliveryStatuses(storePath, writes),
+    assignDriver: (id, driverName) => assignDriver(storePath, id, driverName),
+    appendFieldNote: (id, note) => appendFieldNote(storePath, id, note),
+    getConfirmationCode: (id) => getConfirmationCode(storePath, id),
+    canSaveProof: async () => true, // Records keep proof alongside everything else
+    saveProof: (id, proof) => saveProof(storePath, id, proof),
+    importRecipients: (records, mode) => importRecipients(storePath, records, mode),
+    appendStatusChanges: (changes) => appendStatusChanges(storePath, changes),
+    listStatusChanges: () => listStatusChanges(storePath),
+    getStatusHistory: (recipientId) => getStatusHistory(storePath, recipientId),
+    getRowLink: () => null, // The file is edited by hand, there's nothing to link to
+    checkHealth: () => checkLocalStoreHealth(storePath),
+  };
+}
+
+// The roster in LOCAL_STORE_PATH, from before events
+export function defaultLocalEvent(): DeliveryEvent {
+  return {
+    id: DEFAULT_EVENT_ID,
+    name: process.env.DEFAULT_EVENT_NAME || 'Original roster',
+    date: '',
+    partition: path.basename(getStorePath()),
+    auditPartition: '',
+    closed: false,
+    createdAt: '',
+  };
+}
+
+// The list of events, kept next to the store files
+function getEventsPath(): string {
+  return getPartitionPath('events.json');
+}
+
+// Read the event list; just the original roster until the first event is created
+async function listLocalEvents(): Promise<DeliveryEvent[]> {
+  try {
+    const events = JSON.parse(await fs.readFile(getEventsPath(), 'utf8')) as unknown;
+    return Array.isArray(events) && events.length > 0 ? (events as DeliveryEvent[]) : [defaultLocalEvent()];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [defaultLocalEvent()];
+    }
+    throw error;
+  }
+}
+
+// Copy the source event's recipients into a new file with every status back to Pending
+// and nothing left over from the last round
+async function createLocalEvent(input: NewEvent, source: DeliveryEvent): Promise<DeliveryEvent> {
+  return withFileLock(getEventsPath(), async () => {
+    const events = await listLocalEvents();
+    const id = makeEventId(input, events.map((e) => e.id));
+    const event: DeliveryEvent = {
+      id,
+      name: input.name.trim(),
+      date: input.date,
+      partition: `${id}.json`,
+      auditPartition: '',
+      closed: false,
+      createdAt: new Date().toISOString(),
+    };
+
+    const { recipients } = await readStore(getEventStorePath(source));
+
+    // Codes were read out to drivers last round, so they aren't carried over
+    const cloned: LocalRecord[] = recipients.map((record) => ({
+      ...record,
+      confirmationCode: undefined,
+      status: 'Pending',
+      statusReason: '',
+      attempts: 0,
+      proof: null,
+      fieldNotes: [],
+    }));
+    await writeJson(getPartitionPath(event.partition), { recipients: cloned, audit: [] });
+    await writeJson(getEventsPath(), [...events, event]);
+    return event;
+  });
+}
+
+// Mark an event closed (read-only) or open again
+async function setLocalEventClosed(id: string, closed: boolean): Promise<boolean> {
+  return withFileLock(getEventsPath(), async () => {
+    const events = await listLocalEvents();
+    const event = events.find((e) => e.id === id);
+    if (!event) return false;
+
+    event.closed = closed;
+    await writeJson(getEventsPath(), events);
+    return true;
+  });
+}
+
+export const localEventRegistry: EventRegistry = {
+  listEvents: listLocalEvents,
+  createEvent: createLocalEvent,
+  setEventClosed: setLocalEventClosed,
+};
+
+// Session revocations, kept next to the store files
+function getSessionsPath(): string {
+  return getPartitionPath('sessions.json');
+}
+
+async function readRevocations(): Promise<SessionRevocation[]> {
+  try {
+    const revocations = JSON.parse(await fs.readFile(getSessionsPath(), 'utf8')) as unknown;
+    return Array.isArray(revocations) ? (revocations as SessionRevocation[]) : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function listLocalRevocations(): Promise<SessionRevocation[]> {
+  const now = Date.now();
+  return (await readRevocations()).filter((revocation) => revocation.expires > now);
+}
+
+// Add a revocation, dropping the ones that have expired
+async function addLocalRevocation(revocation: SessionRevocation): Promise<void> {
+  return withFileLock(getSessionsPath(), async () => {
+    await writeJson(getSessionsPath(), [...(await listLocalRevocations()), revocation]);
+  });
+}
+
+export const localSessionRegistry: SessionRegistry = {
+  listRevocations: listLocalRevocations,
+  addRevocation: addLocalRevocation,
+};
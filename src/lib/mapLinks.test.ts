@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  clearMapLinkCache,
+  isShortLink,
+  parseCoordinates,
+  resolveMapLink,
+  resolveMapLinks,
+  type LinkFetcher,
+  type LinkFetchResponse,
+} from './mapLinks';
+
+function redirect(location: string): LinkFetchResponse {
+  return { status: 302, headers: { get: (name) => (name === 'location' ? location : null) } };
+}
+
+const OK: LinkFetchResponse = { status: 200, headers: { get: () => null } };
+
+// A fetcher that answers from a table of URL -> response, counting calls
+function stubFetcher(responses: Record<string, LinkFetchResponse>) {
+  return vi.fn<LinkFetcher>(async (url) => responses[url] ?? OK);
+}
+
+describe('parseCoordinates', () => {
+  it('reads the common Google Maps link formats', () => {
+    expect(parseCoordinates('https://www.google.com/maps/place/Kandy/@7.29,80.63,15z/data=!3d7.2906!4d80.6337')).toEqual({
+      lat: 7.2906,
+      lng: 80.6337,
+    });
+    expect(parseCoordinates('https://maps.google.com/?q=6.9271,79.8612')).toEqual({ lat: 6.9271, lng: 79.8612 });
+    expect(parseCoordinates('https://www.google.com/maps/search/?api=1&query=6.9,+79.8')).toEqual({ lat: 6.9, lng: 79.8 });
+    expect(parseCoordinates('https://www.google.com/maps/dir/?api=1&destination=loc:6.9%2C79.8')).toEqual({ lat: 6.9, lng: 79.8 });
+    expect(parseCoordinates('https://www.google.com/maps/@-33.86,151.2,12z')).toEqual({ lat: -33.86, lng: 151.2 });
+  });
+
+  it('reads coordinates pasted as text', () => {
+    expect(parseCoordinates(' 6.9271, 79.8612 ')).toEqual({ lat: 6.9271, lng: 79.8612 });
+    expect(parseCoordinates('91, 79.8')).toBeNull();
+  });
+
+  it('reads plus codes, recovering short ones only near a reference', () => {
+    expect(parseCoordinates('https://plus.codes/849VCWC8+R9')?.lat).toBeCloseTo(37.4220625, 9);
+    expect(parseCoordinates('C8+R9 Mountain View')).toBeNull();
+    expect(parseCoordinates('C8+R9 Mountain View', { reference: { lat: 37.42, lng: -122.08 } })?.lng).toBeCloseTo(-122.0840625, 9);
+  });
+
+  it('returns null when there is nothing to read', () => {
+    expect(parseCoordinates('')).toBeNull();
+    expect(parseCoordinates('https://maps.app.goo.gl/abc123')).toBeNull();
+  });
+});
+
+describe('isShortLink', () => {
+  it('recognises redirecting hosts only', () => {
+    expect(isShortLink('https://maps.app.goo.gl/abc123')).toBe(true);
+    expect(isShortLink('https://goo.gl/maps/abc')).toBe(true);
+    expect(isShortLink('https://www.google.com/maps/@6.9,79.8,15z')).toBe(false);
+    expect(isShortLink('not a url')).toBe(false);
+  });
+});
+
+describe('resolveMapLink', () => {
+  beforeEach(() => {
+    clearMapLinkCache();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('follows short-link redirects until a link has coordinates, and caches the result', async () => {
+    const fetcher = stubFetcher({
+      'https://maps.app.goo.gl/abc': redirect('https://goo.gl/maps/xyz'),
+      'https://goo.gl/maps/xyz': redirect('/maps/place/Kandy/@7.29,80.63,15z'),
+    });
+
+    expect(await resolveMapLink('https://maps.app.goo.gl/abc', { fetcher })).toEqual({ lat: 7.29, lng: 80.63 });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    expect(await resolveMapLink(' https://maps.app.goo.gl/abc ', { fetcher })).toEqual({ lat: 7.29, lng: 80.63 });
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't fetch links it can already read, or that aren't short links", async () => {
+    const fetcher = stubFetcher({});
+    expect(await resolveMapLink('https://maps.google.com/?q=6.9,79.8', { fetcher })).toEqual({ lat: 6.9, lng: 79.8 });
+    expect(await resolveMapLink('https://example.com/somewhere', { fetcher })).toBeNull();
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('gives up after a few redirects and remembers the failure for a while', async () => {
+    const fetcher = vi.fn<LinkFetcher>(async (url) => redirect(`${url}x`));
+
+    expect(await resolveMapLink('https://goo.gl/loop', { fetcher })).toBeNull();
+    expect(fetcher).toHaveBeenCalledTimes(5);
+
+    expect(await resolveMapLink('https://goo.gl/loop', { fetcher })).toBeNull();
+    expect(fetcher).toHaveBeenCalledTimes(5);
+  });
+
+  it('treats network errors as a failure to resolve', async () => {
+    const fetcher = vi.fn<LinkFetcher>(async () => {
+      throw new Error('offline');
+    });
+    expect(await resolveMapLink('https://goo.gl/offline', { fetcher })).toBeNull();
+  });
+});
+
+describe('resolveMapLinks', () => {
+  beforeEach(() => {
+    clearMapLinkCache();
+  });
+
+  it('resolves many links, keeping their order', async () => {
+    const fetcher = stubFetcher({
+      'https://goo.gl/1': redirect('https://maps.google.com/?q=1,1'),
+      'https://goo.gl/2': redirect('https://maps.google.com/?q=2,2'),
+    });
+    const links = ['https://goo.gl/2', '6.9, 79.8', 'https://goo.gl/1', 'nowhere'];
+
+    expect(await resolveMapLinks(links, { fetcher }, 2)).toEqual([
+      { lat: 2, lng: 2 },
+      { lat: 6.9, lng: 79.8 },
+      { lat: 1, lng: 1 },
+      null,
+    ]);
+  });
+});
@@ -0,0 +1,165 @@
+import { decodeFullCode, isFullCode, PLUS_CODE_PATTERN, recoverShortCode } from './plusCodes';
+import type { LatLng } from './routing';
+
+// Minimal response shape the resolver needs, so tests can pass a local stub
+export interface LinkFetchResponse {
+  status: number;
+  headers: { get(name: string): string | null };
+}
+
+// Fetch a URL without following redirects
+export type LinkFetcher = (url: string) => Promise<LinkFetchResponse>;
+
+export interface ResolveOptions {
+  fetcher?: LinkFetcher;
+  reference?: LatLng; // Where to recover short plus codes (e.g. the depot)
+}
+
+const MAX_REDIRECTS = 5;
+const FAILURE_CACHE_TTL_MS = 10 * 60 * 1000; // Retry failed short links after 10 minutes
+
+// Hosts that only redirect to the real map URL
+const SHORT_LINK_HOSTS = ['goo.gl', 'maps.app.goo.gl', 'g.co'];
+
+// A "+" may survive from form-encoded queries ("q=6.9,+79.8"); parseFloat accepts it
+const NUMBER = '([-+]?\\d+(?:\\.\\d+)?)';
+const PAIR = `${NUMBER}\\s*,\\s*${NUMBER}`;
+
+function toLatLng(lat: string, lng: string): LatLng | null {
+  const parsed = { lat: parseFloat(lat), lng: parseFloat(lng) };
+  if (isNaN(parsed.lat) || isNaN(parsed.lng)) return null;
+  if (Math.abs(parsed.lat) > 90 || Math.abs(parsed.lng) > 180) return null;
+  return parsed;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Parse coordinates from various Google Maps link formats (and pasted text) without any network access
+export function parseCoordinates(mapLink: string, options: { reference?: LatLng } = {}): LatLng | null {
+  if (!mapLink) return null;
+
+  const trimmed = mapLink.trim();
+
+  try {
+    // Plain "LAT, LNG" pasted instead of a link
+    const plainText = trimmed.match(new RegExp(`^${PAIR}$`));
+    if (plainText) {
+      return toLatLng(plainText[1], plainText[2]);
+    }
+
+    const link = safeDecode(trimmed);
+
+    // Ordered from most to least precise: a place pin beats the viewport centre
+    const patterns = [
+      /!3d(-?\d+(?:\.\d+)?)!4d(-?\d+(?:\.\d+)?)/, // .../data=!3dLAT!4dLNG (exact place pin)
+      new RegExp(`[?&](?:q|query|destination|daddr)=(?:loc:)?${PAIR}`), // ?q= / ?query= / ?destination=
+      new RegExp(`[?&](?:ll|center|sll)=${PAIR}`), // ?ll=LAT,LNG
+      new RegExp(`@${PAIR}`), // .../@LAT,LNG,17z
+      /\/(-?\d+\.\d+),\s*(-?\d+\.\d+)/, // LAT,LNG anywhere in the URL path
+    ];
+
+    for (const pattern of patterns) {
+      const match = link.match(pattern);
+      if (match) {
+        const coordinates = toLatLng(match[1], match[2]);
+        if (coordinates) return coordinates;
+      }
+    }
+
+    // Plus codes, e.g. "https://plus.codes/7VFF9M3W+Q2" or "9M3W+Q2 Colombo"
+    const plusCode = link.match(PLUS_CODE_PATTERN)?.[1];
+    if (plusCode) {
+      if (isFullCode(plusCode)) return decodeFullCode(plusCode);
+      if (options.reference) return recoverShortCode(plusCode, options.reference);
+    }
+
+    return null;
+  } catch {
+    console.error('Error parsing coordinates from:', mapLink);
+    return null;
+  }
+}
+
+export function isShortLink(mapLink: string): boolean {
+  try {
+    const url = new URL(mapLink.trim());
+    return SHORT_LINK_HOSTS.includes(url.hostname);
+  } catch {
+    return false;
+  }
+}
+
+const defaultFetcher: LinkFetcher = (url) => fetch(url, { method: 'GET', redirect: 'manual' });
+
+// Resolved links never change; failures are cached briefly so a flaky network can recover
+const resolvedCache = new Map<string, LatLng>();
+const failedCache = new Map<string, number>(); // link -> time of failure
+
+// Parse a link, following short-link redirects (goo.gl, maps.app.goo.gl) when needed
+export async function resolveMapLink(mapLink: string, options: ResolveOptions = {}): Promise<LatLng | null> {
+  const parsed = parseCoordinates(mapLink, options);
+  if (parsed || !isShortLink(mapLink)) return parsed;
+
+  const key = mapLink.trim();
+  const cached = resolvedCache.get(key);
+  if (cached) return cached;
+
+  const failedAt = failedCache.get(key);
+  if (failedAt !== undefined && Date.now() - failedAt < FAILURE_CACHE_TTL_MS) return null;
+
+  const fetcher = options.fetcher ?? defaultFetcher;
+  let url = key;
+
+  try {
+    for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+      const response = await fetcher(url);
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location) break;
+
+      url = new URL(location, url).toString();
+      const coordinates = parseCoordinates(url, options);
+      if (coordinates) {
+        resolvedCache.set(key, coordinates);
+        failedCache.delete(key);
+        return coordinates;
+      }
+    }
+  } catch (error) {
+    console.error('Error resolving map link:', mapLink, error);
+  }
+
+  failedCache.set(key, Date.now());
+  return null;
+}
+
+// Resolve many links with a few requests in flight at a time; results keep input order
+export async function resolveMapLinks(
+  mapLinks: string[],
+  options: ResolveOptions = {},
+  concurrency = 4
+): Promise<(LatLng | null)[]> {
+  const results: (LatLng | null)[] = new Array(mapLinks.length).fill(null);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < mapLinks.length) {
+      const index = next++;
+      results[index] = await resolveMapLink(mapLinks[index], options);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, mapLinks.length) }, worker));
+  return results;
+}
+
+// Drop cached resolutions (for tests and long-running processes)
+export function clearMapLinkCache(): void {
+  resolvedCache.clear();
+  failedCache.clear();
+}
@@ -0,0 +1,114 @@
+import type { DevicePosition } from './recipientStore';
+import type { DeliveryStatus } from './status';
+
+// A status change made on this device that the server hasn't acknowledged yet
+export interface QueuedStatusUpdate {
+  id: string; // Recipient ID; a newer tap on the same recipient replaces the older one
+  status: DeliveryStatus;
+  reason?: string; // Required for failed attempts
+  expectedStatus: DeliveryStatus; // Status the driver saw before their first unsynced tap
+  position: DevicePosition | null;
+  queuedAt: string; // ISO 8601
+  eventId?: string; // Delivery event it was made in; replayed there even if the device has switched since
+  driver?: string; // Who tapped it; only replayed in their own session
+}
+
+// Outcome of replaying one queued update
+export type ReplayResult = 'synced' | 'rejected' | 'retry';
+
+const DB_NAME = 'delivery-coordinator';
+const DB_VERSION = 1;
+const STORE_NAME = 'statusQueue';
+
+// Tag used to ask the service worker for a Background Sync when connectivity returns
+export const SYNC_TAG = 'status-queue';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run one request against the queue store and resolve with its result
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Queue an update, replacing any unsynced one for the same recipient. The earlier entry's
+// expectedStatus is kept: it's the last status the server actually confirmed to us.
+export async function enqueueStatusUpdate(update: QueuedStatusUpdate): Promise<void> {
+  const existing = await withStore<QueuedStatusUpdate | undefined>('readonly', (store) => store.get(update.id));
+  const merged = existing ? { ...update, expectedStatus: existing.expectedStatus } : update;
+  await withStore('readwrite', (store) => store.put(merged));
+}
+
+export async function getQueuedUpdates(): Promise<QueuedStatusUpdate[]> {
+  const updates = await withStore<QueuedStatusUpdate[]>('readonly', (store) => store.getAll());
+  return updates.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+export async function removeQueuedUpdate(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+// Replay the signed-in driver's queued updates oldest first. Stops at the first 'retry' (still
+// offline or server trouble) so ordering is preserved; synced and rejected entries leave the queue.
+// Updates another driver left behind on a shared phone are dropped rather than sent as this one.
+export async function flushQueue(
+  send: (update: QueuedStatusUpdate) => Promise<ReplayResult>,
+  driver: string
+): Promise<{ synced: string[]; rejected: string[]; remaining: number }> {
+  const queue = await getQueuedUpdates();
+  const synced: string[] = [];
+  const rejected: string[] = [];
+  let dropped = 0;
+
+  for (const update of queue) {
+    if (update.driver !== driver) {
+      await removeQueuedUpdate(update.id);
+      dropped++;
+      continue;
+    }
+
+    const result = await send(update);
+    if (result === 'retry') break;
+
+    await removeQueuedUpdate(update.id);
+    (result === 'synced' ? synced : rejected).push(update.id);
+  }
+
+  return { synced, rejected, remaining: queue.length - dropped - synced.length - rejected.length };
+}
+
+// Ask the service worker to wake us when the network is back (where Background Sync exists)
+export async function requestBackgroundSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const sync = (registration as ServiceWorkerRegistration & {
+      sync?: { register(tag: string): Promise<void> };
+    }).sync;
+    await sync?.register(SYNC_TAG);
+  } catch {
+    // Not supported or not permitted; the online listener still replays the queue
+  }
+}
@@ -0,0 +1,33 @@
+import type { Recipient } from './recipientStore';
+import { isAllowedTransition, type DeliveryStatus } from './status';
+
+// Coordinators manage everything; drivers work their own assigned recipients
+export type Role = 'coordinator' | 'driver';
+
+// The signed-in user as seen by permission checks (shared by API routes and the UI)
+export interface Actor {
+  name: string;
+  role: Role;
+}
+
+export function isCoordinator(actor: Actor): boolean {
+  return actor.role === 'coordinator';
+}
+
+// Can the actor set this recipient's status? Everyone follows the transition table in status.ts;
+// drivers only work their own recipients and can't reset them to Pending.
+export function canChangeStatus(actor: Actor, recipient: Recipient, status: DeliveryStatus): boolean {
+  if (!isAllowedTransition(recipient.status, status)) return false;
+  if (isCoordinator(actor)) return true;
+  return recipient.assignedDriver === actor.name && status !== 'Pending';
+}
+
+// Field notes come from coordinators or whoever is delivering to the recipient
+export function canAddNote(actor: Actor, recipient: Recipient): boolean {
+  return isCoordinator(actor) || recipient.assignedDriver === actor.name;
+}
+
+// Only coordinators hand out and reshuffle recipients
+export function canAssign(actor: Actor): boolean {
+  return isCoordinator(actor);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFullCode, isFullCode, isShortCode, PLUS_CODE_PATTERN, recoverShortCode } from './plusCodes';
+
+describe('isFullCode / isShortCode', () => {
+  it('tells full codes from short ones', () => {
+    expect(isFullCode('849VCWC8+R9')).toBe(true);
+    expect(isFullCode('849vcwc8+r9')).toBe(true);
+    expect(isFullCode('849VCWC8+')).toBe(true);
+    expect(isShortCode('849VCWC8+R9')).toBe(false);
+
+    expect(isShortCode('9VCWC8+R9')).toBe(true);
+    expect(isShortCode('CWC8+R9')).toBe(true);
+    expect(isShortCode('C8+R9')).toBe(true);
+    expect(isShortCode('WC8+R9')).toBe(false); // The separator follows pairs of digits
+    expect(isShortCode('CWC8+R')).toBe(false);
+  });
+
+  it('rejects codes outside the globe', () => {
+    // A first latitude digit of 9 ("F") would be 180° north of the south pole, a first longitude
+    // digit of 19 ("X") 380° east of the antimeridian
+    expect(isFullCode('F49VCWC8+R9')).toBe(false);
+    expect(isFullCode('8X9VCWC8+R9')).toBe(false);
+  });
+});
+
+describe('decodeFullCode', () => {
+  it('returns the centre of the area a code covers', () => {
+    const point = decodeFullCode('849VCWC8+R9')!;
+    expect(point.lat).toBeCloseTo(37.4220625, 9);
+    expect(point.lng).toBeCloseTo(-122.0840625, 9);
+  });
+
+  it('refines with grid digits past the tenth', () => {
+    const coarse = decodeFullCode('849VCWC8+R9')!;
+    const fine = decodeFullCode('849VCWC8+R9X')!;
+    expect(Math.abs(fine.lat - coarse.lat)).toBeLessThan(0.0000625);
+    expect(Math.abs(fine.lng - coarse.lng)).toBeLessThan(0.0000625);
+    expect(fine).not.toEqual(coarse);
+  });
+
+  it('returns null for anything that is not a full code', () => {
+    expect(decodeFullCode('CWC8+R9')).toBeNull();
+    expect(decodeFullCode('hello')).toBeNull();
+  });
+});
+
+describe('recoverShortCode', () => {
+  it('completes a short code from a nearby reference', () => {
+    const point = recoverShortCode('C8+R9', { lat: 37.42, lng: -122.08 })!;
+    expect(point.lat).toBeCloseTo(37.4220625, 9);
+    expect(point.lng).toBeCloseTo(-122.0840625, 9);
+  });
+
+  it('picks the closest match when it lies in a neighbouring cell', () => {
+    // 37.95° N is in the 37° cell, but 38.42° N is closer than 37.42° N
+    const north = recoverShortCode('CWC8+R9', { lat: 37.95, lng: -122.08 })!;
+    expect(north.lat).toBeCloseTo(38.4220625, 9);
+    expect(north.lng).toBeCloseTo(-122.0840625, 9);
+
+    // 121.6° W is in the 121° cell, but 122.08° W is closer than 121.08° W
+    const west = recoverShortCode('CWC8+R9', { lat: 37.42, lng: -121.6 })!;
+    expect(west.lat).toBeCloseTo(37.4220625, 9);
+    expect(west.lng).toBeCloseTo(-122.0840625, 9);
+  });
+
+  it('returns null for codes it cannot recover', () => {
+    expect(recoverShortCode('849VCWC8+R9', { lat: 0, lng: 0 })).toBeNull();
+  });
+});
+
+describe('PLUS_CODE_PATTERN', () => {
+  it('finds a code in free text', () => {
+    expect('Drop at C8+R9 Colombo'.match(PLUS_CODE_PATTERN)?.[1]).toBe('C8+R9');
+    expect('https://plus.codes/849VCWC8+R9'.match(PLUS_CODE_PATTERN)?.[1]).toBe('849VCWC8+R9');
+    expect('3+4 parcels'.match(PLUS_CODE_PATTERN)).toBeNull();
+  });
+});
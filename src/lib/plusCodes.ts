@@ -0,0 +1,115 @@
+import type { LatLng } from './routing';
+
+// Open Location Code (plus code) decoding, per https://github.com/google/open-location-code
+// Supports full codes ("7VFF9M3W+Q2") and short codes ("9M3W+Q2") recovered near a reference.
+
+const ALPHABET = '23456789CFGHJMPQRVWX';
+const SEPARATOR_POSITION = 8;
+const PAIR_CODE_LENGTH = 10;
+const GRID_ROWS = 5;
+const GRID_COLUMNS = 4;
+
+// Anywhere in free text: 2-8 code characters, "+", then 0+ more
+export const PLUS_CODE_PATTERN = /(?:^|[\s/=,(])([23456789CFGHJMPQRVWX]{2,8}\+[23456789CFGHJMPQRVWX]*)/i;
+
+function digit(char: string): number {
+  return ALPHABET.indexOf(char);
+}
+
+export function isFullCode(code: string): boolean {
+  const upper = code.toUpperCase();
+  if (upper.indexOf('+') !== SEPARATOR_POSITION) return false;
+  if (!/^[23456789CFGHJMPQRVWX]{8}\+([23456789CFGHJMPQRVWX]{2,})?$/.test(upper)) return false;
+  // First latitude digit can't exceed 180° / 20°, first longitude digit 360° / 20°
+  return digit(upper[0]) < 9 && digit(upper[1]) < 18;
+}
+
+export function isShortCode(code: string): boolean {
+  const upper = code.toUpperCase();
+  const separator = upper.indexOf('+');
+  return (
+    separator >= 2 &&
+    separator < SEPARATOR_POSITION &&
+    separator % 2 === 0 &&
+    /^[23456789CFGHJMPQRVWX]+\+[23456789CFGHJMPQRVWX]{2,}$/.test(upper)
+  );
+}
+
+// Centre of the area a full code covers
+export function decodeFullCode(code: string): LatLng | null {
+  if (!isFullCode(code)) return null;
+
+  const digits = code.toUpperCase().replace('+', '');
+  let lat = -90;
+  let lng = -180;
+  let latPlace = 20;
+  let lngPlace = 20;
+
+  for (let i = 0; i < Math.min(digits.length, PAIR_CODE_LENGTH); i += 2) {
+    if (i > 0) {
+      latPlace /= 20;
+      lngPlace /= 20;
+    }
+    lat += digit(digits[i]) * latPlace;
+    lng += digit(digits[i + 1]) * lngPlace;
+  }
+
+  for (let i = PAIR_CODE_LENGTH; i < digits.length; i++) {
+    latPlace /= GRID_ROWS;
+    lngPlace /= GRID_COLUMNS;
+    const d = digit(digits[i]);
+    lat += Math.floor(d / GRID_COLUMNS) * latPlace;
+    lng += (d % GRID_COLUMNS) * lngPlace;
+  }
+
+  return { lat: lat + latPlace / 2, lng: lng + lngPlace / 2 };
+}
+
+// First `length` characters of the full code for a point (pair digits only)
+function encodePrefix(point: LatLng, length: number): string {
+  let lat = Math.min(Math.max(point.lat, -90), 90 - 1e-10) + 90;
+  let lng = ((((point.lng + 180) % 360) + 360) % 360);
+  let place = 20;
+  let prefix = '';
+
+  for (let i = 0; i < length; i += 2) {
+    if (i > 0) place /= 20;
+    const latDigit = Math.floor(lat / place);
+    const lngDigit = Math.floor(lng / place);
+    lat -= latDigit * place;
+    lng -= lngDigit * place;
+    prefix += ALPHABET[latDigit] + ALPHABET[lngDigit];
+  }
+
+  return prefix;
+}
+
+// Recover a short code to the nearest matching location around a reference point
+export function recoverShortCode(code: string, reference: LatLng): LatLng | null {
+  if (!isShortCode(code)) return null;
+
+  const upper = code.toUpperCase();
+  const paddingLength = SEPARATOR_POSITION - upper.indexOf('+');
+  const resolution = Math.pow(20, 2 - paddingLength / 2);
+  const halfResolution = resolution / 2;
+
+  const decoded = decodeFullCode(encodePrefix(reference, paddingLength) + upper);
+  if (!decoded) return null;
+
+  let { lat, lng } = decoded;
+
+  // The reference prefix may pick the wrong neighbouring cell; shift to the closest one
+  if (reference.lat + halfResolution < lat && lat - resolution >= -90) {
+    lat -= resolution;
+  } else if (reference.lat - halfResolution > lat && lat + resolution <= 90) {
+    lat += resolution;
+  }
+
+  if (reference.lng + halfResolution < lng) {
+    lng -= resolution;
+  } else if (reference.lng - halfResolution > lng) {
+    lng += resolution;
+  }
+
+  return { lat, lng };
+}
@@ -0,0 +1,92 @@
+import { timingSafeEqual } from 'crypto';
+
+// Evidence captured when a recipient was marked Delivered. Photo and signature are blob keys
+// (served by GET /api/proof/<key>).
+export interface DeliveryProof {
+  photo?: string;
+  signature?: string;
+  codeConfirmed: boolean; // The recipient read out their confirmation code
+  by: string; // Driver who captured it
+  at: string; // ISO 8601
+}
+
+export const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+export const MAX_SIGNATURE_BYTES = 1024 * 1024;
+
+// Camera uploads in the formats phones produce; signatures are PNGs drawn on a canvas
+export const PHOTO_TYPES = new Map<string, string>([
+  ['image/jpeg', 'jpg'],
+  ['image/png', 'png'],
+  ['image/webp', 'webp'],
+  ['image/heic', 'heic'],
+]);
+
+// A value with "\" and ";" backslash-escaped, so a driver name like "Amal; Nimali" can't split the cell.
+// Keys never contain ":", and parseProof() splits each part at the first one, so ":" needs no escape.
+function escapeProofValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;');
+}
+
+// Split at unescaped ";" and undo the escapes
+function splitProofParts(value: string): string[] {
+  const parts: string[] = [];
+  let part = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      part += value[++i];
+    } else if (value[i] === ';') {
+      parts.push(part);
+      part = '';
+    } else {
+      part += value[i];
+    }
+  }
+  parts.push(part);
+  return parts;
+}
+
+// "photo: proof/42/...jpg; signature: proof/42/...png; code: confirmed; by: Amal; at: 2024-..."
+// Readable in the sheet, and parsed back by parseProof()
+export function formatProof(proof: DeliveryProof): string {
+  return [
+    proof.photo && `photo: ${escapeProofValue(proof.photo)}`,
+    proof.signature && `signature: ${escapeProofValue(proof.signature)}`,
+    proof.codeConfirmed && 'code: confirmed',
+    `by: ${escapeProofValue(proof.by)}`,
+    `at: ${escapeProofValue(proof.at)}`,
+  ].filter(Boolean).join('; ');
+}
+
+// Null for an empty cell or anything that isn't formatProof() output
+export function parseProof(value: string): DeliveryProof | null {
+  if (!value.trim()) return null;
+
+  const parts = new Map<string, string>();
+  for (const part of splitProofParts(value)) {
+    const separator = part.indexOf(':');
+    if (separator > 0) parts.set(part.slice(0, separator).trim(), part.slice(separator + 1).trim());
+  }
+  if (!parts.has('at')) return null;
+
+  return {
+    ...(parts.get('photo') && { photo: parts.get('photo') }),
+    ...(parts.get('signature') && { signature: parts.get('signature') }),
+    codeConfirmed: parts.get('code') === 'confirmed',
+    by: parts.get('by') ?? '',
+    at: parts.get('at')!,
+  };
+}
+
+// Codes are compared ignoring case and spaces ("ab 12" matches "AB12"), in constant time
+export function confirmationCodeMatches(expected: string, given: string): boolean {
+  const normalize = (code: string) => Buffer.from(code.replace(/\s/g, '').toUpperCase());
+  const a = normalize(expected);
+  const b = normalize(given);
+  return a.length > 0 && a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Blob keys for one recipient's proof; IDs are reduced to characters that are safe in a key
+export function proofBlobKey(recipientId: string, kind: 'photo' | 'signature', extension: string): string {
+  const safeId = recipientId.replace(/[^A-Za-z0-9_-]/g, '_') || '_';
+  return `proof/${safeId}/${Date.now()}-${kind}.${extension}`;
+}
@@ -0,0 +1,99 @@
+import { haversineKm, type LatLng } from './routing';
+import type { Recipient } from './recipientStore';
+import { DELIVERY_STATUSES, isDeliveryStatus, isFailedStatus, type DeliveryStatus } from './status';
+
+export type RecipientSort = 'id' | 'distance' | 'parcels' | 'status';
+
+// 'failed' matches every failed attempt (Not home, Wrong address, Refused, Rescheduled)
+export type StatusFilter = 'all' | 'failed' | DeliveryStatus;
+
+// The map's filter bar, also accepted by the exports so a download matches what's on screen
+export interface RecipientFilter {
+  driver: string | null; // Assigned to this driver; '' for unassigned, null for everyone
+  status: StatusFilter;
+  faculty: string | null; // null for every faculty
+  hideDelivered: boolean;
+  search: string;
+}
+
+// Free-text match on ID, either phone number or faculty. Phone numbers are compared by
+// digits only, so "077 123" finds "0771234567".
+export function matchesSearch(recipient: Recipient, query: string): boolean {
+  const text = query.trim().toLowerCase();
+  if (!text) return true;
+
+  if (recipient.id.toLowerCase().includes(text) || recipient.faculty.toLowerCase().includes(text)) {
+    return true;
+  }
+
+  const digits = text.replace(/\D/g, '');
+  return digits.length > 0 && [recipient.phone, recipient.secondaryPhone].some((phone) =>
+    phone.replace(/\D/g, '').includes(digits)
+  );
+}
+
+// Straight-line distance in km, or null when either end is unknown
+export function distanceFrom(position: LatLng | null, recipient: Recipient): number | null {
+  return position && recipient.coordinates ? haversineKm(position, recipient.coordinates) : null;
+}
+
+// A sorted copy. Distance puts the nearest first and unplaced recipients last; parcels
+// puts the biggest first; status follows the order of DELIVERY_STATUSES. Ties go by ID.
+export function sortRecipients(recipients: Recipient[], sort: RecipientSort, position: LatLng | null): Recipient[] {
+  const byId = (a: Recipient, b: Recipient) => a.id.localeCompare(b.id, undefined, { numeric: true });
+
+  const compare = (a: Recipient, b: Recipient): number => {
+    switch (sort) {
+      case 'distance': {
+        const da = distanceFrom(position, a) ?? Infinity;
+        const db = distanceFrom(position, b) ?? Infinity;
+        return da === db ? 0 : da < db ? -1 : 1;
+      }
+      case 'parcels':
+        return b.parcels - a.parcels;
+      case 'status':
+        return DELIVERY_STATUSES.indexOf(a.status) - DELIVERY_STATUSES.indexOf(b.status);
+      default:
+        return 0;
+    }
+  };
+
+  return [...recipients].sort((a, b) => compare(a, b) || byId(a, b));
+}
+
+export function filterRecipients(recipients: Recipient[], filter: RecipientFilter): Recipient[] {
+  return recipients.filter((r) => {
+    if (filter.driver !== null && r.assignedDriver !== filter.driver) return false;
+    if (filter.hideDelivered && r.status === 'Delivered') return false;
+    if (filter.status === 'failed' && !isFailedStatus(r.status)) return false;
+    if (filter.status !== 'all' && filter.status !== 'failed' && r.status !== filter.status) return false;
+    if (filter.faculty !== null && r.faculty !== filter.faculty) return false;
+    return matchesSearch(r, filter.search);
+  });
+}
+
+// Query string for a filter: ?driver=Amal&status=failed&faculty=Arts&hideDelivered=1&q=077.
+// An empty driver means unassigned; leaving it out means everyone.
+export function filterToQuery(filter: RecipientFilter): URLSearchParams {
+  const query = new URLSearchParams();
+  if (filter.driver !== null) query.set('driver', filter.driver);
+  if (filter.status !== 'all') query.set('status', filter.status);
+  if (filter.faculty !== null) query.set('faculty', filter.faculty);
+  if (filter.hideDelivered) query.set('hideDelivered', '1');
+  if (filter.search.trim()) query.set('q', filter.search.trim());
+  return query;
+}
+
+// Read a filter back from filterToQuery's format; null when the status isn't one we know
+export function parseFilterQuery(query: URLSearchParams): RecipientFilter | null {
+  const status = query.get('status') || 'all';
+  if (status !== 'all' && status !== 'failed' && !isDeliveryStatus(status)) return null;
+
+  return {
+    driver: query.get('driver'),
+    status,
+    faculty: query.get('faculty'),
+    hideDelivered: query.get('hideDelivered') === '1',
+    search: query.get('q') || '',
+  };
+}
@@ -0,0 +1,191 @@
+import type { DeliveryEvent, NewEvent } from './events';
+import { createSheetsRecipientStore, defaultSheetsEvent, sheetsEventRegistry, sheetsSessionRegistry } from './googleSheets';
+import type { GeocodeConfidence } from './geocoder';
+import { createLocalRecipientStore, defaultLocalEvent, localEventRegistry, localSessionRegistry } from './localStore';
+import type { FieldNote } from './fieldNotes';
+import type { ImportMode, ImportRecord, ImportResult } from './importer';
+import type { DeliveryProof } from './proof';
+import type { DeliveryStatus } from './status';
+
+// Types for recipients
+// Sheet columns are found by header name, see FIELD_DEFINITIONS in sheetSchema.ts
+export interface Recipient {
+  id: string; // Unique identifier from column A
+  googleMapLink: string;
+  coordinates: { lat: number; lng: number } | null;
+  recipientType: string;
+  parcels: number;
+  faculty: string;
+  phone: string;
+  secondaryPhone: string;
+  status: DeliveryStatus;
+  statusReason: string; // What happened, for Not home / Wrong address / Refused / Rescheduled
+  attempts: number; // Visits so far that ended in a delivery or a failed attempt
+  assignedDriver: string; // Driver name, empty when unassigned
+  instructions: string; // Coordinator's delivery instructions, e.g. "gate code 4421"
+  fieldNotes: FieldNote[]; // Notes drivers added on the way, oldest first
+  address: string; // Free-text address, geocoded when the map link can't be parsed
+  geocodeConfidence: GeocodeConfidence | null; // Set when coordinates came from the address
+  proof: DeliveryProof | null; // Evidence captured when marked Delivered
+  hasConfirmationCode: boolean; // The code itself never leaves the server
+  row: number; // 1-based row in the sheet (or position in the local file), for pointing people at the source
+  invalidFields: InvalidField[]; // Cells that couldn't be read as-is and were defaulted
+}
+
+// A source value that was replaced by a default when reading, e.g. a typo in the Status column
+export interface InvalidField {
+  field: 'status' | 'parcels' | 'latitude' | 'longitude';
+  value: string;
+  cell?: string; // e.g. "J12", when the store has cells
+}
+
+// Something wrong with how the store is set up, e.g. a missing sheet column
+// What kind of problem it is, without any detail: all that anonymous callers of /api/health get
+export type HealthProblemCode =
+  | 'store_unreachable'
+  | 'invalid_config'
+  | 'missing_column'
+  | 'missing_optional_column'
+  | 'duplicate_column';
+
+export interface HealthProblem {
+  severity: 'error' | 'warning'; // Errors stop the store from working; warnings turn features off
+  code: HealthProblemCode;
+  message: string;
+}
+
+export interface StoreHealth {
+  ok: boolean; // No errors (warnings are fine)
+  problems: HealthProblem[];
+}
+
+// GPS fix reported by the device that made a change
+export interface DevicePosition {
+  lat: number;
+  lng: number;
+  accuracy?: number; // Metres
+}
+
+// One entry in the audit log of status transitions
+export interface StatusChange {
+  recipientId: string;
+  oldStatus: DeliveryStatus;
+  newStatus: DeliveryStatus;
+  reason: string; // Required for failed attempts, otherwise usually empty
+  driver: string; // Name of the signed-in driver who made the change
+  timestamp: string; // ISO 8601
+  position: DevicePosition | null;
+}
+
+// Outcome of a conditional status write
+export type StatusUpdateResult =
+  | { ok: true; previousStatus: DeliveryStatus; attempts: number }
+  | { ok: false; reason: 'not_found' }
+  | { ok: false; reason: 'conflict'; currentStatus: DeliveryStatus };
+
+// A status write. With expectedStatus, it only applies if the stored status still matches
+// (compare-and-set). The reason replaces the stored one; the attempt count goes up for
+// statuses that count as a visit (see countsAsAttempt()).
+export interface StatusWrite {
+  id: string;
+  status: DeliveryStatus;
+  expectedStatus?: DeliveryStatus;
+  reason?: string;
+}
+
+// Storage backend for one delivery event's recipients. The API routes only talk to this
+// interface, so the app can run against a Google Sheet or a local file interchangeably.
+export interface RecipientStore {
+  eventId: string; // The delivery event this store reads and writes
+  listRecipients(): Promise<Recipient[]>;
+  getRecipient(id: string): Promise<Recipient | null>;
+  updateStatus(write: StatusWrite): Promise<StatusUpdateResult>;
+  // Many status writes in one round trip; results are in the same order as the writes
+  updateStatuses(writes: StatusWrite[]): Promise<StatusUpdateResult[]>;
+  // Resolve to false when no recipient has the given ID
+  updateCoordinates(id: string, coordinates: { lat: number; lng: number }): Promise<boolean>;
+  // Pass an empty name to unassign
+  assignDriver(id: string, driverName: string): Promise<boolean>;
+  // Add a driver's note after any existing ones; resolves to false when no recipient has the given ID
+  appendFieldNote(id: string, note: FieldNote): Promise<boolean>;
+  // The code the recipient reads out to confirm a delivery; null if none is set
+  getConfirmationCode(id: string): Promise<string | null>;
+  // False when there's nowhere to keep proof, e.g. a sheet without a Proof of Delivery column
+  canSaveProof(): Promise<boolean>;
+  // Resolve to false when no recipient has the given ID
+  saveProof(id: string, proof: DeliveryProof): Promise<boolean>;
+  // Add new recipients and (in upsert mode) update existing ones, matched by ID.
+  // New recipients start Pending with no attempts.
+  importRecipients(records: ImportRecord[], mode: ImportMode): Promise<ImportResult>;
+  appendStatusChanges(changes: StatusChange[]): Promise<void>;
+  // The whole audit log, oldest first
+  listStatusChanges(): Promise<StatusChange[]>;
+  // Oldest first
+  getStatusHistory(recipientId: string): Promise<StatusChange[]>;
+  // Where a person can edit the given row by hand, if the backend has such a place
+  getRowLink(row: number): string | null;
+  // Check the backend is reachable and laid out as expected
+  checkHealth(): Promise<StoreHealth>;
+}
+
+// The delivery events a backend holds. Until the first event is created, that's just the
+// original roster (DEFAULT_EVENT_ID) in the configured tab or file.
+export interface EventRegistry {
+  listEvents(): Promise<DeliveryEvent[]>;
+  // Start a new event with a copy of the source event's roster: same recipients, locations,
+  // assignments and instructions, with statuses reset to Pending and no attempts, notes, proof or confirmation codes
+  createEvent(input: NewEvent, source: DeliveryEvent): Promise<DeliveryEvent>;
+  // Resolve to false when no event has the given ID
+  setEventClosed(id: string, closed: boolean): Promise<boolean>;
+}
+
+// A logout or "sign out this driver everywhere", kept by the backend so every server instance sees it
+export interface SessionRevocation {
+  driver: string;
+  sid: string; // One session, or empty for every session issued to the driver up to revokedAt
+  revokedAt: number; // ms since epoch
+  expires: number; // ms since epoch; every token it covers has expired by then, so it can be dropped
+}
+
+export interface SessionRegistry {
+  // Unexpired revocations only
+  listRevocations(): Promise<SessionRevocation[]>;
+  addRevocation(revocation: SessionRevocation): Promise<void>;
+}
+
+type Backend = 'sheets' | 'local';
+
+// RECIPIENT_STORE is "sheets" by default, or "local"
+function getBackend(): Backend {
+  const backend = (process.env.RECIPIENT_STORE || 'sheets').trim().toLowerCase();
+  if (backend === 'sheets' || backend === 'local') return backend;
+  throw new Error(`Unknown RECIPIENT_STORE "${backend}" (expected "sheets" or "local")`);
+}
+
+// Select the store for an event from RECIPIENT_STORE; the original roster if no event is given
+export function getRecipientStore(event?: DeliveryEvent): RecipientStore {
+  switch (getBackend()) {
+    case 'sheets':
+      return createSheetsRecipientStore(event ?? defaultSheetsEvent());
+    case 'local':
+      return createLocalRecipientStore(event ?? defaultLocalEvent());
+  }
+}
+
+export function getEventRegistry(): EventRegistry {
+  switch (getBackend()) {
+    case 'sheets':
+      return sheetsEventRegistry;
+    case 'local':
+      return localEventRegistry;
+  }
+}
+
+export function getSessionRegistry(): SessionRegistry {
+  switch (getBackend()) {
+    case 'sheets':
+      return sheetsSessionRegistry;
+    case 'local':
+      return localSessionRegistry;
+  }
+}
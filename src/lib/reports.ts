@@ -0,0 +1,197 @@
+import { formatCsv } from './csv';
+import type { Depot } from './depot';
+import { planRoute } from './routing';
+import type { Recipient, StatusChange } from './recipientStore';
+import { isOutstanding } from './status';
+import { planTrips } from './tripPlanner';
+
+const REPORT_HEADERS = [
+  'ID',
+  'Status',
+  'Status Reason',
+  'Attempts',
+  'Assigned Driver',
+  'Recipient Type',
+  'Faculty',
+  'Parcels',
+  'Phone',
+  'Secondary Phone',
+  'Address',
+  'Latitude',
+  'Longitude',
+  'Delivery Instructions',
+  'Field Notes',
+  'Last Status Change',
+  'Last Changed By',
+  'Delivered At',
+  'Delivered By',
+];
+
+// Recipients with their current status and when it last changed, as a CSV file.
+// Timestamps come from the audit log, so rows changed by hand in the sheet have none.
+export function recipientReportCsv(recipients: Recipient[], changes: StatusChange[]): string {
+  const latest = new Map<string, StatusChange>();
+  const delivered = new Map<string, StatusChange>();
+  for (const change of changes) {
+    latest.set(change.recipientId, change);
+    if (change.newStatus === 'Delivered') delivered.set(change.recipientId, change);
+  }
+
+  const rows = recipients.map((r) => {
+    const last = latest.get(r.id);
+    // A delivery that was later reset isn't the current state of things
+    const delivery = r.status === 'Delivered' ? delivered.get(r.id) : undefined;
+    return [
+      r.id,
+      r.status,
+      r.statusReason,
+      r.attempts,
+      r.assignedDriver,
+      r.recipientType,
+      r.faculty,
+      r.parcels,
+      r.phone,
+      r.secondaryPhone,
+      r.address,
+      r.coordinates?.lat ?? '',
+      r.coordinates?.lng ?? '',
+      r.instructions,
+      r.fieldNotes.map((note) => (note.by ? `${note.by}: ${note.text}` : note.text)).join(' | '),
+      last?.timestamp ?? '',
+      last?.driver ?? '',
+      delivery?.timestamp ?? '',
+      delivery?.driver ?? '',
+    ];
+  });
+
+  return formatCsv([REPORT_HEADERS, ...rows]);
+}
+
+// One leg of a driver's run: a trip from the depot, or the whole run when there's no depot
+export interface ManifestSection {
+  title: string;
+  stops: Recipient[]; // In visiting order
+  parcels: number;
+  distanceKm: number | null;
+}
+
+export interface Manifest {
+  driver: string;
+  generatedAt: string; // ISO 8601
+  depot: Depot | null;
+  sections: ManifestSection[];
+  unlocated: Recipient[]; // Can't be placed in the route order, listed at the end
+  stops: number;
+  parcels: number;
+}
+
+// A driver's outstanding recipients in the order to visit them: split into round trips when a
+// depot is configured (same plan as /api/trips), otherwise one route from the first located stop.
+export function buildManifest(driver: string, recipients: Recipient[], depot: Depot | null, capacity: number): Manifest {
+  const outstanding = recipients.filter((r) => r.assignedDriver === driver && isOutstanding(r.status));
+  const byId = new Map(outstanding.map((r) => [r.id, r]));
+  const located = outstanding.filter((r) => r.coordinates);
+
+  let sections: ManifestSection[] = [];
+  if (depot) {
+    const plan = planTrips(depot, located, capacity);
+    sections = plan.trips.map((trip, index) => ({
+      title: plan.trips.length > 1 ? `Trip ${index + 1}${trip.overCapacity ? ' (over vehicle capacity)' : ''}` : 'Stops',
+      stops: trip.stopIds.map((id) => byId.get(id)!),
+      parcels: trip.parcels,
+      distanceKm: trip.distanceKm,
+    }));
+  } else if (located.length > 0) {
+    const { stops, distanceKm } = planRoute(located[0].coordinates!, located);
+    sections = [{ title: 'Stops', stops, parcels: stops.reduce((sum, r) => sum + r.parcels, 0), distanceKm }];
+  }
+
+  return {
+    driver,
+    generatedAt: new Date().toISOString(),
+    depot,
+    sections,
+    unlocated: outstanding.filter((r) => !r.coordinates),
+    stops: outstanding.length,
+    parcels: outstanding.reduce((sum, r) => sum + r.parcels, 0),
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function stopRow(recipient: Recipient, number: number | null): string {
+  const phones = [recipient.phone, recipient.secondaryPhone].filter(Boolean).map(escapeHtml).join('<br>');
+  const where = [recipient.address, recipient.faculty, recipient.recipientType].filter(Boolean).map(escapeHtml).join('<br>');
+  const notes = [
+    recipient.instructions && `<strong>${escapeHtml(recipient.instructions)}</strong>`,
+    recipient.status !== 'Pending' && `${escapeHtml(recipient.status)}${recipient.statusReason ? `: ${escapeHtml(recipient.statusReason)}` : ''}`,
+    ...recipient.fieldNotes.map((note) => escapeHtml(note.by ? `${note.by}: ${note.text}` : note.text)),
+  ].filter(Boolean).join('<br>');
+
+  return `<tr>
+<td class="check"><span class="box"></span></td>
+<td class="num">${number ?? ''}</td>
+<td><strong>${escapeHtml(recipient.id)}</strong></td>
+<td class="num parcels">${recipient.parcels}</td>
+<td>${phones}</td>
+<td>${where}</td>
+<td class="notes">${notes}</td>
+</tr>`;
+}
+
+const TABLE_HEAD = '<thead><tr><th>✓</th><th>#</th><th>ID</th><th>Parcels</th><th>Phone</th><th>Where</th><th>Instructions &amp; notes</th></tr></thead>';
+
+// A self-contained page to print (or save as PDF from the print dialog) as a paper run sheet
+export function renderManifestHtml(manifest: Manifest): string {
+  const generated = new Date(manifest.generatedAt).toUTCString();
+  let number = 0;
+
+  const sections = manifest.sections.map((section) => `
+<h2>${escapeHtml(section.title)} <small>${section.stops.length} stops · ${section.parcels} parcels${section.distanceKm !== null ? ` · ~${section.distanceKm.toFixed(1)} km` : ''}</small></h2>
+<table>${TABLE_HEAD}<tbody>${section.stops.map((stop) => stopRow(stop, ++number)).join('')}</tbody></table>`).join('');
+
+  const unlocated = manifest.unlocated.length > 0 ? `
+<h2>Not on the map <small>${manifest.unlocated.length} stops, find these by address or phone</small></h2>
+<table>${TABLE_HEAD}<tbody>${manifest.unlocated.map((stop) => stopRow(stop, null)).join('')}</tbody></table>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Run sheet – ${escapeHtml(manifest.driver)}</title>
+<style>
+body { font: 12px/1.4 system-ui, sans-serif; color: #111; margin: 16px; }
+h1 { font-size: 18px; margin: 0 0 4px; }
+h2 { font-size: 14px; margin: 18px 0 6px; }
+small { font-weight: normal; color: #555; }
+.meta { color: #555; margin-bottom: 8px; }
+table { width: 100%; border-collapse: collapse; }
+th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; vertical-align: top; }
+th { background: #eee; }
+tr { break-inside: avoid; }
+.check { width: 20px; text-align: center; }
+.box { display: inline-block; width: 14px; height: 14px; border: 1.5px solid #111; }
+.num { text-align: right; white-space: nowrap; }
+.parcels { font-size: 14px; font-weight: bold; }
+.notes { max-width: 260px; }
+.print { margin: 8px 0; padding: 6px 12px; font-size: 14px; }
+@media print { .print { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Run sheet – ${escapeHtml(manifest.driver)}</h1>
+<div class="meta">${manifest.stops} stops · ${manifest.parcels} parcels${manifest.depot ? ` · from ${escapeHtml(manifest.depot.name)}` : ''} · printed ${escapeHtml(generated)}</div>
+<button class="print" onclick="window.print()">Print / Save as PDF</button>
+${manifest.stops === 0 ? '<p>No outstanding deliveries.</p>' : sections + unlocated}
+</body>
+</html>
+`;
+}
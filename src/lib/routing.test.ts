@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { haversineKm, pathDistanceKm, planRoute, type LatLng } from './routing';
+
+const DEPOT: LatLng = { lat: 6.9, lng: 79.86 };
+
+function stop(id: string, lat: number, lng: number) {
+  return { id, coordinates: { lat, lng } };
+}
+
+describe('haversineKm', () => {
+  it('measures great-circle distance', () => {
+    // One degree of latitude is about 111 km anywhere
+    expect(haversineKm({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })).toBeCloseTo(111.19, 1);
+    expect(haversineKm(DEPOT, DEPOT)).toBe(0);
+  });
+
+  it('adds up the legs of a path', () => {
+    const points = [{ lat: 0, lng: 0 }, { lat: 1, lng: 0 }, { lat: 1, lng: 1 }];
+    expect(pathDistanceKm(points)).toBeCloseTo(haversineKm(points[0], points[1]) + haversineKm(points[1], points[2]), 9);
+    expect(pathDistanceKm([DEPOT])).toBe(0);
+  });
+});
+
+describe('planRoute', () => {
+  it('visits stops along a road in order, whatever order they came in', () => {
+    const stops = [stop('c', 6.93, 79.86), stop('a', 6.91, 79.86), stop('d', 6.94, 79.86), stop('b', 6.92, 79.86)];
+    const route = planRoute(DEPOT, stops);
+    expect(route.stops.map((s) => s.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(route.distanceKm).toBeCloseTo(haversineKm(DEPOT, { lat: 6.94, lng: 79.86 }), 6);
+  });
+
+  it('leaves out stops without coordinates', () => {
+    const route = planRoute(DEPOT, [stop('a', 6.91, 79.86), { id: 'nowhere', coordinates: null }]);
+    expect(route.stops.map((s) => s.id)).toEqual(['a']);
+  });
+
+  it('counts the way back when asked to return to the start', () => {
+    const stops = [stop('a', 6.91, 79.86)];
+    const oneWay = planRoute(DEPOT, stops).distanceKm;
+    expect(planRoute(DEPOT, stops, { returnToStart: true }).distanceKm).toBeCloseTo(oneWay * 2, 9);
+    expect(planRoute(DEPOT, [], { returnToStart: true })).toEqual({ stops: [], distanceKm: 0 });
+  });
+
+  it('untangles routes until no reversed stretch is shorter (2-opt)', () => {
+    // Nearest neighbour alone walks this zigzag with crossing legs
+    const stops = [
+      stop('1', 6.901, 79.861),
+      stop('2', 6.905, 79.875),
+      stop('3', 6.902, 79.88),
+      stop('4', 6.915, 79.862),
+      stop('5', 6.913, 79.878),
+      stop('6', 6.92, 79.87),
+      stop('7', 6.908, 79.868),
+    ];
+
+    for (const returnToStart of [false, true]) {
+      const route = planRoute(DEPOT, stops, { returnToStart });
+      const points = route.stops.map((s) => s.coordinates);
+      const length = (order: LatLng[]) => pathDistanceKm([DEPOT, ...order, ...(returnToStart ? [DEPOT] : [])]);
+
+      expect(route.distanceKm).toBeCloseTo(length(points), 9);
+      for (let i = 0; i < points.length - 1; i++) {
+        for (let j = i + 1; j < points.length; j++) {
+          const reversed = [...points.slice(0, i), ...points.slice(i, j + 1).reverse(), ...points.slice(j + 1)];
+          expect(length(reversed)).toBeGreaterThanOrEqual(route.distanceKm - 1e-9);
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,115 @@
+// Offline route planning: straight-line distances, nearest-neighbour construction
+// and 2-opt improvement. No external routing service is involved.
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface PlannedRoute<T> {
+  stops: T[]; // In visiting order
+  distanceKm: number; // Straight-line total, including the return leg if requested
+}
+
+interface RouteOptions {
+  returnToStart?: boolean; // Close the loop back to the start (e.g. a depot)
+}
+
+const EARTH_RADIUS_KM = 6371;
+const MAX_TWO_OPT_PASSES = 50;
+
+// Great-circle distance between two points
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+// Total length of a path through the given points, in order
+export function pathDistanceKm(points: LatLng[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += haversineKm(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+// Greedy tour: from the start, always go to the closest unvisited point
+function nearestNeighbourOrder(start: LatLng, points: LatLng[]): number[] {
+  const remaining = new Set(points.map((_, i) => i));
+  const order: number[] = [];
+  let current = start;
+
+  while (remaining.size > 0) {
+    let best = -1;
+    let bestDistance = Infinity;
+    for (const i of remaining) {
+      const distance = haversineKm(current, points[i]);
+      if (distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    }
+    order.push(best);
+    remaining.delete(best);
+    current = points[best];
+  }
+
+  return order;
+}
+
+// Repeatedly reverse segments of the tour while that shortens it. The start stays fixed;
+// for open paths the last leg has no successor, for closed loops it returns to the start.
+function twoOpt(start: LatLng, points: LatLng[], order: number[], returnToStart: boolean): number[] {
+  const tour = [...order];
+  const at = (k: number): LatLng => (k < 0 ? start : points[tour[k]]);
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false;
+
+    for (let i = 0; i < tour.length - 1; i++) {
+      for (let j = i + 1; j < tour.length; j++) {
+        const a = at(i - 1);
+        const b = at(i);
+        const c = at(j);
+        const isLast = j === tour.length - 1;
+        const d = isLast ? (returnToStart ? start : null) : at(j + 1);
+
+        const before = haversineKm(a, b) + (d ? haversineKm(c, d) : 0);
+        const after = haversineKm(a, c) + (d ? haversineKm(b, d) : 0);
+
+        if (after < before - 1e-9) {
+          tour.splice(i, j - i + 1, ...tour.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return tour;
+}
+
+// Order stops into a short route from the start point
+export function planRoute<T extends { coordinates: LatLng | null }>(
+  start: LatLng,
+  stops: T[],
+  options: RouteOptions = {}
+): PlannedRoute<T> {
+  const routable = stops.filter((s) => s.coordinates);
+  const points = routable.map((s) => s.coordinates!);
+  const returnToStart = options.returnToStart ?? false;
+
+  const order = twoOpt(start, points, nearestNeighbourOrder(start, points), returnToStart);
+  const ordered = order.map((i) => routable[i]);
+
+  const path = [start, ...order.map((i) => points[i])];
+  if (returnToStart && ordered.length > 0) path.push(start);
+
+  return { stops: ordered, distanceKm: pathDistanceKm(path) };
+}
@@ -0,0 +1,105 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { getSessionRegistry, type HealthProblem, type SessionRevocation } from './recipientStore';
+
+export const SESSION_COOKIE = 'dc_session';
+
+const DEFAULT_SESSION_TTL_HOURS = 12;
+
+// Payload carried inside a signed session token
+export interface Session {
+  sid: string; // Random session ID, used for per-session revocation
+  driver: string; // Driver name from ACCESS_CODES
+  iat: number; // Issued at (ms since epoch)
+  exp: number; // Expires at (ms since epoch)
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('SESSION_SECRET must be set to at least 32 characters');
+  }
+  return secret;
+}
+
+// Problems with the session settings that would stop anyone signing in, for the health check
+export function checkSessionHealth(): HealthProblem[] {
+  try {
+    getSessionSecret();
+    return [];
+  } catch (error) {
+    return [{ severity: 'error', code: 'invalid_config', message: (error as Error).message }];
+  }
+}
+
+export function getSessionTtlMs(): number {
+  const hours = parseFloat(process.env.SESSION_TTL_HOURS || '');
+  return (hours > 0 ? hours : DEFAULT_SESSION_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSessionSecret()).update(payload).digest('base64url');
+}
+
+// Issue a signed token for a driver: base64url(JSON payload) + "." + HMAC signature
+export function createSessionToken(driver: string): { token: string; session: Session } {
+  const now = Date.now();
+  const session: Session = {
+    sid: randomUUID(),
+    driver,
+    iat: now,
+    exp: now + getSessionTtlMs(),
+  };
+
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return { token: `${payload}.${sign(payload)}`, session };
+}
+
+// Whether a revocation ends the given session
+function revokes(revocation: SessionRevocation, session: Session): boolean {
+  if (revocation.sid) return revocation.sid === session.sid;
+  return revocation.driver === session.driver && session.iat <= revocation.revokedAt;
+}
+
+// Verify signature, expiry and revocation; resolves to null for any invalid token.
+// Revocations are kept by the recipient store so every server instance honours them.
+export async function verifySessionToken(token: string): Promise<Session | null> {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let session: Session;
+  try {
+    session = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (typeof session.exp !== 'number' || session.exp <= Date.now()) return null;
+
+  const revocations = await getSessionRegistry().listRevocations();
+  if (revocations.some((revocation) => revokes(revocation, session))) return null;
+
+  return session;
+}
+
+// Revoke a single session (logout); kept until the token would have expired anyway
+export async function revokeSession(session: Session): Promise<void> {
+  await getSessionRegistry().addRevocation({
+    driver: session.driver,
+    sid: session.sid,
+    revokedAt: Date.now(),
+    expires: session.exp,
+  });
+}
+
+// Revoke every session issued so far to a driver, without touching other drivers.
+// Kept for one session lifetime, after which every token it covers has expired.
+export async function revokeDriverSessions(driver: string): Promise<void> {
+  const now = Date.now();
+  await getSessionRegistry().addRevocation({ driver, sid: '', revokedAt: now, expires: now + getSessionTtlMs() });
+}
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cellRange, columnLetter, getSchemaConfig, parseRow, resolveLayout, type SchemaConfig } from './sheetSchema';
+
+const CONFIG: SchemaConfig = { tab: 'Sheet1', headers: {}, problems: [] };
+
+const REQUIRED_HEADERS = ['ID', 'Google Map Link', 'Latitude', 'Longitude', 'Parcels', 'Status'];
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('resolveLayout', () => {
+  it('finds columns by header name in any order', () => {
+    const { layout, problems } = resolveLayout(['Status', 'Parcels', 'ID', 'Longitude', 'Latitude', 'Google Map Link'], CONFIG);
+    expect(layout.columns).toMatchObject({ status: 0, parcels: 1, id: 2, longitude: 3, latitude: 4, googleMapLink: 5 });
+    expect(problems.filter((p) => p.severity === 'error')).toEqual([]);
+  });
+
+  it('ignores case, spacing and punctuation and knows common aliases', () => {
+    const { layout } = resolveLayout([' id ', 'GoogleMapLink', 'Lat', 'Lng', 'parcels', 'STATUS', 'Driver'], CONFIG);
+    expect(layout.columns).toMatchObject({ id: 0, googleMapLink: 1, latitude: 2, longitude: 3, assignedDriver: 6 });
+  });
+
+  it('reports a missing required column as an error and a missing optional one as a warning', () => {
+    const { problems } = resolveLayout(REQUIRED_HEADERS.filter((h) => h !== 'Status'), CONFIG);
+    expect(problems).toContainEqual(expect.objectContaining({ severity: 'error', code: 'missing_column', field: 'status' }));
+    expect(problems).toContainEqual(expect.objectContaining({ severity: 'warning', code: 'missing_optional_column', field: 'phone' }));
+  });
+
+  it('refuses a column that appears twice rather than guessing', () => {
+    const { layout, problems } = resolveLayout([...REQUIRED_HEADERS, 'Lat'], CONFIG);
+    expect(layout.columns.latitude).toBeUndefined();
+    expect(problems).toContainEqual({
+      severity: 'error',
+      code: 'duplicate_column',
+      field: 'latitude',
+      message: 'Column "Latitude" appears more than once (C, G)',
+    });
+  });
+
+  it('looks only for the configured header when one is set', () => {
+    const config: SchemaConfig = { ...CONFIG, headers: { googleMapLink: 'Location' } };
+    const { layout } = resolveLayout(['ID', 'Location', 'Google Map Link'], config);
+    expect(layout.columns.googleMapLink).toBe(1);
+  });
+});
+
+describe('getSchemaConfig', () => {
+  it('reads header overrides and reports malformed entries', () => {
+    vi.stubEnv('SHEET_TAB', 'Recipients');
+    vi.stubEnv('SHEET_COLUMNS', 'googleMapLink=Location, nonsense=X, phone=');
+    const config = getSchemaConfig();
+    expect(config.tab).toBe('Recipients');
+    expect(config.headers).toEqual({ googleMapLink: 'Location' });
+    expect(config.problems.map((p) => p.code)).toEqual(['invalid_config', 'invalid_config']);
+  });
+});
+
+describe('columnLetter and cellRange', () => {
+  it('converts column indexes to letters', () => {
+    expect(columnLetter(0)).toBe('A');
+    expect(columnLetter(25)).toBe('Z');
+    expect(columnLetter(26)).toBe('AA');
+    expect(columnLetter(701)).toBe('ZZ');
+  });
+
+  it('quotes the tab name', () => {
+    const layout = { tab: "Amal's list", columns: { status: 9 } };
+    expect(cellRange(layout, 'status', 12)).toBe("'Amal''s list'!J12");
+    expect(cellRange(layout, 'phone', 12)).toBeNull();
+  });
+});
+
+describe('parseRow', () => {
+  const { layout } = resolveLayout([...REQUIRED_HEADERS, 'Phone'], CONFIG);
+
+  it('reads trimmed cells by field, leaving absent columns blank', () => {
+    const { values, invalidFields } = parseRow(['42', ' https://maps.app.goo.gl/x ', '6.9', '79.8', '2', 'Pending', '077 123'], layout, 5);
+    expect(values).toMatchObject({ id: '42', googleMapLink: 'https://maps.app.goo.gl/x', parcels: '2', phone: '077 123', faculty: '' });
+    expect(invalidFields).toEqual([]);
+  });
+
+  it('reports unreadable cells with their cell reference', () => {
+    const { invalidFields } = parseRow(['42', '', '95', 'abc', 'two', 'Dlivered'], layout, 7);
+    expect(invalidFields).toEqual([
+      { field: 'parcels', value: 'two', cell: 'E7' },
+      { field: 'status', value: 'Dlivered', cell: 'F7' },
+      { field: 'latitude', value: '95', cell: 'C7' },
+      { field: 'longitude', value: 'abc', cell: 'D7' },
+    ]);
+  });
+
+  it('accepts the "error" marker left for links that could not be parsed', () => {
+    const { invalidFields } = parseRow(['42', '', 'error', 'error', '1', 'Pending'], layout, 3);
+    expect(invalidFields).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+import type { HealthProblem, InvalidField } from './recipientStore';
+import { isDeliveryStatus } from './status';
+
+// Columns of the recipients tab, found by header name rather than position
+export type RecipientField =
+  | 'id'
+  | 'googleMapLink'
+  | 'latitude'
+  | 'longitude'
+  | 'recipientType'
+  | 'parcels'
+  | 'faculty'
+  | 'phone'
+  | 'secondaryPhone'
+  | 'status'
+  | 'statusReason'
+  | 'attempts'
+  | 'assignedDriver'
+  | 'instructions'
+  | 'fieldNotes'
+  | 'address'
+  | 'geocodeConfidence'
+  | 'proofOfDelivery'
+  | 'confirmationCode';
+
+interface FieldDefinition {
+  header: string; // Default header name
+  aliases?: string[]; // Other names commonly used for the same column
+  required: boolean; // The app can't work (or would write to the wrong place) without it
+}
+
+export const FIELD_DEFINITIONS: Record<RecipientField, FieldDefinition> = {
+  id: { header: 'ID', required: true },
+  googleMapLink: { header: 'Google Map Link', aliases: ['Google Maps Link', 'Map Link'], required: true },
+  latitude: { header: 'Latitude', aliases: ['Lat'], required: true },
+  longitude: { header: 'Longitude', aliases: ['Lng', 'Long', 'Lon'], required: true },
+  recipientType: { header: 'Recipient Type', aliases: ['Type'], required: false },
+  parcels: { header: 'Parcels', required: true },
+  faculty: { header: 'Faculty', required: false },
+  phone: { header: 'Phone', aliases: ['Phone Number', 'Primary Phone'], required: false },
+  secondaryPhone: { header: 'Secondary Phone', aliases: ['Phone 2'], required: false },
+  status: { header: 'Status', required: true },
+  statusReason: { header: 'Status Reason', aliases: ['Reason'], required: false },
+  attempts: { header: 'Attempts', required: false },
+  assignedDriver: { header: 'Assigned Driver', aliases: ['Driver'], required: false },
+  instructions: { header: 'Delivery Instructions', aliases: ['Instructions', 'Notes'], required: false },
+  fieldNotes: { header: 'Field Notes', aliases: ['Driver Notes'], required: false },
+  address: { header: 'Address', required: false },
+  geocodeConfidence: { header: 'Geocode Confidence', required: false },
+  proofOfDelivery: { header: 'Proof of Delivery', aliases: ['Proof'], required: false },
+  confirmationCode: { header: 'Confirmation Code', aliases: ['Code'], required: false },
+};
+
+const FIELDS = Object.keys(FIELD_DEFINITIONS) as RecipientField[];
+
+// Where each field lives in the recipients tab (0-based column indexes)
+export interface SheetLayout {
+  tab: string;
+  columns: Partial<Record<RecipientField, number>>;
+}
+
+export interface SchemaProblem extends HealthProblem {
+  field?: RecipientField;
+}
+
+// Tab name and header overrides from SHEET_TAB and SHEET_COLUMNS
+export interface SchemaConfig {
+  tab: string;
+  headers: Partial<Record<RecipientField, string>>;
+  problems: SchemaProblem[]; // Mistakes in the configuration itself
+}
+
+// SHEET_COLUMNS="googleMapLink=Location,phone=Mobile" renames the headers to look for
+export function getSchemaConfig(): SchemaConfig {
+  const headers: Partial<Record<RecipientField, string>> = {};
+  const problems: SchemaProblem[] = [];
+
+  for (const entry of (process.env.SHEET_COLUMNS || '').split(',')) {
+    if (!entry.trim()) continue;
+    const [field, ...rest] = entry.split('=');
+    const header = rest.join('=').trim();
+
+    if (!FIELDS.includes(field.trim() as RecipientField) || !header) {
+      problems.push({ severity: 'error', code: 'invalid_config', message: `SHEET_COLUMNS entry "${entry.trim()}" is not field=Header (fields: ${FIELDS.join(', ')})` });
+      continue;
+    }
+    headers[field.trim() as RecipientField] = header;
+  }
+
+  return { tab: process.env.SHEET_TAB || 'Sheet1', headers, problems };
+}
+
+// "Google Map Link", "google map link " and "GoogleMapLink" all compare equal
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Normalized header names a field is recognised by: the configured override, or the default and its aliases
+function headerNames(field: RecipientField, config: SchemaConfig): Set<string> {
+  const definition = FIELD_DEFINITIONS[field];
+  const configured = config.headers[field];
+  const names = configured ? [configured] : [definition.header, ...(definition.aliases ?? [])];
+  return new Set(names.map(normalizeHeader));
+}
+
+// The field a header names, if any, e.g. "Lat" -> latitude
+export function fieldForHeader(header: string, config: SchemaConfig): RecipientField | null {
+  const normalized = normalizeHeader(header);
+  return FIELDS.find((field) => headerNames(field, config).has(normalized)) ?? null;
+}
+
+// Match the header row against the expected fields, reporting anything missing or ambiguous
+export function resolveLayout(headerRow: unknown[], config: SchemaConfig): { layout: SheetLayout; problems: SchemaProblem[] } {
+  const problems: SchemaProblem[] = [...config.problems];
+  const columns: Partial<Record<RecipientField, number>> = {};
+  const headers = headerRow.map((cell) => normalizeHeader(String(cell ?? '')));
+
+  for (const field of FIELDS) {
+    const definition = FIELD_DEFINITIONS[field];
+    const configured = config.headers[field];
+    const wanted = headerNames(field, config);
+
+    const matches = headers.flatMap((header, index) => (wanted.has(header) ? [index] : []));
+    const label = `"${configured ?? definition.header}"`;
+
+    if (matches.length === 0) {
+      problems.push(definition.required
+        ? { severity: 'error', code: 'missing_column', field, message: `Missing required column ${label}` }
+        : { severity: 'warning', code: 'missing_optional_column', field, message: `No ${label} column (optional, left blank)` });
+      continue;
+    }
+    if (matches.length > 1) {
+      problems.push({
+        severity: 'error',
+        code: 'duplicate_column',
+        field,
+        message: `Column ${label} appears more than once (${matches.map(columnLetter).join(', ')})`,
+      });
+      continue;
+    }
+    columns[field] = matches[0];
+  }
+
+  return { layout: { tab: config.tab, columns }, problems };
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+// Quote a tab name for A1 notation ("Sheet 1" -> 'Sheet 1')
+export function quoteTab(tab: string): string {
+  return `'${tab.replace(/'/g, "''")}'`;
+}
+
+// A1 reference to one field of a row, e.g. 'Sheet1'!J12; null if the tab has no such column
+export function cellRange(layout: SheetLayout, field: RecipientField, row: number): string | null {
+  const column = layout.columns[field];
+  return column === undefined ? null : `${quoteTab(layout.tab)}!${columnLetter(column)}${row}`;
+}
+
+// A1 reference to a whole column, e.g. 'Sheet1'!A:A
+export function columnRange(layout: SheetLayout, field: RecipientField): string | null {
+  const column = layout.columns[field];
+  if (column === undefined) return null;
+  const letter = columnLetter(column);
+  return `${quoteTab(layout.tab)}!${letter}:${letter}`;
+}
+
+// The raw cell values of one row, by field, plus the cells that failed validation
+export interface ParsedRow {
+  values: Record<RecipientField, string>;
+  invalidFields: InvalidField[];
+}
+
+// Read and validate one row. Bad cells are reported with their cell reference; callers
+// decide what to fall back to.
+export function parseRow(row: unknown[], layout: SheetLayout, rowNumber: number): ParsedRow {
+  const values = {} as Record<RecipientField, string>;
+  for (const field of FIELDS) {
+    const column = layout.columns[field];
+    values[field] = column === undefined ? '' : String(row[column] ?? '').trim();
+  }
+
+  const invalidFields: InvalidField[] = [];
+  const report = (field: InvalidField['field']) => {
+    invalidFields.push({
+      field,
+      value: values[field],
+      cell: `${columnLetter(layout.columns[field]!)}${rowNumber}`,
+    });
+  };
+
+  if (values.parcels && !/^\d+$/.test(values.parcels)) report('parcels');
+  if (values.status && !isDeliveryStatus(values.status)) report('status');
+
+  // "error" is our own marker for a link that couldn't be parsed, not bad data
+  const coordinateLimits = { latitude: 90, longitude: 180 } as const;
+  for (const field of ['latitude', 'longitude'] as const) {
+    const value = values[field];
+    if (!value || value === 'error') continue;
+    const number = Number(value);
+    if (isNaN(number) || Math.abs(number) > coordinateLimits[field]) report(field);
+  }
+
+  return { values, invalidFields };
+}
@@ -0,0 +1,9 @@
+import { parseCsv } from './csv';
+import { readXlsxRows } from './xlsx';
+
+// Rows of an uploaded CSV or XLSX file (the first worksheet), told apart by the zip
+// signature rather than the file name
+export function readSpreadsheet(data: Buffer): string[][] {
+  const isZip = data.length >= 4 && data.readUInt32LE(0) === 0x04034b50;
+  return isZip ? readXlsxRows(data) : parseCsv(data.toString('utf8'));
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import {
+  countsAsAttempt,
+  DELIVERY_STATUSES,
+  isAllowedTransition,
+  isDeliveryStatus,
+  isOutstanding,
+  MAX_REASON_LENGTH,
+  parseAttempts,
+  validateStatusReason,
+} from './status';
+
+describe('isDeliveryStatus', () => {
+  it('accepts every known status and nothing else', () => {
+    for (const status of DELIVERY_STATUSES) {
+      expect(isDeliveryStatus(status)).toBe(true);
+    }
+    expect(isDeliveryStatus('delivered')).toBe(false);
+    expect(isDeliveryStatus('')).toBe(false);
+    expect(isDeliveryStatus(undefined)).toBe(false);
+  });
+});
+
+describe('isAllowedTransition', () => {
+  it('lets a pending recipient be visited with any outcome', () => {
+    expect(isAllowedTransition('Pending', 'On the way')).toBe(true);
+    expect(isAllowedTransition('Pending', 'Delivered')).toBe(true);
+    expect(isAllowedTransition('Pending', 'Refused')).toBe(true);
+  });
+
+  it('only lets final outcomes be reset to Pending', () => {
+    for (const from of ['Delivered', 'Wrong address', 'Refused'] as const) {
+      expect(isAllowedTransition(from, 'Pending')).toBe(true);
+      expect(isAllowedTransition(from, 'Delivered')).toBe(false);
+      expect(isAllowedTransition(from, 'On the way')).toBe(false);
+    }
+  });
+
+  it('allows recording a repeat Not home or Rescheduled visit', () => {
+    expect(isAllowedTransition('Not home', 'Not home')).toBe(true);
+    expect(isAllowedTransition('Rescheduled', 'Rescheduled')).toBe(true);
+    expect(isAllowedTransition('Pending', 'Pending')).toBe(false);
+  });
+
+  it("doesn't send a rescheduled recipient to Wrong address", () => {
+    expect(isAllowedTransition('Rescheduled', 'Wrong address')).toBe(false);
+  });
+});
+
+describe('countsAsAttempt', () => {
+  it('counts visits to the door but not phone arrangements', () => {
+    expect(countsAsAttempt('Delivered')).toBe(true);
+    expect(countsAsAttempt('Not home')).toBe(true);
+    expect(countsAsAttempt('Rescheduled')).toBe(false);
+    expect(countsAsAttempt('On the way')).toBe(false);
+  });
+});
+
+describe('isOutstanding', () => {
+  it('keeps recipients that still need a visit', () => {
+    expect(DELIVERY_STATUSES.filter(isOutstanding)).toEqual(['Pending', 'On the way', 'Not home', 'Rescheduled']);
+  });
+});
+
+describe('parseAttempts', () => {
+  it('reads whole positive counts and treats anything else as none', () => {
+    expect(parseAttempts('3')).toBe(3);
+    expect(parseAttempts(2)).toBe(2);
+    expect(parseAttempts('')).toBe(0);
+    expect(parseAttempts('-1')).toBe(0);
+    expect(parseAttempts('1.5')).toBe(0);
+    expect(parseAttempts('two')).toBe(0);
+  });
+});
+
+describe('validateStatusReason', () => {
+  it('requires a reason for failed attempts', () => {
+    expect(validateStatusReason('Not home', undefined)).toBe('A reason is required for Not home');
+    expect(validateStatusReason('Refused', '   ')).toBe('A reason is required for Refused');
+    expect(validateStatusReason('Not home', 'No answer at the gate')).toBeNull();
+  });
+
+  it("doesn't need one otherwise", () => {
+    expect(validateStatusReason('Delivered', undefined)).toBeNull();
+    expect(validateStatusReason('Pending', '')).toBeNull();
+  });
+
+  it('rejects reasons that are not strings or too long', () => {
+    expect(validateStatusReason('Delivered', 42)).toBe('Invalid reason (must be a string)');
+    expect(validateStatusReason('Not home', 'x'.repeat(MAX_REASON_LENGTH + 1))).toMatch(/too long/);
+  });
+});
@@ -0,0 +1,83 @@
+// The delivery lifecycle: every status a recipient can be in and how it may move between them.
+// Shared by the stores, the API and the UI, so it must not import anything server-only.
+
+export const DELIVERY_STATUSES = [
+  'Pending',
+  'On the way',
+  'Delivered',
+  'Not home',
+  'Wrong address',
+  'Refused',
+  'Rescheduled',
+] as const;
+
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+export function isDeliveryStatus(value: unknown): value is DeliveryStatus {
+  return typeof value === 'string' && (DELIVERY_STATUSES as readonly string[]).includes(value);
+}
+
+// Outcomes of a visit that didn't end in a delivery; each needs a reason saying what happened
+export const FAILED_STATUSES: readonly DeliveryStatus[] = ['Not home', 'Wrong address', 'Refused', 'Rescheduled'];
+
+export function isFailedStatus(status: DeliveryStatus): boolean {
+  return FAILED_STATUSES.includes(status);
+}
+
+// Where each status may go next. Moving back to Pending is a reset, which only coordinators
+// may do (see permissions.ts). Not home and Rescheduled can be recorded again for a repeat visit.
+export const STATUS_TRANSITIONS: Record<DeliveryStatus, readonly DeliveryStatus[]> = {
+  Pending: ['On the way', 'Delivered', 'Not home', 'Wrong address', 'Refused', 'Rescheduled'],
+  'On the way': ['Pending', 'Delivered', 'Not home', 'Wrong address', 'Refused', 'Rescheduled'],
+  Delivered: ['Pending'],
+  'Not home': ['Pending', 'On the way', 'Delivered', 'Not home', 'Wrong address', 'Refused', 'Rescheduled'],
+  'Wrong address': ['Pending'], // Fix the address first, then reset
+  Refused: ['Pending'],
+  Rescheduled: ['Pending', 'On the way', 'Delivered', 'Not home', 'Refused', 'Rescheduled'],
+};
+
+export function isAllowedTransition(from: DeliveryStatus, to: DeliveryStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Statuses that mean someone went to the door; each one adds to the recipient's attempt count.
+// Rescheduled is usually arranged by phone, so it doesn't count.
+const ATTEMPT_STATUSES: readonly DeliveryStatus[] = ['Delivered', 'Not home', 'Wrong address', 'Refused'];
+
+export function countsAsAttempt(status: DeliveryStatus): boolean {
+  return ATTEMPT_STATUSES.includes(status);
+}
+
+// Still needs a visit: included in routes and trips
+export function isOutstanding(status: DeliveryStatus): boolean {
+  return status === 'Pending' || status === 'On the way' || status === 'Not home' || status === 'Rescheduled';
+}
+
+// Marker colour for each status
+export const STATUS_COLORS: Record<DeliveryStatus, string> = {
+  Pending: '#ef4444',
+  'On the way': '#eab308',
+  Delivered: '#22c55e',
+  'Not home': '#f97316',
+  'Wrong address': '#a855f7',
+  Refused: '#64748b',
+  Rescheduled: '#14b8a6',
+};
+
+// Attempt counts are kept by the app; anything unreadable counts as no attempts yet
+export function parseAttempts(value: unknown): number {
+  const attempts = Number(value);
+  return Number.isInteger(attempts) && attempts > 0 ? attempts : 0;
+}
+
+export const MAX_REASON_LENGTH = 500;
+
+// Check the reason sent with a status change; returns what's wrong with it, or null if it's fine
+export function validateStatusReason(status: DeliveryStatus, reason: unknown): string | null {
+  if (reason !== undefined && typeof reason !== 'string') return 'Invalid reason (must be a string)';
+  if (typeof reason === 'string' && reason.length > MAX_REASON_LENGTH) {
+    return `Reason is too long (at most ${MAX_REASON_LENGTH} characters)`;
+  }
+  if (isFailedStatus(status) && !reason?.trim()) return `A reason is required for ${status}`;
+  return null;
+}
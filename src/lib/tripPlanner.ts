@@ -0,0 +1,65 @@
+import { planRoute, type LatLng } from './routing';
+import type { Recipient } from './recipientStore';
+
+// One round trip from the depot and back
+export interface Trip {
+  stopIds: string[]; // In visiting order
+  parcels: number;
+  distanceKm: number; // Straight-line, depot → stops → depot
+  overCapacity: boolean; // A single recipient with more parcels than the vehicle holds
+}
+
+export interface TripPlan {
+  trips: Trip[];
+  unlocatedIds: string[]; // Recipients without coordinates, which can't be planned
+}
+
+// Split recipients into capacity-limited trips using the sweep heuristic: sort stops by
+// bearing around the depot, fill a trip until the next stop would exceed capacity, then
+// order each trip's stops with the route planner.
+export function planTrips(depot: LatLng, recipients: Recipient[], capacity: number): TripPlan {
+  const located = recipients.filter((r) => r.coordinates);
+  const unlocatedIds = recipients.filter((r) => !r.coordinates).map((r) => r.id);
+
+  const bearing = (r: Recipient) =>
+    Math.atan2(r.coordinates!.lat - depot.lat, r.coordinates!.lng - depot.lng);
+  const swept = [...located].sort((a, b) => bearing(a) - bearing(b));
+
+  const groups: Recipient[][] = [];
+  const oversized: Recipient[] = [];
+  let current: Recipient[] = [];
+  let load = 0;
+
+  for (const recipient of swept) {
+    if (recipient.parcels > capacity) {
+      oversized.push(recipient);
+      continue;
+    }
+    if (load + recipient.parcels > capacity && current.length > 0) {
+      groups.push(current);
+      current = [];
+      load = 0;
+    }
+    current.push(recipient);
+    load += recipient.parcels;
+  }
+  if (current.length > 0) groups.push(current);
+
+  const toTrip = (group: Recipient[], overCapacity: boolean): Trip => {
+    const { stops, distanceKm } = planRoute(depot, group, { returnToStart: true });
+    return {
+      stopIds: stops.map((s) => s.id),
+      parcels: group.reduce((sum, r) => sum + r.parcels, 0),
+      distanceKm,
+      overCapacity,
+    };
+  };
+
+  return {
+    trips: [
+      ...groups.map((group) => toTrip(group, false)),
+      ...oversized.map((recipient) => toTrip([recipient], true)),
+    ],
+    unlocatedIds,
+  };
+}
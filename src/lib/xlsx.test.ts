@@ -0,0 +1,101 @@
+import { deflateRawSync } from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { readSpreadsheet } from './spreadsheetFile';
+import { readXlsxRows } from './xlsx';
+
+// A zip archive of the given files, deflated unless stored is set. CRCs are left at zero;
+// the reader doesn't check them.
+function zip(files: Record<string, string | Buffer>, { stored = false } = {}): Buffer {
+  const locals: Buffer[] = [];
+  const entries: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, contents] of Object.entries(files)) {
+    const raw = Buffer.from(contents);
+    const data = stored ? raw : deflateRawSync(raw);
+    const fileName = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(stored ? 0 : 8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(stored ? 0 : 8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(raw.length, 24);
+    entry.writeUInt16LE(fileName.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    locals.push(local, fileName, data);
+    entries.push(entry, fileName);
+    offset += local.length + fileName.length + data.length;
+  }
+
+  const directory = Buffer.concat(entries);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const WORKBOOK = '<workbook><sheets><sheet name="Roster" sheetId="1" r:id="rId3"/></sheets></workbook>';
+const RELATIONSHIPS =
+  '<Relationships><Relationship Id="rId1" Target="styles.xml"/><Relationship Id="rId3" Target="worksheets/roster.xml"/></Relationships>';
+const SHARED_STRINGS = '<sst><si><t>ID</t></si><si><t>Address</t></si><si><r><t>12 Main</t></r><r><t xml:space="preserve"> St</t></r></si></sst>';
+const SHEET =
+  '<worksheet><sheetData>' +
+  '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+  '<row r="2"><c r="A2"><v>42</v></c><c r="B2" t="s"><v>2</v></c><c r="D2" t="inlineStr"><is><t>Tom &amp; Jerry &#x263A;</t></is></c></row>' +
+  '<row r="4"><c r="B4" t="s"><v>1</v></c><c r="C4"/></row>' +
+  '</sheetData></worksheet>';
+
+function workbook(sheet = SHEET): Buffer {
+  return zip({
+    'xl/workbook.xml': WORKBOOK,
+    'xl/_rels/workbook.xml.rels': RELATIONSHIPS,
+    'xl/sharedStrings.xml': SHARED_STRINGS,
+    'xl/worksheets/roster.xml': sheet,
+  });
+}
+
+describe('readXlsxRows', () => {
+  it('reads the first worksheet, resolving shared strings, rich text and inline strings', () => {
+    expect(readXlsxRows(workbook())).toEqual([
+      ['ID', 'Address'],
+      ['42', '12 Main St', '', 'Tom & Jerry ☺'],
+      ['', 'Address', ''],
+    ]);
+  });
+
+  it('reads stored (uncompressed) entries too', () => {
+    const data = zip({ 'xl/worksheets/sheet1.xml': '<row r="1"><c r="A1"><v>7</v></c></row>' }, { stored: true });
+    expect(readXlsxRows(data)).toEqual([['7']]);
+  });
+
+  it('rejects files that are not workbooks', () => {
+    expect(() => readXlsxRows(Buffer.from('not a zip at all, just some text to scan'))).toThrow('Not a zip file');
+    expect(() => readXlsxRows(zip({ 'readme.txt': 'hello' }))).toThrow('Workbook has no worksheet');
+  });
+
+  it('refuses a workbook that unpacks to more than the limit', () => {
+    const bomb = `<worksheet>${' '.repeat(51 * 1024 * 1024)}</worksheet>`;
+    expect(() => readXlsxRows(zip({ 'xl/worksheets/sheet1.xml': bomb }))).toThrow(/too large once unpacked/);
+  });
+});
+
+describe('readSpreadsheet', () => {
+  it('tells workbooks from CSV by their content', () => {
+    expect(readSpreadsheet(workbook())[0]).toEqual(['ID', 'Address']);
+    expect(readSpreadsheet(Buffer.from('ID,Address\n42,12 Main St\n'))).toEqual([['ID', 'Address'], ['42', '12 Main St']]);
+  });
+});
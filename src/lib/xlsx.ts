@@ -0,0 +1,151 @@
+import { inflateRawSync } from 'zlib';
+
+// Just enough of the XLSX format to read the first worksheet's cell values as text:
+// an .xlsx file is a zip of XML parts, so this reads the zip directory, inflates the
+// workbook parts it needs and pulls the values out of the sheet XML.
+
+// Offsets and signatures from the zip format (APPNOTE.TXT)
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Compressed XML shrinks a lot, but a crafted file can inflate to gigabytes; a 5,000-row
+// sheet with its shared strings is nowhere near this
+const MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+
+function tooLarge(): Error {
+  return new Error(`Workbook is too large once unpacked (at most ${MAX_UNCOMPRESSED_BYTES / 1024 / 1024} MB)`);
+}
+
+// Inflate one entry without going past what's left of the budget
+function inflateEntry(compressed: Buffer, maxOutputLength: number): Buffer {
+  try {
+    return inflateRawSync(compressed, { maxOutputLength });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') throw tooLarge();
+    throw error;
+  }
+}
+
+// Map of file name -> contents for every entry in a zip archive
+function readZip(data: Buffer): Map<string, Buffer> {
+  // The end record sits in the last 64 KB (22 bytes plus an optional comment)
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a zip file');
+
+  const entryCount = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  let unpacked = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) throw new Error('Corrupt zip directory');
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (data.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) throw new Error('Corrupt zip entry');
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const compressed = data.subarray(start, start + compressedSize);
+
+    let contents: Buffer;
+    if (method === 0) contents = compressed;
+    else if (method === 8) contents = inflateEntry(compressed, Math.max(1, MAX_UNCOMPRESSED_BYTES - unpacked));
+    // Other methods don't occur in spreadsheets; skip rather than fail on an unrelated part
+    else continue;
+
+    unpacked += contents.length;
+    if (unpacked > MAX_UNCOMPRESSED_BYTES) throw tooLarge();
+    files.set(name, contents);
+  }
+
+  return files;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// All <t> runs inside an element, joined (rich text splits one string into several runs)
+function textRuns(xml: string): string {
+  return [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map((m) => decodeXml(m[1])).join('');
+}
+
+// "C12" -> 2 (0-based column index)
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] ?? '';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Path of the first sheet listed in the workbook, e.g. "xl/worksheets/sheet1.xml"
+function firstSheetPath(files: Map<string, Buffer>): string {
+  const workbook = files.get('xl/workbook.xml')?.toString('utf8') ?? '';
+  const relationships = files.get('xl/_rels/workbook.xml.rels')?.toString('utf8') ?? '';
+  const relationId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook)?.[1];
+
+  if (relationId) {
+    for (const match of relationships.matchAll(/<Relationship\b[^>]*>/g)) {
+      if (!match[0].includes(`Id="${relationId}"`)) continue;
+      const target = /Target="([^"]+)"/.exec(match[0])?.[1];
+      if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return 'xl/worksheets/sheet1.xml';
+}
+
+// Cell values of the first worksheet as text, one array per row (gaps filled with '')
+export function readXlsxRows(data: Buffer): string[][] {
+  const files = readZip(data);
+
+  const sharedStrings = [...(files.get('xl/sharedStrings.xml')?.toString('utf8') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map((m) => textRuns(m[1]));
+
+  const sheet = files.get(firstSheetPath(files))?.toString('utf8');
+  if (!sheet) throw new Error('Workbook has no worksheet');
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+    const rowNumber = parseInt(/\br="(\d+)"/.exec(rowMatch[1])?.[1] ?? '', 10) || rows.length + 1;
+    const row: string[] = [];
+
+    for (const cellMatch of rowMatch[2].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const reference = /\br="([A-Z]+\d+)"/.exec(attributes)?.[1];
+      const type = /\bt="(\w+)"/.exec(attributes)?.[1];
+      const rawValue = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+      let value = '';
+      if (type === 's') value = sharedStrings[parseInt(rawValue ?? '', 10)] ?? '';
+      else if (type === 'inlineStr') value = textRuns(body);
+      else if (rawValue !== undefined) value = decodeXml(rawValue);
+
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = row;
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}